@@ -17,31 +17,78 @@ import Settings from './components/Settings';
 import ResetPassword from "./components/ResetPassword";
 import ChatBot from './components/ChatBot';
 
-import { AppView, ResumeAnalysis, ActivityLog, UserRole, Job, Application, SavedResume } from './types';
+import { AppView, ResumeAnalysis, ActivityLog, UserRole, Job, Application, SavedResume, RevealEvent, SavedSearch, AppNotification, JobStatus, PracticeTarget } from './types';
 import { motion, AnimatePresence } from 'framer-motion';
 import { supabase } from './lib/supabaseClient';
+import { repositories, mergeJobs, syncQueue } from './services/repositories';
+import { SyncQueueState } from './services/syncQueue';
+import { setAiRequestUser } from './services/aiRequest';
+import { invalidateAiCache } from './services/aiCache';
+import { getCachedJobMatch } from './services/gemini';
+import { scoreJobMatch } from './lib/atsScore';
+import { candidateAlias, isRevealingStatus, redactApplication } from './lib/redaction';
+import { acceptsApplications, isOwnJob, isPendingApplication, transitionJob } from './lib/jobLifecycle';
+import { Route, canAccess, homeView } from './lib/routes';
+import { useRoute } from './lib/router';
 import { v4 as uuidv4 } from 'uuid';
 
+// Signed-in candidates re-read their notifications this often to pick up new job alerts
+const NOTIFICATIONS_POLL_MS = 5 * 60_000;
+
 function App() {
   const [user, setUser] = useState<{ name: string, email: string, role: UserRole, id: string, phone?: string, address?: string } | null>(null);
   const [viewState, setViewState] = useState<'landing' | 'auth_login' | 'auth_signup' | 'auth_reset' | 'app'>('landing');
-  const [currentView, setCurrentView] = useState<AppView>(AppView.DASHBOARD);
+  const { route, navigate } = useRoute();
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
 
   // Global State for Shared Data
   const [resumeAnalysis, setResumeAnalysis] = useState<ResumeAnalysis | null>(null);
   const [savedResumes, setSavedResumes] = useState<SavedResume[]>([]);
+  const [primaryResumeId, setPrimaryResumeId] = useState<string | null>(null);
   const [activities, setActivities] = useState<ActivityLog[]>([]);
 
   // Shared Job/Recruitment State
   const [jobs, setJobs] = useState<Job[]>([]);
   const [applications, setApplications] = useState<Application[]>([]);
-  // Track ownership of applications to prevent employers from overwriting candidate ownership
-  const [applicationOwners, setApplicationOwners] = useState<Record<string, string>>({});
+
+  // Employer blind review: identities stay hidden until a candidate is shortlisted or interviewed
+  const [blindReview, setBlindReview] = useState(false);
+  const [revealEvents, setRevealEvents] = useState<RevealEvent[]>([]);
+
+  // Candidate saved searches (some with job alerts) and the notifications they produce
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [practiceTargets, setPracticeTargets] = useState<PracticeTarget[]>([]);
 
   // Navigation Intents
   const [postJobIntent, setPostJobIntent] = useState(false);
 
+  // Outbox status for the Sidebar "pending sync" indicator
+  const [syncState, setSyncState] = useState<SyncQueueState>(syncQueue.getState());
+
+  // The URL decides the screen; views outside the user's role fall back to their home view
+  const activeRoute: Route = route && canAccess(route.view, user?.role) ? route : { view: homeView(user?.role) };
+  const currentView = activeRoute.view;
+  const setCurrentView = (view: AppView) => navigate({ view });
+
+  // Jobs, cover letters, interviews and applications use the primary resume; without an explicit
+  // choice (or once it's deleted) that's the newest one not tailored for a specific job.
+  // `resumeAnalysis` is only what the Resume Optimizer has open.
+  const primaryResume = savedResumes.find(r => r.id === primaryResumeId) || savedResumes.find(r => !r.jobId) || savedResumes[0];
+  const primaryAnalysis = primaryResume?.data ?? resumeAnalysis;
+
+  // What the employer screens. Once revealed a candidate stays revealed, even if later rejected.
+  const revealedIds = new Set(revealEvents.map(e => e.applicationId));
+  const isHiddenCandidate = (app: Application) => blindReview && !isRevealingStatus(app.status) && !revealedIds.has(app.id);
+  // The demo store shares every application, including ones to other employers' jobs and to AI
+  // sample jobs, so employers only get those for jobs they posted
+  const receivedApplications = user?.role === 'employer'
+    ? applications.filter(app => jobs.some(job => job.id === app.jobId && isOwnJob(job, user.id)))
+    : applications;
+  const screenedApplications = blindReview
+    ? receivedApplications.map(app => isHiddenCandidate(app) ? redactApplication(app) : app)
+    : receivedApplications;
+
   // Initialize Auth Listener & Session Restoration
   useEffect(() => {
     const isRecovery = typeof window !== 'undefined' && window.location.hash && window.location.hash.includes('type=recovery');
@@ -94,6 +141,43 @@ function App() {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Drain the signed-in user's sync outbox in the background and pick up rows merged with
+  // concurrent edits
+  useEffect(() => {
+    if (!user?.id) return;
+    syncQueue.start(user.id);
+    const unsubscribeState = syncQueue.subscribe(setSyncState);
+    const unsubscribeReconciled = syncQueue.onReconciled((table, data) => {
+      if (table === 'applications') {
+        setApplications(prev => prev.map(app => app.id === data.id ? data : app));
+      }
+    });
+    // Retrying won't help these, so say so instead of showing them as pending forever
+    const unsubscribeRejected = syncQueue.onRejected((mutation, message) => {
+      addActivity("Sync Rejected", `A ${mutation.table} change was refused by the server: ${message}`);
+    });
+
+    return () => {
+      unsubscribeState();
+      unsubscribeReconciled();
+      unsubscribeRejected();
+      syncQueue.stop();
+      setSyncState(syncQueue.getState());
+    };
+  }, [user?.id]);
+
+  // Rewrite the address bar when it points at `/` or at a view this role can't open
+  useEffect(() => {
+    if (viewState === 'app' && user && (!route || !canAccess(route.view, user.role))) {
+      navigate({ view: homeView(user.role) }, { replace: true });
+    }
+  }, [viewState, user?.role, route, navigate]);
+
+  // AI calls are rate limited per signed-in user
+  useEffect(() => {
+    setAiRequestUser(user?.id || null);
+  }, [user?.id]);
+
   // Fetch Data from DB/LocalStorage when User Logs In
   useEffect(() => {
     const loadUserData = async () => {
@@ -101,103 +185,46 @@ function App() {
 
       try {
         // 1. FETCH RESUMES
-        let loadedResumes: SavedResume[] = [];
-
-        // Try DB
-        const { data: resumesData } = await supabase
-          .from('resumes')
-          .select('*')
-          .eq('user_id', user.id)
-          .order('created_at', { ascending: false });
-
-        if (resumesData && resumesData.length > 0) {
-          loadedResumes = resumesData
-            .map((row: any) => ({
-              id: row.id,
-              created_at: row.created_at,
-              data: row.data
-            }))
-            .filter((r: SavedResume) => r.data && r.data.score !== undefined); // Filter out corrupt data
-        } else {
-          // Fallback to LocalStorage
-          const localResumes = localStorage.getItem(`carrerx_resumes_${user.id}`);
-          if (localResumes) {
-            const parsed = JSON.parse(localResumes);
-            if (Array.isArray(parsed)) {
-              loadedResumes = parsed.filter((r: any) => r && r.data && r.data.score !== undefined);
-            }
-          }
-        }
-
+        const [loadedResumes, primaryId] = await Promise.all([
+          repositories.resumes.list(user.id),
+          repositories.resumes.getPrimaryId(user.id)
+        ]);
         setSavedResumes(loadedResumes);
+        setPrimaryResumeId(primaryId);
         if (!resumeAnalysis && loadedResumes.length > 0) {
-          setResumeAnalysis(loadedResumes[0].data);
+          setResumeAnalysis((loadedResumes.find(r => r.id === primaryId) || loadedResumes.find(r => !r.jobId) || loadedResumes[0]).data);
         }
 
-        // 2. FETCH APPLICATIONS
-        let loadedApps: Application[] = [];
-
-        // STRATEGY: Use a "Global" LocalStorage key as the Source of Truth for the Demo environment.
-        // This allows Candidates and Employers to share data on the same browser without complex DB permissions.
-        const globalAppsStr = localStorage.getItem('carrerx_global_applications');
-        let globalApps: Application[] = globalAppsStr ? JSON.parse(globalAppsStr) : [];
-
-        // If global is empty but we have local candidate data, migrate it up (self-healing)
-        if (globalApps.length === 0 && user.role === 'candidate') {
-          const localLegacyApps = localStorage.getItem(`carrerx_apps_${user.id}`);
-          if (localLegacyApps) {
-            globalApps = JSON.parse(localLegacyApps);
-            localStorage.setItem('carrerx_global_applications', JSON.stringify(globalApps));
-          }
-        }
+        // 2. FETCH APPLICATIONS (already filtered by role and sorted newest first)
+        setApplications(await repositories.applications.list(user));
 
-        // Also attempt DB fetch to see if we have fresher data there
-        let dbApps: Application[] = [];
-        let query = supabase.from('applications').select('user_id, data');
         if (user.role === 'candidate') {
-          query = query.eq('user_id', user.id);
-        }
-        const { data: appsData } = await query;
-        if (appsData && appsData.length > 0) {
-          dbApps = appsData.map((row: any) => row.data).filter((a: any) => a);
-          // Merge DB apps into globalApps if missing
-          dbApps.forEach(dbApp => {
-            if (!globalApps.find(g => g.id === dbApp.id)) {
-              globalApps.push(dbApp);
-            }
-          });
+          const [searches, loadedNotifications, targets] = await Promise.all([
+            repositories.searches.list(user.id),
+            repositories.notifications.list(user.id),
+            repositories.practiceTargets.list(user.id)
+          ]);
+          setSavedSearches(searches);
+          setNotifications(loadedNotifications);
+          setPracticeTargets(targets);
         }
 
-        // Filter: Employers see ALL. Candidates see ONLY THEIRS.
         if (user.role === 'employer') {
-          loadedApps = globalApps;
-        } else {
-          loadedApps = globalApps.filter(app => app.candidateEmail === user.email);
+          const [blind, reveals] = await Promise.all([
+            repositories.screening.getBlindReview(user.id),
+            repositories.screening.listReveals(user.id)
+          ]);
+          setBlindReview(blind);
+          setRevealEvents(reveals);
         }
 
-        // Sort by timestamp descending
-        loadedApps.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-        setApplications(loadedApps);
-
         // 3. FETCH JOBS
         // Strategy: Load "Global Posted Jobs" (Employer created) AND "Local User Jobs" (AI generated for candidate)
-        const globalJobsStr = localStorage.getItem('carrerx_global_jobs');
-        const globalJobs: Job[] = globalJobsStr ? JSON.parse(globalJobsStr) : [];
-
-        const localJobsStr = localStorage.getItem(`carrerx_jobs_${user.id}`);
-        const localJobs: Job[] = localJobsStr ? JSON.parse(localJobsStr) : [];
-
-        // Merge logic: Start with Global Jobs, add Local Jobs if not already present
-        const mergedJobs = [...globalJobs];
-        const globalIds = new Set(globalJobs.map(j => j.id));
-
-        localJobs.forEach(j => {
-          if (!globalIds.has(j.id)) {
-            mergedJobs.push(j);
-          }
-        });
-
-        setJobs(mergedJobs);
+        const [postedJobs, userJobs] = await Promise.all([
+          repositories.jobs.listPosted(),
+          repositories.jobs.listForUser(user.id)
+        ]);
+        setJobs(mergeJobs(postedJobs, userJobs));
 
       } catch (e) {
         console.error("Error loading user data:", e);
@@ -215,41 +242,54 @@ function App() {
     if (user?.id && jobs.length > 0) {
       // We save the CURRENT view of jobs to the user's local storage. 
       // This effectively caches the global jobs for them too, which is fine for this architecture.
-      localStorage.setItem(`carrerx_jobs_${user.id}`, JSON.stringify(jobs));
+      repositories.jobs.saveForUser(user.id, jobs);
     }
   }, [jobs, user?.id]);
 
+  // Note: Resumes and applications are persisted through the repositories in the handlers below
+
+  // Job alerts are matched and recorded on the server when a job is published; signed-in
+  // candidates pick up new ones by re-reading their notifications
   useEffect(() => {
-    if (user?.id && savedResumes.length > 0) {
-      localStorage.setItem(`carrerx_resumes_${user.id}`, JSON.stringify(savedResumes));
-    }
-  }, [savedResumes, user?.id]);
+    if (!user?.id || user.role !== 'candidate') return;
+    let cancelled = false;
 
-  // Note: We handle application persistence manually in the handlers to ensure Global Sync
+    const refreshNotifications = async () => {
+      const loaded = await repositories.notifications.list(user.id);
+      if (!cancelled) setNotifications(loaded);
+    };
+
+    const timer = setInterval(refreshNotifications, NOTIFICATIONS_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [user?.id, user?.role]);
 
 
   // Handlers
   const handleLogin = (u: { name: string, email: string, role: UserRole, id: string, phone?: string, address?: string }) => {
+    // Keep a deep link opened before signing in; the guard above redirects if the role can't see it
     setUser(u);
     setViewState('app');
-    if (u.role === 'employer') {
-      setCurrentView(AppView.EMPLOYER_DASHBOARD);
-    } else {
-      setCurrentView(AppView.DASHBOARD);
-    }
   };
 
   const handleLogout = async () => {
     await supabase.auth.signOut();
     setUser(null);
     setViewState('landing');
-    setCurrentView(AppView.DASHBOARD);
+    navigate(null, { replace: true });
     setResumeAnalysis(null);
     setSavedResumes([]);
+    setPrimaryResumeId(null);
     setActivities([]);
     setApplications([]);
     setJobs([]);
-    setApplicationOwners({});
+    setBlindReview(false);
+    setRevealEvents([]);
+    setSavedSearches([]);
+    setNotifications([]);
+    setPracticeTargets([]);
   };
 
   const handleUpdateProfile = (name: string) => {
@@ -274,7 +314,13 @@ function App() {
 
   const handleResumeAnalysisComplete = async (result: ResumeAnalysis) => {
     setResumeAnalysis(result);
-    setJobs([]); // Clear previous jobs so they can be regenerated for the new resume
+    // Without an explicit primary the new upload becomes the primary resume, so job matches
+    // have to be regenerated for it
+    if (!savedResumes.some(r => r.id === primaryResumeId)) {
+      setJobs([]);
+    }
+    // Results derived from the previous resume are stale now
+    invalidateAiCache(['jobMatch', 'improvementExample', 'suggestSkills']);
     addActivity("Resume Analysis", `Scored ${result.score}/100`);
 
     // Save Resume
@@ -286,63 +332,157 @@ function App() {
         data: result
       };
 
-      // Optimistic update (triggers LocalStorage save via useEffect)
+      // Optimistic update
       setSavedResumes(prev => [newEntry, ...prev]);
 
-      // DB Insert (Fire and forget, with logging)
-      supabase.from('resumes').insert({
-        id: newId,
-        user_id: user.id,
-        data: result,
-        created_at: newEntry.created_at
-      }).then(({ error }) => {
-        if (error) console.warn("DB Save Error (Resume):", error.message);
-      });
+      // Persist (local first, DB errors are logged by the repository)
+      repositories.resumes.save(user.id, newEntry);
     }
   };
 
+  // Opening a version only changes what the Resume Optimizer shows; see handleSetPrimaryResume
   const handleLoadSavedResume = (resume: SavedResume) => {
     if (!resume.data) return;
     setResumeAnalysis(resume.data);
-    setJobs([]); // Clear previous jobs so they can be regenerated for the loaded resume
-    addActivity("Resume Loaded", `Loaded resume from ${new Date(resume.created_at).toLocaleDateString()}`);
+    addActivity("Resume Loaded", `Loaded ${resume.label || `resume from ${new Date(resume.created_at).toLocaleDateString()}`}`);
+  };
+
+  const handleSetPrimaryResume = (resume: SavedResume) => {
+    if (!user?.id || resume.id === primaryResumeId) return;
+    // Pinning the newest resume keeps it primary when a newer one is uploaded later
+    setPrimaryResumeId(resume.id);
+    if (resume.id !== primaryResume?.id) {
+      setJobs([]); // Clear previous jobs so they can be regenerated for the new primary resume
+    }
+    addActivity("Primary Resume", resume.label || resume.data.file?.name || "Resume");
+    repositories.resumes.setPrimaryId(user.id, resume.id);
+  };
+
+  const handleRenameResume = (resume: SavedResume, label: string) => {
+    if (!user?.id) return;
+    const renamed: SavedResume = { ...resume, label: label.trim() || undefined };
+    setSavedResumes(prev => prev.map(r => r.id === resume.id ? renamed : r));
+    repositories.resumes.save(user.id, renamed);
+  };
+
+  const handleSaveTailoredResume = (job: Job, analysis: ResumeAnalysis) => {
+    if (!user?.id) return;
+    const tailored: SavedResume = {
+      id: uuidv4(),
+      created_at: new Date().toISOString(),
+      data: analysis,
+      label: `${job.title} · ${job.company}`,
+      jobId: job.id
+    };
+    setSavedResumes(prev => [tailored, ...prev]);
+    repositories.resumes.save(user.id, tailored);
+  };
+
+  const handleDeleteResume = (resume: SavedResume) => {
+    if (!user?.id) return;
+    setSavedResumes(prev => prev.filter(r => r.id !== resume.id));
+    if (resumeAnalysis === resume.data) {
+      setResumeAnalysis(null);
+    }
+    if (resume.id === primaryResume?.id) {
+      setJobs([]);
+    }
+    if (resume.id === primaryResumeId) {
+      setPrimaryResumeId(null);
+      repositories.resumes.setPrimaryId(user.id, null);
+    }
+    addActivity("Resume Deleted", resume.data.file?.name || "Resume");
+
+    // Removes the uploaded file too once the delete syncs
+    repositories.resumes.delete(user.id, resume);
   };
 
   const handleApplyToJob = async (job: Job) => {
     if (!user) return;
+    // AI-suggested companies are fictional; nobody would ever read the application
+    if (job.source === 'ai') {
+      handleSavePracticeTarget(job);
+      return;
+    }
+    // The card may be stale if the employer closed or paused the job since it loaded
+    const latest = await repositories.jobs.getPosted(job.id);
+    if (latest && latest.status !== job.status) {
+      setJobs(prev => prev.map(j => j.id === latest.id ? latest : j));
+    }
+    if (!acceptsApplications(latest || job)) {
+      throw new Error(`${job.title} is no longer accepting applications.`);
+    }
+    // A version tailored for this job (newest first) beats the primary resume
+    const resume = savedResumes.find(r => r.jobId === job.id)?.data ?? primaryAnalysis;
+    // The AI fit score when the candidate analyzed this job, otherwise the local keyword score
+    const aiMatch = resume ? await getCachedJobMatch(resume, job.description) : null;
 
     const newApplication: Application = {
       id: Date.now().toString(),
       jobId: job.id,
       jobTitle: job.title,
+      candidateId: user.id,
       candidateName: user.name,
       candidateEmail: user.email,
       candidatePhone: user.phone,
       candidateAddress: user.address,
-      matchScore: resumeAnalysis ? resumeAnalysis.score : Math.floor(Math.random() * (98 - 70 + 1) + 70),
+      matchScore: aiMatch?.matchScore ?? (resume ? scoreJobMatch(resume, job).score : 0),
+      matchSource: aiMatch ? 'ai' : 'keywords',
       status: 'New',
       timestamp: new Date(),
-      resumeFile: resumeAnalysis?.file
+      resumeFile: resume?.file,
+      resumeSummary: resume?.summary,
+      resumeProfile: resume?.profile
     };
 
+    try {
+      await repositories.applications.submit(newApplication);
+    } catch {
+      throw new Error(`${job.company} didn't accept the application for ${job.title}. The job may have just closed.`);
+    }
     setApplications(prev => [newApplication, ...prev]);
     addActivity("Job Application", `Applied to ${job.company}`);
+  };
 
-    // SYNC: Update Global Storage (Demo Mode)
-    const existingGlobal: Application[] = JSON.parse(localStorage.getItem('carrerx_global_applications') || '[]');
-    localStorage.setItem('carrerx_global_applications', JSON.stringify([newApplication, ...existingGlobal]));
+  const handleSavePracticeTarget = (job: Job) => {
+    if (!user?.id || practiceTargets.some(t => t.job.id === job.id)) return;
+    const target: PracticeTarget = { id: uuidv4(), job, savedAt: new Date().toISOString() };
+    setPracticeTargets(prev => [target, ...prev]);
+    addActivity("Practice Target", `${job.title} at ${job.company}`);
+    repositories.practiceTargets.save(user.id, target);
+  };
 
-    // SYNC: DB Update
-    if (user?.id) {
-      supabase.from('applications').upsert({
-        id: newApplication.id,
-        user_id: user.id,
-        data: newApplication,
-        updated_at: new Date().toISOString()
-      }).then(({ error }) => {
-        if (error) console.warn("DB Save Error (Application):", error.message);
-      });
-    }
+  const handleRemovePracticeTarget = (target: PracticeTarget) => {
+    if (!user?.id) return;
+    setPracticeTargets(prev => prev.filter(t => t.id !== target.id));
+    repositories.practiceTargets.delete(user.id, target);
+  };
+
+  const handleSaveSearch = (search: SavedSearch) => {
+    if (!user?.id) return;
+    setSavedSearches(prev => prev.some(s => s.id === search.id)
+      ? prev.map(s => s.id === search.id ? search : s)
+      : [search, ...prev]);
+    repositories.searches.save(user.id, search);
+  };
+
+  const handleDeleteSearch = (search: SavedSearch) => {
+    if (!user?.id) return;
+    setSavedSearches(prev => prev.filter(s => s.id !== search.id));
+    repositories.searches.delete(user.id, search);
+  };
+
+  const markNotificationsRead = (ids: string[]) => {
+    if (!user?.id) return;
+    const read = notifications.filter(n => ids.includes(n.id) && !n.read).map(n => ({ ...n, read: true }));
+    if (read.length === 0) return;
+    setNotifications(prev => prev.map(n => read.find(r => r.id === n.id) || n));
+    repositories.notifications.save(user.id, read);
+  };
+
+  const handleOpenNotification = (notification: AppNotification) => {
+    markNotificationsRead([notification.id]);
+    if (notification.jobId) navigate({ view: AppView.JOBS, id: notification.jobId });
   };
 
   const handlePostJobRequest = () => {
@@ -351,25 +491,41 @@ function App() {
   };
 
   const handlePostJob = (job: Job) => {
-    setJobs(prev => [job, ...prev]);
-    addActivity("Job Posted", job.title);
+    const ownedJob: Job = { ...job, employerId: user?.id };
+    setJobs(prev => [ownedJob, ...prev]);
+    addActivity(job.status === 'draft' ? "Draft Saved" : "Job Posted", job.title);
 
-    // Save to Global Storage (so candidates can see it)
-    const globalJobs = JSON.parse(localStorage.getItem('carrerx_global_jobs') || '[]');
-    const updatedGlobalJobs = [job, ...globalJobs];
-    localStorage.setItem('carrerx_global_jobs', JSON.stringify(updatedGlobalJobs));
+    // Save to Global Storage + DB (so candidates can see it)
+    repositories.jobs.savePosted(ownedJob);
   };
 
-  const handleUpdateJob = (updatedJob: Job) => {
+  // Postings saved before ownership was recorded are claimed by the employer who next edits them
+  const withOwner = (job: Job): Job => job.employerId || !user ? job : { ...job, employerId: user.id };
+
+  const handleUpdateJob = (edited: Job) => {
+    const updatedJob = withOwner(edited);
     setJobs(prev => prev.map(j => j.id === updatedJob.id ? updatedJob : j));
     addActivity("Job Updated", updatedJob.title);
 
     // Sync Global
-    const globalJobs = JSON.parse(localStorage.getItem('carrerx_global_jobs') || '[]');
-    if (globalJobs.some((j: Job) => j.id === updatedJob.id)) {
-      const newGlobal = globalJobs.map((j: Job) => j.id === updatedJob.id ? updatedJob : j);
-      localStorage.setItem('carrerx_global_jobs', JSON.stringify(newGlobal));
-    }
+    repositories.jobs.updatePosted(updatedJob);
+  };
+
+  const handleChangeJobStatus = (job: Job, status: JobStatus) => {
+    const updatedJob = withOwner(transitionJob(job, status));
+    setJobs(prev => prev.map(j => j.id === job.id ? updatedJob : j));
+    addActivity("Job Status", `${job.title} is now ${status}`);
+    repositories.jobs.updatePosted(updatedJob);
+
+    if (status !== 'closed') return;
+    // Closing settles everyone still waiting instead of leaving them pending forever
+    const rejected = applications
+      .filter(app => app.jobId === job.id && isPendingApplication(app))
+      .map(app => ({ ...app, status: 'Rejected' as const }));
+    if (rejected.length === 0) return;
+    setApplications(prev => prev.map(app => rejected.find(r => r.id === app.id) || app));
+    addActivity("Application Update", `Rejected ${rejected.length} pending applicant${rejected.length === 1 ? '' : 's'} for ${job.title}`);
+    rejected.forEach(app => repositories.applications.save(app));
   };
 
   const handleUpdateApplicationStatus = async (id: string, newStatus: Application['status'], interviewDate?: Date) => {
@@ -401,7 +557,8 @@ function App() {
 
     const appToUpdate = applications.find(a => a.id === id);
     if (appToUpdate && user?.id) {
-      let meta = `Marked ${appToUpdate.candidateName} as ${newStatus}`;
+      const wasHidden = isHiddenCandidate(appToUpdate);
+      let meta = `Marked ${wasHidden ? candidateAlias(appToUpdate) : appToUpdate.candidateName} as ${newStatus}`;
       if (newStatus === 'Interview' && interviewDate) {
         meta += ` on ${interviewDate.toLocaleDateString()}`;
       }
@@ -409,27 +566,33 @@ function App() {
 
       const fullUpdatedApp = { ...appToUpdate, ...updates };
 
-      // SYNC: Global Storage (Demo Mode)
-      const globalApps: Application[] = JSON.parse(localStorage.getItem('carrerx_global_applications') || '[]');
-      const newGlobalApps = globalApps.map(gApp => gApp.id === id ? { ...gApp, ...updates } : gApp);
-      localStorage.setItem('carrerx_global_applications', JSON.stringify(newGlobalApps));
-
-      // SYNC: DB Update
-      // Use the original owner ID logic if we tracked it, otherwise assume global visibility handles it locally.
-      const originalOwnerId = applicationOwners[id] || user.id; // Fallback to current user if untracked, but global storage saves the day.
-
-      supabase.from('applications').upsert({
-        id: id,
-        // Try to preserve original ownership if possible, but for update we mostly care about the 'data' column
-        user_id: originalOwnerId,
-        data: fullUpdatedApp,
-        updated_at: new Date().toISOString()
-      }).then(({ error }) => {
-        if (error) console.warn("DB Update Error (Application):", error.message);
-      });
+      // SYNC: Global Storage (Demo Mode) + DB
+      // Ownership stays with the candidate; RLS lets the employer update rows for jobs they own.
+      repositories.applications.save(fullUpdatedApp);
+
+      if (wasHidden && isRevealingStatus(newStatus)) {
+        const reveal: RevealEvent = {
+          id: uuidv4(),
+          applicationId: appToUpdate.id,
+          jobId: appToUpdate.jobId,
+          employerId: user.id,
+          status: newStatus,
+          revealedAt: new Date().toISOString()
+        };
+        setRevealEvents(prev => [reveal, ...prev]);
+        addActivity("Identity Revealed", `${candidateAlias(appToUpdate)} is ${appToUpdate.candidateName}`);
+        repositories.screening.logReveal(reveal);
+      }
     }
   };
 
+  const handleBlindReviewChange = (enabled: boolean) => {
+    if (!user?.id) return;
+    setBlindReview(enabled);
+    addActivity("Settings Updated", `Blind review ${enabled ? 'enabled' : 'disabled'}`);
+    repositories.screening.setBlindReview(user.id, enabled);
+  };
+
   // Render Views
   if (viewState === 'landing') {
     return (
@@ -466,6 +629,10 @@ function App() {
         user={user!}
         onLogout={handleLogout}
         applications={applications}
+        syncState={syncState}
+        notifications={user?.role === 'candidate' ? notifications : undefined}
+        onOpenNotification={handleOpenNotification}
+        onMarkNotificationsRead={() => markNotificationsRead(notifications.map(n => n.id))}
       />
 
       <main className="flex-1 flex flex-col min-w-0 h-full relative">
@@ -494,10 +661,11 @@ function App() {
                 <Dashboard
                   user={user!}
                   setCurrentView={setCurrentView}
-                  resumeAnalysis={resumeAnalysis}
+                  resumeAnalysis={primaryAnalysis}
                   activities={activities}
-                  applications={applications}
+                  applications={screenedApplications}
                   jobs={jobs}
+                  savedResumes={savedResumes}
                   onPostJob={handlePostJobRequest}
                 />
               )}
@@ -507,22 +675,29 @@ function App() {
                   applications={applications}
                   jobs={jobs}
                   userEmail={user?.email || ''}
+                  practiceTargets={practiceTargets}
+                  onRemovePracticeTarget={handleRemovePracticeTarget}
                 />
               )}
 
               {currentView === AppView.INTERVIEW && (
                 <LiveInterview
-                  resumeAnalysis={resumeAnalysis}
+                  resumeAnalysis={primaryAnalysis}
                 />
               )}
 
               {currentView === AppView.RESUME && (
                 <ResumeAnalyzer
+                  userId={user?.id}
                   analysisResult={resumeAnalysis}
                   onAnalysisComplete={handleResumeAnalysisComplete}
                   onActivity={addActivity}
                   savedResumes={savedResumes}
                   onLoadResume={handleLoadSavedResume}
+                  onDeleteResume={handleDeleteResume}
+                  primaryResumeId={primaryResume?.id}
+                  onSetPrimaryResume={handleSetPrimaryResume}
+                  onRenameResume={handleRenameResume}
                 />
               )}
 
@@ -530,55 +705,73 @@ function App() {
 
               {currentView === AppView.JOBS && (
                 <Jobs
-                  resumeAnalysis={resumeAnalysis}
+                  resumeAnalysis={primaryAnalysis}
                   onActivity={addActivity}
                   jobs={jobs}
                   setJobs={setJobs}
                   onApply={handleApplyToJob}
                   appliedJobIds={new Set(applications.filter(a => a.candidateEmail === user?.email).map(a => a.jobId))}
+                  practiceJobIds={new Set(practiceTargets.map(t => t.job.id))}
                   userRole={user?.role}
                   applications={applications}
                   onPostJob={handlePostJob}
                   onUpdateJob={handleUpdateJob}
+                  onChangeJobStatus={handleChangeJobStatus}
                   postJobIntent={postJobIntent}
                   onClearPostJobIntent={() => setPostJobIntent(false)}
+                  focusedJobId={activeRoute.id}
+                  onFocusJob={id => navigate({ view: AppView.JOBS, id: id || undefined })}
+                  userId={user?.id}
+                  tailoredJobIds={new Set(savedResumes.filter(r => r.jobId).map(r => r.jobId!))}
+                  onSaveTailoredResume={handleSaveTailoredResume}
+                  savedSearches={user?.role === 'candidate' ? savedSearches : undefined}
+                  onSaveSearch={handleSaveSearch}
+                  onDeleteSearch={handleDeleteSearch}
                 />
               )}
 
               {currentView === AppView.APPLICANTS && (
                 <Applicants
-                  applications={applications}
+                  applications={screenedApplications}
                   jobs={jobs}
+                  blindReview={blindReview}
+                  revealEvents={revealEvents}
                   onUpdateStatus={handleUpdateApplicationStatus}
+                  selectedApplicationId={activeRoute.id}
+                  onSelectApplication={id => navigate({ view: AppView.APPLICANTS, id: id || undefined })}
                 />
               )}
 
               {currentView === AppView.SHORTLISTED && (
                 <Applicants
-                  applications={applications}
+                  applications={screenedApplications}
                   jobs={jobs}
+                  blindReview={blindReview}
+                  revealEvents={revealEvents}
                   onUpdateStatus={handleUpdateApplicationStatus}
                   showShortlistedOnly={true}
+                  selectedApplicationId={activeRoute.id}
+                  onSelectApplication={id => navigate({ view: AppView.SHORTLISTED, id: id || undefined })}
                 />
               )}
 
               {currentView === AppView.COVER_LETTER && (
                 <CoverLetter
-                  resumeAnalysis={resumeAnalysis}
+                  resumeAnalysis={primaryAnalysis}
                   onActivity={addActivity}
                 />
               )}
 
               {currentView === AppView.SKILLS && (
                 <SkillSuggestions
-                  resumeAnalysis={resumeAnalysis}
+                  resumeAnalysis={primaryAnalysis}
                   onActivity={addActivity}
                 />
               )}
 
               {currentView === AppView.CALENDAR && (
                 <CalendarView
-                  applications={applications}
+                  applications={screenedApplications}
                   user={user!}
                 />
               )}
@@ -587,6 +780,8 @@ function App() {
                 <Settings
                   user={user!}
                   onUpdateProfile={handleUpdateProfile}
+                  blindReview={blindReview}
+                  onBlindReviewChange={user?.role === 'employer' ? handleBlindReviewChange : undefined}
                 />
               )}
             </motion.div>
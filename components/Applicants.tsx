@@ -1,37 +1,46 @@
-import React, { useState, useEffect } from 'react';
-import { Users, Mail, CheckCircle, XCircle, Search, Filter, FileText, Download, Calendar, X, ThumbsDown, Bookmark, ExternalLink, Eye, ChevronLeft, ChevronRight, Clock, RefreshCw } from 'lucide-react';
-import { Application, Job } from '../types';
+import React, { useState } from 'react';
+import { Users, Mail, CheckCircle, XCircle, Search, Filter, FileText, Download, Calendar, X, ThumbsDown, Bookmark, ExternalLink, Eye, EyeOff, ChevronLeft, ChevronRight, Clock, RefreshCw } from 'lucide-react';
+import { Application, Job, RevealEvent } from '../types';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Card, Button, Badge, Input } from './ui/DesignSystem';
 import { containerVariants, itemVariants, cn } from '../lib/utils';
+import { describeProfile } from '../lib/resumeProfile';
+import { isRevealingStatus } from '../lib/redaction';
+import ResumeProfileView from './ResumeProfileView';
+import { downloadResumeFile, hasResumeFileContent } from '../services/resumeFiles';
 
 interface ApplicantsProps {
   applications: Application[];
   jobs: Job[];
   onUpdateStatus?: (id: string, status: Application['status'], interviewDate?: Date) => void;
   showShortlistedOnly?: boolean;
+  /** The application open in the review modal, taken from the URL so it can be shared. */
+  selectedApplicationId?: string;
+  onSelectApplication?: (id: string | null) => void;
+  /** Applications arrive already redacted; this only drives the notices. */
+  blindReview?: boolean;
+  revealEvents?: RevealEvent[];
 }
 
-const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateStatus, showShortlistedOnly = false }) => {
+const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateStatus, showShortlistedOnly = false, selectedApplicationId, onSelectApplication, blindReview = false, revealEvents = [] }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('All');
-  const [selectedApp, setSelectedApp] = useState<Application | null>(null);
   
   // Scheduling State
   const [showScheduleInput, setShowScheduleInput] = useState(false);
   const [scheduleDate, setScheduleDate] = useState('');
   const [scheduleTime, setScheduleTime] = useState('');
+  const [downloadError, setDownloadError] = useState<string | null>(null);
   
   // Calendar State
   const [currentMonth, setCurrentMonth] = useState(new Date());
 
-  // Keep selectedApp in sync with applications prop (so when link is generated, it shows up)
-  useEffect(() => {
-    if (selectedApp) {
-      const updated = applications.find(a => a.id === selectedApp.id);
-      if (updated) setSelectedApp(updated);
-    }
-  }, [applications]);
+  // Looked up from the prop so status changes and generated meeting links show up immediately
+  const selectedApp = applications.find(a => a.id === selectedApplicationId) || null;
+  const closeModal = () => onSelectApplication?.(null);
+
+  const revealOf = (app: Application) => revealEvents.find(e => e.applicationId === app.id);
+  const isHidden = (app: Application) => blindReview && !isRevealingStatus(app.status) && !revealOf(app);
 
   const filteredApplications = applications.filter(app => {
     // If showShortlistedOnly is true, ignore the dropdown filter (or force it) and only show shortlisted
@@ -61,10 +70,6 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
     if (onUpdateStatus) {
       onUpdateStatus(id, status);
     }
-    // Optimistic update (will be overwritten by useEffect above when prop changes)
-    if (selectedApp && selectedApp.id === id) {
-      setSelectedApp({ ...selectedApp, status });
-    }
   };
 
   const handleConfirmSchedule = () => {
@@ -102,30 +107,35 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
   };
 
   const openModal = (app: Application) => {
-     setSelectedApp(app);
+     onSelectApplication?.(app.id);
      setShowScheduleInput(false); // Reset schedule state on new open
      setScheduleDate('');
      setScheduleTime('');
      setCurrentMonth(new Date());
+     setDownloadError(null);
   };
 
-  const handleDownloadResume = () => {
+  const handleDownloadResume = async () => {
     if (!selectedApp) return;
-
-    if (selectedApp.resumeFile) {
-        const link = document.createElement("a");
-        link.href = `data:${selectedApp.resumeFile.type};base64,${selectedApp.resumeFile.data}`;
-        link.download = selectedApp.resumeFile.name;
-        document.body.appendChild(link); 
-        link.click();
-        document.body.removeChild(link);
+    setDownloadError(null);
+
+    if (selectedApp.resumeFile && hasResumeFileContent(selectedApp.resumeFile)) {
+        try {
+            // Signed on demand; storage policies only allow employers who own the job
+            await downloadResumeFile(selectedApp.resumeFile);
+        } catch (err) {
+            console.error("Resume download failed:", err);
+            setDownloadError("The original file is no longer available. The candidate may have deleted it.");
+        }
     } else {
-        // Fallback for mock applications that don't have a real file
+        // No original file: export the parsed profile when there is one, otherwise a stub
         const element = document.createElement("a");
-        const content = `Resume for ${selectedApp.candidateName}\n\nRole: ${selectedApp.jobTitle}\nEmail: ${selectedApp.candidateEmail}\n\n[This is a mock resume file generated because no real file was uploaded for this demo application.]`;
+        const content = selectedApp.resumeProfile
+          ? `${selectedApp.candidateName}\n${selectedApp.candidateEmail}\n\n${selectedApp.resumeSummary || ''}\n\n${describeProfile(selectedApp.resumeProfile)}`
+          : `Resume for ${selectedApp.candidateName}\n\nRole: ${selectedApp.jobTitle}\nEmail: ${selectedApp.candidateEmail}\n\n[This is a mock resume file generated because no real file was uploaded for this demo application.]`;
         const file = new Blob([content], {type: 'text/plain'});
         element.href = URL.createObjectURL(file);
-        element.download = `${selectedApp.candidateName.replace(/\s+/g, '_')}_MockResume.txt`;
+        element.download = `${selectedApp.candidateName.replace(/\s+/g, '_')}_${selectedApp.resumeProfile ? 'Resume' : 'MockResume'}.txt`;
         document.body.appendChild(element); 
         element.click();
         document.body.removeChild(element);
@@ -214,74 +224,43 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
               exit={{ opacity: 0, scale: 0.95 }}
               className="bg-white rounded-xl shadow-2xl w-full max-w-5xl h-[90vh] flex overflow-hidden"
             >
-              {/* Left: Resume Preview (Mock) */}
+              {/* Left: Resume Preview */}
               <div className="flex-1 bg-slate-100 border-r border-slate-200 p-8 overflow-y-auto hidden md:block custom-scrollbar">
-                 <div className="bg-white shadow-lg min-h-[800px] w-full max-w-[800px] mx-auto p-12 space-y-8 text-slate-800">
-                    <div className="border-b border-slate-200 pb-8 flex justify-between items-start">
-                       <div>
+                 {selectedApp.resumeProfile ? (
+                    <ResumeProfileView
+                       profile={selectedApp.resumeProfile}
+                       summary={selectedApp.resumeSummary}
+                       fallbackContact={{
+                          name: selectedApp.candidateName,
+                          email: selectedApp.candidateEmail,
+                          phone: selectedApp.candidatePhone,
+                          location: selectedApp.candidateAddress
+                       }}
+                    />
+                 ) : (
+                    <div className="bg-white shadow-lg w-full max-w-[800px] mx-auto p-12 space-y-6 text-slate-800">
+                       <div className="border-b border-slate-200 pb-8">
                           <h1 className="text-3xl font-bold uppercase tracking-wide text-slate-900">{selectedApp.candidateName}</h1>
-                          <p className="text-slate-500 mt-2 font-medium">Senior Software Engineer</p>
-                       </div>
-                       <div className="text-right text-sm text-slate-500 space-y-1">
-                          <p>{selectedApp.candidateEmail}</p>
-                          <p>{selectedApp.candidatePhone || "+1 (555) 123-4567"}</p>
-                          <p>{selectedApp.candidateAddress || "San Francisco, CA"}</p>
-                       </div>
-                    </div>
-                    
-                    <div className="space-y-4">
-                       <h3 className="text-sm font-bold uppercase tracking-wider text-slate-400 border-b border-slate-100 pb-2">Summary</h3>
-                       <p className="text-sm leading-relaxed text-slate-600">
-                         Results-oriented professional with 5+ years of experience in full-stack development. 
-                         Proven track record of delivering high-quality software solutions and driving team success. 
-                         Passionate about leveraging technology to solve complex business problems.
-                       </p>
-                    </div>
-
-                    <div className="space-y-4">
-                       <h3 className="text-sm font-bold uppercase tracking-wider text-slate-400 border-b border-slate-100 pb-2">Experience</h3>
-                       <div className="space-y-4">
-                          <div>
-                             <div className="flex justify-between items-baseline">
-                                <h4 className="font-bold text-slate-900">Tech Solutions Inc.</h4>
-                                <span className="text-xs text-slate-400">2021 - Present</span>
-                             </div>
-                             <p className="text-xs font-semibold text-slate-600 mb-2">Senior Developer</p>
-                             <ul className="list-disc list-inside text-sm text-slate-600 space-y-1">
-                                <li>Led a team of 5 developers to rebuild the core payment infrastructure.</li>
-                                <li>Reduced latency by 40% through code optimization and caching strategies.</li>
-                             </ul>
-                          </div>
-                          <div>
-                             <div className="flex justify-between items-baseline">
-                                <h4 className="font-bold text-slate-900">StartUp Lab</h4>
-                                <span className="text-xs text-slate-400">2018 - 2021</span>
-                             </div>
-                             <p className="text-xs font-semibold text-slate-600 mb-2">Frontend Engineer</p>
-                             <ul className="list-disc list-inside text-sm text-slate-600 space-y-1">
-                                <li>Implemented responsive designs using React and TypeScript.</li>
-                                <li>Collaborated with UX designers to improve user engagement metrics.</li>
-                             </ul>
-                          </div>
+                          {selectedApp.candidateEmail && <p className="text-sm text-slate-500 mt-2">{selectedApp.candidateEmail}</p>}
                        </div>
-                    </div>
-
-                    <div className="space-y-4">
-                       <h3 className="text-sm font-bold uppercase tracking-wider text-slate-400 border-b border-slate-100 pb-2">Skills</h3>
-                       <div className="flex flex-wrap gap-2">
-                          {["React", "TypeScript", "Node.js", "AWS", "GraphQL", "Docker", "System Design"].map(s => (
-                             <span key={s} className="bg-slate-100 px-2 py-1 rounded text-xs text-slate-600 font-medium">{s}</span>
-                          ))}
+                       {selectedApp.resumeSummary && (
+                          <p className="text-sm leading-relaxed text-slate-600">{selectedApp.resumeSummary}</p>
+                       )}
+                       <div className="flex items-start gap-3 p-4 rounded-lg bg-slate-50 border border-slate-200 text-sm text-slate-500">
+                          <FileText className="w-5 h-5 flex-none text-slate-400" />
+                          <p>{isHidden(selectedApp)
+                             ? 'No parsed resume is attached to this application. The original file becomes available once you shortlist the candidate.'
+                             : 'No parsed resume is attached to this application. Download the original file to review it.'}</p>
                        </div>
                     </div>
-                 </div>
+                 )}
               </div>
 
               {/* Right: Controls & Info */}
               <div className="w-full md:w-[450px] bg-white flex flex-col z-10 shadow-xl">
                  <div className="p-4 border-b border-slate-100 flex items-center justify-between">
                     <h3 className="font-bold text-slate-900">Application Review</h3>
-                    <button onClick={() => setSelectedApp(null)} className="p-2 hover:bg-slate-100 rounded-full text-slate-500">
+                    <button onClick={closeModal} className="p-2 hover:bg-slate-100 rounded-full text-slate-500">
                        <X className="w-5 h-5" />
                     </button>
                  </div>
@@ -300,7 +279,7 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
                           </svg>
                           <span className="absolute text-xl font-bold text-slate-900">{selectedApp.matchScore}%</span>
                        </div>
-                       <p className="text-sm font-medium text-slate-500">AI Match Score</p>
+                       <p className="text-sm font-medium text-slate-500">{selectedApp.matchSource === 'keywords' ? 'Keyword Match Score' : 'AI Match Score'}</p>
                     </div>
 
                     <div className="space-y-4">
@@ -491,10 +470,10 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
                              </div>
                              <div>
                                 <p className="text-sm font-semibold text-slate-900 group-hover:text-purple-700">
-                                    {selectedApp.resumeFile ? selectedApp.resumeFile.name : "Resume.pdf"}
+                                    {isHidden(selectedApp) ? "Redacted resume" : selectedApp.resumeFile ? selectedApp.resumeFile.name : "Resume.pdf"}
                                 </p>
                                 <p className="text-xs text-slate-500">
-                                    {selectedApp.resumeFile 
+                                    {isHidden(selectedApp) ? "Text only • original file available after shortlisting" : selectedApp.resumeFile 
                                         ? `${selectedApp.resumeFile.type.split('/')[1]?.toUpperCase() || 'FILE'} • ${(selectedApp.resumeFile.size / 1024 / 1024).toFixed(2)} MB` 
                                         : "PDF • 1.2 MB"}
                                 </p>
@@ -502,8 +481,22 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
                           </div>
                           <Download className="w-4 h-4 text-slate-400 group-hover:text-purple-600" />
                        </button>
+                       {downloadError && <p className="text-xs text-red-600">{downloadError}</p>}
                     </div>
 
+                    {isHidden(selectedApp) && (
+                       <div className="flex items-start gap-3 p-4 rounded-lg bg-emerald-50 border border-emerald-100 text-sm text-emerald-800">
+                          <EyeOff className="w-5 h-5 flex-none" />
+                          <p>Blind review is on. Name, contact details, photos, graduation years and pronouns stay hidden until you shortlist or interview this candidate.</p>
+                       </div>
+                    )}
+                    {blindReview && revealOf(selectedApp) && (
+                       <p className="text-xs text-slate-500 flex items-center gap-1.5">
+                          <Eye className="w-3.5 h-3.5" />
+                          Identity revealed {new Date(revealOf(selectedApp)!.revealedAt).toLocaleDateString()} when moved to {revealOf(selectedApp)!.status}
+                       </p>
+                    )}
+
                     <div className="space-y-3">
                        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Application Details</h4>
                        <div className="bg-slate-50 p-4 rounded-lg space-y-3 text-sm">
@@ -517,7 +510,7 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
                           </div>
                           <div className="flex justify-between">
                              <span className="text-slate-500">Email</span>
-                             <span className="font-medium text-slate-900">{selectedApp.candidateEmail}</span>
+                             <span className="font-medium text-slate-900">{isHidden(selectedApp) ? 'Hidden' : selectedApp.candidateEmail}</span>
                           </div>
                        </div>
                     </div>
@@ -525,7 +518,7 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
                  
                  <div className="p-4 border-t border-slate-200 bg-slate-50">
                     <Button 
-                        onClick={() => setSelectedApp(null)} 
+                        onClick={closeModal} 
                         className="w-full bg-slate-900 hover:bg-slate-800 transition-colors"
                     >
                        <CheckCircle className="w-4 h-4 mr-2" /> Done
@@ -558,6 +551,13 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
         </div>
       </div>
 
+      {blindReview && (
+        <div className="flex items-center gap-3 p-4 rounded-xl bg-emerald-50 border border-emerald-100 text-sm text-emerald-800">
+          <EyeOff className="w-5 h-5 flex-none" />
+          <p>Blind review is on. Candidate identities are hidden until you move them to Shortlisted or Interview; each reveal is logged.</p>
+        </div>
+      )}
+
       <Card className="p-0 overflow-hidden">
         {/* Toolbar */}
         <div className="p-4 border-b border-slate-100 flex flex-col md:flex-row gap-4 bg-slate-50/50">
@@ -619,13 +619,19 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
                  {/* Candidate Info */}
                  <div className="col-span-1 md:col-span-3 flex items-center gap-3">
                     <div className="w-10 h-10 rounded-full bg-slate-200 flex items-center justify-center text-slate-500 font-bold capitalize">
-                       {app.candidateName.charAt(0)}
+                       {isHidden(app) ? <EyeOff className="w-4 h-4" /> : app.candidateName.charAt(0)}
                     </div>
                     <div>
                        <h4 className="font-semibold text-slate-900">{app.candidateName}</h4>
-                       <p className="text-xs text-slate-500 flex items-center gap-1">
-                          <Mail className="w-3 h-3" /> {app.candidateEmail}
-                       </p>
+                       {isHidden(app) ? (
+                          <p className="text-xs text-slate-500 flex items-center gap-1">
+                             <EyeOff className="w-3 h-3" /> Identity hidden
+                          </p>
+                       ) : (
+                          <p className="text-xs text-slate-500 flex items-center gap-1">
+                             <Mail className="w-3 h-3" /> {app.candidateEmail}
+                          </p>
+                       )}
                     </div>
                  </div>
 
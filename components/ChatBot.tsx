@@ -1,11 +1,14 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { MessageSquare, X, Send, Loader2, Sparkles, Bot, User } from 'lucide-react';
+import { MessageSquare, X, Send, Sparkles, Bot, User, Square } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button, Input, Card } from './ui/DesignSystem';
 import { ChatMessage } from '../types';
-import { sendChatMessage } from '../services/gemini';
+import { streamChatMessage } from '../services/gemini';
+import { AiError, isCancelled, toAiError } from '../services/aiErrors';
+import { AiErrorNotice } from './ui/AiErrorNotice';
 import ReactMarkdown from 'react-markdown';
 import { cn } from '../lib/utils';
+import { useStoppableRequest } from '../lib/useAbortOnUnmount';
 
 interface ChatBotProps {
   currentView: string;
@@ -23,6 +26,8 @@ const ChatBot: React.FC<ChatBotProps> = ({ currentView }) => {
   ]);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [error, setError] = useState<AiError | null>(null);
+  const { start, stop } = useStoppableRequest();
   const scrollRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll to bottom
@@ -34,7 +39,7 @@ const ChatBot: React.FC<ChatBotProps> = ({ currentView }) => {
 
   const handleSend = async (e?: React.FormEvent) => {
     e?.preventDefault();
-    if (!input.trim()) return;
+    if (!input.trim() || isTyping) return;
 
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
@@ -46,28 +51,42 @@ const ChatBot: React.FC<ChatBotProps> = ({ currentView }) => {
     setMessages(prev => [...prev, userMsg]);
     setInput('');
     setIsTyping(true);
+    setError(null);
+
+    const signal = start();
+    const botId = (Date.now() + 1).toString();
+    // Creates the bot bubble on the first chunk and grows it with every chunk after that
+    const showReply = (text: string) => setMessages(prev =>
+      prev.some(m => m.id === botId)
+        ? prev.map(m => m.id === botId ? { ...m, text } : m)
+        : [...prev, { id: botId, role: 'model', text, timestamp: Date.now() }]
+    );
 
     try {
       // Get response from Gemini
       // Filter out the initial welcome message from history sent to API to avoid confusion if needed, 
       // though typically it's fine.
-      const responseText = await sendChatMessage(messages, userMsg.text, currentView);
-      
-      const botMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        text: responseText,
-        timestamp: Date.now()
-      };
-      
-      setMessages(prev => [...prev, botMsg]);
-    } catch (error) {
-      console.error(error);
+      let responseText = '';
+      for await (const delta of streamChatMessage(messages, userMsg.text, currentView, { signal })) {
+        responseText += delta;
+        showReply(responseText);
+      }
+      if (!responseText) showReply("I'm sorry, I didn't catch that.");
+    } catch (err) {
+      if (isCancelled(err)) return;
+      setError(toAiError(err));
     } finally {
-      setIsTyping(false);
+      if (!signal.aborted) setIsTyping(false);
     }
   };
 
+  const handleStop = () => {
+    stop();
+    setIsTyping(false);
+  };
+
+  const awaitingFirstChunk = isTyping && messages[messages.length - 1]?.role === 'user';
+
   return (
     <div className="fixed bottom-6 right-6 z-50 flex flex-col items-end pointer-events-none">
       <div className="pointer-events-auto">
@@ -137,7 +156,7 @@ const ChatBot: React.FC<ChatBotProps> = ({ currentView }) => {
                   </div>
                 ))}
                 
-                {isTyping && (
+                {awaitingFirstChunk && (
                   <div className="flex gap-3 max-w-[85%]">
                      <div className="w-8 h-8 rounded-full bg-brand-100 text-brand-700 flex items-center justify-center flex-none shadow-sm">
                         <Bot className="w-5 h-5" />
@@ -149,6 +168,8 @@ const ChatBot: React.FC<ChatBotProps> = ({ currentView }) => {
                      </div>
                   </div>
                 )}
+
+                <AiErrorNotice error={error} className="text-xs" />
               </div>
 
               {/* Input */}
@@ -160,14 +181,27 @@ const ChatBot: React.FC<ChatBotProps> = ({ currentView }) => {
                     placeholder="Ask about CarrerX..."
                     className="pr-12 py-3 rounded-full bg-slate-50 border-slate-200 focus:bg-white transition-all"
                   />
-                  <Button 
-                    type="submit" 
-                    size="sm"
-                    disabled={!input.trim() || isTyping}
-                    className="absolute right-1 top-1 bottom-1 w-9 h-9 rounded-full p-0 flex items-center justify-center"
-                  >
-                    {isTyping ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
-                  </Button>
+                  {isTyping ? (
+                    <Button 
+                      type="button" 
+                      size="sm"
+                      variant="secondary"
+                      onClick={handleStop}
+                      title="Stop generating"
+                      className="absolute right-1 top-1 bottom-1 w-9 h-9 rounded-full p-0 flex items-center justify-center"
+                    >
+                      <Square className="w-3.5 h-3.5 fill-current" />
+                    </Button>
+                  ) : (
+                    <Button 
+                      type="submit" 
+                      size="sm"
+                      disabled={!input.trim()}
+                      className="absolute right-1 top-1 bottom-1 w-9 h-9 rounded-full p-0 flex items-center justify-center"
+                    >
+                      <Send className="w-4 h-4" />
+                    </Button>
+                  )}
                 </form>
               </div>
             </motion.div>
@@ -1,8 +1,11 @@
 import React, { useState } from 'react';
-import { Mail, Loader2, Copy, Check, FileText, ArrowRight } from 'lucide-react';
+import { Mail, Loader2, Copy, Check, FileText, ArrowRight, Square } from 'lucide-react';
 import { ResumeAnalysis } from '../types';
-import { generateCoverLetter } from '../services/gemini';
+import { streamCoverLetter } from '../services/gemini';
+import { AiError, isCancelled, toAiError } from '../services/aiErrors';
 import { Card, Button, Textarea } from './ui/DesignSystem';
+import { AiErrorNotice } from './ui/AiErrorNotice';
+import { useStoppableRequest } from '../lib/useAbortOnUnmount';
 
 interface CoverLetterProps {
   resumeAnalysis: ResumeAnalysis | null;
@@ -14,22 +17,37 @@ const CoverLetter: React.FC<CoverLetterProps> = ({ resumeAnalysis, onActivity })
   const [generatedLetter, setGeneratedLetter] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<AiError | null>(null);
+  const { start, stop } = useStoppableRequest();
 
   const handleGenerate = async () => {
     if (!resumeAnalysis || !jobDescription.trim()) return;
     
+    const signal = start();
     setIsGenerating(true);
+    setError(null);
+    setGeneratedLetter('');
     try {
-      const letter = await generateCoverLetter(resumeAnalysis.summary, jobDescription);
-      setGeneratedLetter(letter);
+      let letter = '';
+      for await (const delta of streamCoverLetter(resumeAnalysis, jobDescription, { signal })) {
+        letter += delta;
+        setGeneratedLetter(letter);
+      }
       onActivity("Cover Letter", "Generated letter for new role");
-    } catch (error) {
-      console.error(error);
+    } catch (err) {
+      if (isCancelled(err)) return;
+      setError(toAiError(err));
     } finally {
-      setIsGenerating(false);
+      if (!signal.aborted) setIsGenerating(false);
     }
   };
 
+  // Keeps whatever was written so far
+  const handleStop = () => {
+    stop();
+    setIsGenerating(false);
+  };
+
   const copyToClipboard = () => {
     navigator.clipboard.writeText(generatedLetter);
     setCopied(true);
@@ -69,22 +87,28 @@ const CoverLetter: React.FC<CoverLetterProps> = ({ resumeAnalysis, onActivity })
            />
         </Card>
 
-        <Button
-          onClick={handleGenerate}
-          disabled={isGenerating || !jobDescription.trim()}
-          size="lg"
-          className="w-full shadow-lg shadow-brand-600/20"
-        >
-          {isGenerating ? (
-            <>
-              <Loader2 className="w-5 h-5 animate-spin mr-2" /> Writing your letter...
-            </>
-          ) : (
-            <>
-              Generate Letter <ArrowRight className="w-5 h-5 ml-2" />
-            </>
-          )}
-        </Button>
+        <AiErrorNotice error={error} onRetry={handleGenerate} />
+
+        {isGenerating ? (
+          <Button
+            onClick={handleStop}
+            variant="outline"
+            size="lg"
+            className="w-full"
+          >
+            <Loader2 className="w-5 h-5 animate-spin mr-2" /> Writing your letter...
+            <span className="ml-3 inline-flex items-center text-slate-500"><Square className="w-4 h-4 mr-1 fill-current" /> Stop</span>
+          </Button>
+        ) : (
+          <Button
+            onClick={handleGenerate}
+            disabled={!jobDescription.trim()}
+            size="lg"
+            className="w-full shadow-lg shadow-brand-600/20"
+          >
+            Generate Letter <ArrowRight className="w-5 h-5 ml-2" />
+          </Button>
+        )}
       </div>
 
       {/* Output Side */}
@@ -98,7 +122,7 @@ const CoverLetter: React.FC<CoverLetterProps> = ({ resumeAnalysis, onActivity })
             variant="ghost" 
             size="sm"
             onClick={copyToClipboard}
-            disabled={!generatedLetter}
+            disabled={!generatedLetter || isGenerating}
             className={copied ? "text-emerald-600 bg-emerald-50" : ""}
           >
             {copied ? <><Check className="w-4 h-4 mr-2" /> Copied</> : <><Copy className="w-4 h-4 mr-2" /> Copy Text</>}
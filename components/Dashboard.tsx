@@ -1,21 +1,25 @@
 import React from 'react';
 import { Mic, FileText, Briefcase, Mail, Clock, Star, Zap, Activity, ChevronRight, Plus, Crown, Users, TrendingUp, Search, UserCheck, Calendar } from 'lucide-react';
-import { AppView, ResumeAnalysis, ActivityLog, UserRole, Application, Job } from '../types';
+import { AppView, ResumeAnalysis, ActivityLog, UserRole, Application, Job, SavedResume } from '../types';
 import { motion } from 'framer-motion';
 import { Card, Button, Badge } from './ui/DesignSystem';
 import { containerVariants, itemVariants, cn } from '../lib/utils';
+import { scoreHistory } from '../lib/resumeDiff';
+import { isOwnJob } from '../lib/jobLifecycle';
+import ScoreTrendChart from './ScoreTrendChart';
 
 interface DashboardProps {
-  user: { name: string; email: string; role?: UserRole };
+  user: { id?: string; name: string; email: string; role?: UserRole };
   setCurrentView: (view: AppView) => void;
   resumeAnalysis: ResumeAnalysis | null;
   activities: ActivityLog[];
   applications?: Application[];
   jobs?: Job[];
+  savedResumes?: SavedResume[];
   onPostJob?: () => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ user, setCurrentView, resumeAnalysis, activities, applications = [], jobs = [], onPostJob }) => {
+const Dashboard: React.FC<DashboardProps> = ({ user, setCurrentView, resumeAnalysis, activities, applications = [], jobs = [], savedResumes = [], onPostJob }) => {
   const getGreeting = () => {
     const hour = new Date().getHours();
     if (hour < 12) return 'Good morning';
@@ -28,6 +32,8 @@ const Dashboard: React.FC<DashboardProps> = ({ user, setCurrentView, resumeAnaly
   // --- EMPLOYER DASHBOARD ---
   if (isEmployer) {
     const newApplicantsCount = applications.filter(a => a.status === 'New').length;
+    // The jobs list also holds other employers' postings and cached AI matches
+    const activeJobs = jobs.filter(job => isOwnJob(job, user.id) && job.status === 'published').length;
     const avgMatchScore = applications.length > 0
       ? Math.round(applications.reduce((acc, curr) => acc + curr.matchScore, 0) / applications.length)
       : 0;
@@ -66,9 +72,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user, setCurrentView, resumeAnaly
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
           <StatCard
             title="Active Jobs"
-            value={jobs.length.toString()}
+            value={activeJobs.toString()}
             icon={<Briefcase className="w-5 h-5 text-purple-600" />}
-            desc={jobs.length > 0 ? "Open positions" : "No active jobs"}
+            desc={activeJobs > 0 ? "Open positions" : "No active jobs"}
             variant="purple"
           />
           <StatCard
@@ -176,6 +182,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user, setCurrentView, resumeAnaly
   const jobsAnalyzed = activities.filter(a => a.type === 'job_match').length;
   const interviewSessions = activities.filter(a => a.type === 'interview').length;
   const myApplications = applications.filter(a => a.candidateEmail === user.email);
+  const scores = scoreHistory(savedResumes);
+  // Change between the two most recent versions, i.e. whether the last edit helped
+  const lastScoreChange = scores.length >= 2 ? scores[scores.length - 1].score - scores[scores.length - 2].score : undefined;
 
   return (
     <motion.div
@@ -213,6 +222,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, setCurrentView, resumeAnaly
           icon={<Activity className="w-5 h-5 text-emerald-600" />}
           desc="Based on ATS standards"
           variant="success"
+          trend={lastScoreChange}
         />
         <StatCard
           title="Jobs Matched"
@@ -299,6 +309,28 @@ const Dashboard: React.FC<DashboardProps> = ({ user, setCurrentView, resumeAnaly
             </Card>
           </section>
 
+          {/* Score Trend */}
+          {scores.length > 0 && (
+            <section>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-bold text-slate-900 font-display">Resume Score Trend</h3>
+                <Button variant="ghost" size="sm" className="text-brand-600" onClick={() => setCurrentView(AppView.RESUME)}>
+                  Compare Versions
+                </Button>
+              </div>
+              <Card className="p-5">
+                {scores.length === 1 ? (
+                  <p className="text-sm text-slate-500 mb-2">Upload a revised resume to start tracking how your edits change the score.</p>
+                ) : (
+                  <p className="text-sm text-slate-500 mb-2">
+                    {scores.length} versions, from {scores[0].score} to <span className="font-semibold text-slate-900">{scores[scores.length - 1].score}</span>.
+                  </p>
+                )}
+                <ScoreTrendChart points={scores} />
+              </Card>
+            </section>
+          )}
+
           {/* Quick Actions */}
           <section>
             <div className="flex items-center justify-between mb-4">
@@ -408,7 +440,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, setCurrentView, resumeAnaly
   );
 };
 
-const StatCard = ({ title, value, suffix, icon, desc, variant }: any) => {
+const StatCard = ({ title, value, suffix, icon, desc, variant, trend }: any) => {
   return (
     <motion.div {...({ variants: itemVariants } as any)}>
       <Card className="p-5 hover:shadow-md transition-all duration-300 border-l-4 border-l-transparent hover:border-l-brand-500">
@@ -416,7 +448,14 @@ const StatCard = ({ title, value, suffix, icon, desc, variant }: any) => {
           <div className="p-2.5 rounded-lg bg-slate-50 border border-slate-100 text-slate-600">
             {icon}
           </div>
-          {variant === 'success' && <div className="text-xs font-medium text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded-full">+12%</div>}
+          {typeof trend === 'number' && (
+            <div className={cn(
+              "text-xs font-medium px-2 py-0.5 rounded-full",
+              trend > 0 ? "text-emerald-600 bg-emerald-50" : trend < 0 ? "text-red-600 bg-red-50" : "text-slate-500 bg-slate-100"
+            )} title="Change since your previous resume">
+              {trend > 0 ? `+${trend}` : trend}
+            </div>
+          )}
         </div>
         <div>
           <div className="flex items-baseline gap-1">
@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
+import { Job, JobSkill, JobStatus, RemotePolicy, SalaryRange, SeniorityLevel } from '../types';
+import { CURRENCIES, REMOTE_POLICIES, SENIORITY_LEVELS, formatSalary, jobSkill } from '../lib/jobPosting';
+import { SKILL_VOCABULARY } from '../lib/skills';
+import { Button, Badge, Input, Textarea } from './ui/DesignSystem';
+import { cn } from '../lib/utils';
+
+/** What the employer fills in; the rest of the job (id, owner, posting date) is kept or assigned by the caller. */
+export type JobPostingFields = Pick<Job,
+  'title' | 'company' | 'location' | 'salary' | 'salaryRange' | 'seniority' | 'remotePolicy' |
+  'type' | 'description' | 'requirements' | 'skills' | 'deadline'>;
+
+interface JobPostingFormProps {
+  /** The job being edited; a new posting starts empty. */
+  job?: Job;
+  /** `status` is set when the employer chose to save as a draft or publish; otherwise it's unchanged. */
+  onSubmit: (fields: JobPostingFields, status?: JobStatus) => void;
+  onClose: () => void;
+}
+
+const JOB_TYPES = ['Full-time', 'Part-time', 'Contract', 'Internship'];
+
+const selectClassName = "flex h-11 w-full rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm focus:ring-2 focus:ring-brand-500/20 outline-none";
+
+const parseAmount = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+const JobPostingForm: React.FC<JobPostingFormProps> = ({ job, onSubmit, onClose }) => {
+  const [title, setTitle] = useState(job?.title || '');
+  const [company, setCompany] = useState(job?.company || '');
+  const [location, setLocation] = useState(job?.location || '');
+  const [remotePolicy, setRemotePolicy] = useState<RemotePolicy>(job?.remotePolicy || 'Onsite');
+  // "Remote" used to be a job type; it's the remote policy now
+  const [type, setType] = useState(job && JOB_TYPES.includes(job.type) ? job.type : 'Full-time');
+  const [seniority, setSeniority] = useState<SeniorityLevel | ''>(job?.seniority || '');
+  const [salaryMin, setSalaryMin] = useState(job?.salaryRange?.min?.toString() ?? '');
+  const [salaryMax, setSalaryMax] = useState(job?.salaryRange?.max?.toString() ?? '');
+  const [currency, setCurrency] = useState(job?.salaryRange?.currency || 'USD');
+  const [period, setPeriod] = useState<SalaryRange['period']>(job?.salaryRange?.period || 'year');
+  const [deadline, setDeadline] = useState(job?.deadline || '');
+  const [description, setDescription] = useState(job?.description || '');
+  const [requirements, setRequirements] = useState<string[]>(job?.requirements || []);
+  const [skills, setSkills] = useState<JobSkill[]>(job?.skills || []);
+  const [reqInput, setReqInput] = useState('');
+  const [skillInput, setSkillInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  const handleAddRequirement = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && reqInput.trim()) {
+      e.preventDefault();
+      setRequirements(prev => [...prev, reqInput.trim()]);
+      setReqInput('');
+    }
+  };
+
+  const handleAddSkill = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && skillInput.trim()) {
+      e.preventDefault();
+      const skill = jobSkill(skillInput, true);
+      // "JS" and "JavaScript" are the same skill
+      setSkills(prev => prev.some(s => s.key === skill.key) ? prev : [...prev, skill]);
+      setSkillInput('');
+    }
+  };
+
+  const toggleRequired = (key: string) =>
+    setSkills(prev => prev.map(s => s.key === key ? { ...s, required: !s.required } : s));
+
+  const removeSkill = (key: string) => setSkills(prev => prev.filter(s => s.key !== key));
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    // Which button submitted the form: "Save Draft" or "Publish" carry the status as their value
+    const submitter = (e.nativeEvent as SubmitEvent).submitter as HTMLButtonElement | null;
+    const status = (submitter?.value || undefined) as JobStatus | undefined;
+    const min = parseAmount(salaryMin);
+    const max = parseAmount(salaryMax);
+    if (min !== undefined && max !== undefined && min > max) {
+      setError("The minimum salary can't be higher than the maximum.");
+      return;
+    }
+    const salaryRange: SalaryRange | undefined = min === undefined && max === undefined ? undefined : { min, max, currency, period };
+
+    onSubmit({
+      title: title.trim(),
+      company: company.trim(),
+      location: location.trim() || 'Remote',
+      salary: formatSalary(salaryRange),
+      salaryRange,
+      seniority: seniority || undefined,
+      remotePolicy,
+      type,
+      description,
+      requirements,
+      skills,
+      deadline: deadline || undefined
+    }, status);
+  };
+
+  const renderSkills = (required: boolean) => {
+    const group = skills.filter(s => s.required === required);
+    if (group.length === 0) return null;
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-semibold uppercase tracking-wide text-slate-500 w-24">{required ? 'Required' : 'Nice to have'}</span>
+        {group.map(skill => (
+          <Badge key={skill.key} variant={required ? 'brand' : 'neutral'} className="flex items-center gap-1 pr-1">
+            <button type="button" onClick={() => toggleRequired(skill.key)} title={required ? 'Mark as nice to have' : 'Mark as required'}>{skill.name}</button>
+            <button type="button" onClick={() => removeSkill(skill.key)} className="hover:text-red-600"><X className="w-3 h-3" /></button>
+          </Badge>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+      >
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between sticky top-0 bg-white z-10">
+          <h2 className="text-xl font-bold text-slate-900">{job ? 'Edit Job' : 'Post New Job'}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X className="w-6 h-6" /></button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-semibold text-slate-700">Job Title</label>
+              <Input required value={title} onChange={e => setTitle(e.target.value)} placeholder="e.g. Senior Product Manager" />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-semibold text-slate-700">Company</label>
+              <Input required value={company} onChange={e => setCompany(e.target.value)} placeholder="Company Name" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-semibold text-slate-700">Location</label>
+              <Input
+                required={remotePolicy !== 'Remote'}
+                value={location}
+                onChange={e => setLocation(e.target.value)}
+                placeholder={remotePolicy === 'Remote' ? 'Remote' : 'e.g. New York, NY'}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-semibold text-slate-700">Workplace</label>
+              <select className={selectClassName} value={remotePolicy} onChange={e => setRemotePolicy(e.target.value as RemotePolicy)}>
+                {REMOTE_POLICIES.map(policy => <option key={policy}>{policy}</option>)}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-semibold text-slate-700">Type</label>
+              <select className={selectClassName} value={type} onChange={e => setType(e.target.value)}>
+                {JOB_TYPES.map(jobType => <option key={jobType}>{jobType}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-semibold text-slate-700">Seniority</label>
+              <select className={selectClassName} value={seniority} onChange={e => setSeniority(e.target.value as SeniorityLevel | '')}>
+                <option value="">Not specified</option>
+                {SENIORITY_LEVELS.map(level => <option key={level}>{level}</option>)}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-semibold text-slate-700">Apply By</label>
+              <Input type="date" min={today} value={deadline} onChange={e => setDeadline(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-slate-700">Salary Range</label>
+            <div className="grid grid-cols-4 gap-4">
+              <Input type="number" min={0} value={salaryMin} onChange={e => { setSalaryMin(e.target.value); setError(null); }} placeholder="Min" />
+              <Input type="number" min={0} value={salaryMax} onChange={e => { setSalaryMax(e.target.value); setError(null); }} placeholder="Max" />
+              <select className={selectClassName} value={currency} onChange={e => setCurrency(e.target.value)}>
+                {CURRENCIES.map(code => <option key={code}>{code}</option>)}
+              </select>
+              <select className={selectClassName} value={period} onChange={e => setPeriod(e.target.value as SalaryRange['period'])}>
+                <option value="year">Per year</option>
+                <option value="hour">Per hour</option>
+              </select>
+            </div>
+            <p className={cn("text-xs", error ? "text-red-600" : "text-slate-500")}>
+              {error || `Shown as ${formatSalary(salaryMin || salaryMax ? { min: parseAmount(salaryMin), max: parseAmount(salaryMax), currency, period } : undefined)}`}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-slate-700">Description</label>
+            <Textarea required value={description} onChange={e => setDescription(e.target.value)} placeholder="Describe the role responsibilities and culture..." className="min-h-[120px]" />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-slate-700">Skills (Press Enter to add, click a skill to mark it nice to have)</label>
+            <Input
+              value={skillInput}
+              onChange={e => setSkillInput(e.target.value)}
+              onKeyDown={handleAddSkill}
+              list="job-skill-vocabulary"
+              placeholder="e.g. React"
+            />
+            <datalist id="job-skill-vocabulary">
+              {SKILL_VOCABULARY.map(skill => <option key={skill} value={skill} />)}
+            </datalist>
+            <div className="space-y-2 mt-2">
+              {renderSkills(true)}
+              {renderSkills(false)}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-slate-700">Requirements (Press Enter to add)</label>
+            <Input
+              value={reqInput}
+              onChange={e => setReqInput(e.target.value)}
+              onKeyDown={handleAddRequirement}
+              placeholder="e.g. 3+ years building production APIs"
+            />
+            <div className="flex flex-wrap gap-2 mt-2">
+              {requirements.map((req, i) => (
+                <Badge key={i} variant="neutral" className="flex items-center gap-1 pr-1">
+                  {req} <button type="button" onClick={() => setRequirements(prev => prev.filter((_, idx) => idx !== i))} className="hover:text-red-600"><X className="w-3 h-3" /></button>
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          <div className="pt-4 flex justify-end gap-3">
+            <Button type="button" variant="ghost" onClick={onClose}>Cancel</Button>
+            {!job || job.status === 'draft' ? (
+              <>
+                <Button type="submit" variant="outline" value={job ? '' : 'draft'}>Save Draft</Button>
+                <Button type="submit" variant="primary" value="published" className="bg-purple-600 hover:bg-purple-700">Publish Listing</Button>
+              </>
+            ) : (
+              <Button type="submit" variant="primary" className="bg-purple-600 hover:bg-purple-700">Update Listing</Button>
+            )}
+          </div>
+        </form>
+      </motion.div>
+    </div>
+  );
+};
+
+export default JobPostingForm;
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { Search, SlidersHorizontal, Bookmark, Bell, BellOff, X } from 'lucide-react';
+import { JobAlert, JobSearchQuery, JobSort, SalaryBand, SavedSearch } from '../types';
+import { FacetCount, JobFacets, describeJobSearch, isFilteredSearch, salaryBandLabel } from '../lib/jobSearch';
+import { Button, Input } from './ui/DesignSystem';
+import { isAlertOn } from '../lib/jobAlerts';
+import { cn } from '../lib/utils';
+
+interface JobSearchPanelProps {
+  query: JobSearchQuery;
+  onChange: (query: JobSearchQuery) => void;
+  facets: JobFacets;
+  resultCount: number;
+  /** Best-fit ranking needs the candidate's resume skills. */
+  canRankByFit: boolean;
+  /** Omitted when saved searches aren't available (employers, signed out). */
+  savedSearches?: SavedSearch[];
+  onSaveSearch?: (name: string, alert?: JobAlert) => void;
+  onToggleAlert?: (search: SavedSearch) => void;
+  onDeleteSearch?: (search: SavedSearch) => void;
+}
+
+type ListFacet = 'locations' | 'salaryBands' | 'seniority' | 'remotePolicies' | 'types';
+
+// Long tails of one-off cities aren't useful as filters
+const MAX_LOCATIONS = 8;
+
+const MIN_FIT_OPTIONS = [0, 50, 70, 85];
+
+const JobSearchPanel: React.FC<JobSearchPanelProps> = ({
+  query,
+  onChange,
+  facets,
+  resultCount,
+  canRankByFit,
+  savedSearches,
+  onSaveSearch,
+  onToggleAlert,
+  onDeleteSearch
+}) => {
+  const [showFilters, setShowFilters] = useState(false);
+  const [savingName, setSavingName] = useState<string | null>(null);
+  const [withAlert, setWithAlert] = useState(true);
+  const [minFit, setMinFit] = useState(0);
+
+  const activeFilters = query.locations.length + query.salaryBands.length + query.seniority.length + query.remotePolicies.length + query.types.length;
+
+  const toggle = (facet: ListFacet, value: string) => {
+    const selected = query[facet] as string[];
+    onChange({
+      ...query,
+      [facet]: selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value],
+      // Bands are amounts in one currency; keep it with the query so a saved search means the same later
+      ...(facet === 'salaryBands' && { salaryCurrency: facets.salaryCurrency })
+    });
+  };
+
+  const clearFilters = () => onChange({ ...query, locations: [], salaryBands: [], salaryCurrency: undefined, seniority: [], remotePolicies: [], types: [] });
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!savingName?.trim() || !onSaveSearch) return;
+    onSaveSearch(savingName.trim(), withAlert ? { minFit: canRankByFit ? minFit : 0 } : undefined);
+    setSavingName(null);
+  };
+
+  const renderGroup = (title: string, facet: ListFacet, counts: FacetCount[], label: (value: string) => string = v => v, action?: React.ReactNode) => {
+    if (counts.length === 0) return null;
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500">{title}</h4>
+          {action}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {counts.map(({ value, count }) => {
+            const selected = (query[facet] as string[]).includes(value);
+            return (
+              <button
+                key={value}
+                type="button"
+                onClick={() => toggle(facet, value)}
+                disabled={count === 0 && !selected}
+                className={cn(
+                  "px-3 py-1 rounded-full border text-xs font-medium transition-colors",
+                  selected ? "bg-brand-600 border-brand-600 text-white" : "bg-white border-slate-200 text-slate-600 hover:border-brand-300",
+                  count === 0 && !selected && "opacity-40 cursor-not-allowed"
+                )}
+              >
+                {label(value)} <span className={selected ? "text-brand-100" : "text-slate-400"}>{count}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-3 w-4 h-4 text-slate-400" />
+          <Input
+            value={query.text}
+            onChange={e => onChange({ ...query, text: e.target.value })}
+            placeholder="Search titles, skills, descriptions..."
+            className="pl-10"
+          />
+        </div>
+        <select
+          value={query.sort}
+          onChange={e => onChange({ ...query, sort: e.target.value as JobSort })}
+          className="h-11 min-w-[160px] bg-white border border-slate-300 rounded-lg px-4 text-sm text-slate-700 focus:ring-2 focus:ring-brand-500/20 outline-none"
+        >
+          <option value="relevance">Most relevant</option>
+          <option value="bestFit" disabled={!canRankByFit}>Best fit for my resume</option>
+          <option value="salary">Highest salary</option>
+        </select>
+        <Button variant="outline" onClick={() => setShowFilters(open => !open)} className={cn("gap-2", activeFilters > 0 && "border-brand-300 text-brand-700")}>
+          <SlidersHorizontal className="w-4 h-4" /> Filters{activeFilters > 0 && ` (${activeFilters})`}
+        </Button>
+      </div>
+
+      {showFilters && (
+        <div className="grid md:grid-cols-2 gap-4 p-4 rounded-lg border border-slate-200 bg-slate-50">
+          {renderGroup('Workplace', 'remotePolicies', facets.remotePolicies)}
+          {renderGroup('Seniority', 'seniority', facets.seniority)}
+          {renderGroup(
+            'Salary (per year)',
+            'salaryBands',
+            facets.salaryBands,
+            id => salaryBandLabel(id as SalaryBand, facets.salaryCurrency),
+            facets.salaryCurrencies.length > 1 && (
+              <select
+                value={facets.salaryCurrency}
+                onChange={e => onChange({ ...query, salaryCurrency: e.target.value })}
+                className="h-6 bg-white border border-slate-300 rounded px-1 text-xs text-slate-700 outline-none"
+                aria-label="Salary currency"
+              >
+                {facets.salaryCurrencies.map(({ value, count }) => <option key={value} value={value}>{value} ({count})</option>)}
+              </select>
+            )
+          )}
+          {renderGroup('Job type', 'types', facets.types)}
+          {renderGroup('Location', 'locations', facets.locations.slice(0, Math.max(MAX_LOCATIONS, query.locations.length)))}
+          {activeFilters > 0 && (
+            <div className="md:col-span-2">
+              <button type="button" onClick={clearFilters} className="text-xs font-medium text-slate-500 hover:text-slate-700">Clear filters</button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {savedSearches && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-slate-500">{resultCount} {resultCount === 1 ? 'job' : 'jobs'}</span>
+          {savedSearches.map(search => (
+            <span key={search.id} className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-white pl-3 pr-1 py-0.5 text-xs" title={describeJobSearch(search.query)}>
+              <button type="button" onClick={() => onChange(search.query)} className="font-medium text-slate-700 hover:text-brand-700">{search.name}</button>
+              <button
+                type="button"
+                onClick={() => onToggleAlert?.(search)}
+                className={cn("p-0.5", isAlertOn(search) ? "text-brand-600 hover:text-brand-800" : "text-slate-300 hover:text-slate-500")}
+                title={isAlertOn(search)
+                  ? `Alerts on${search.alert!.minFit > 0 ? ` for jobs with ${search.alert!.minFit}%+ fit` : ''}. Click to turn off.`
+                  : 'Alerts off. Click to be notified about new matching jobs.'}
+              >
+                {isAlertOn(search) ? <Bell className="w-3 h-3" /> : <BellOff className="w-3 h-3" />}
+              </button>
+              <button type="button" onClick={() => onDeleteSearch?.(search)} className="p-0.5 text-slate-400 hover:text-red-600" aria-label={`Delete ${search.name}`}><X className="w-3 h-3" /></button>
+            </span>
+          ))}
+          {savingName === null ? (
+            isFilteredSearch(query) && (
+              <button type="button" onClick={() => setSavingName(describeJobSearch(query))} className="inline-flex items-center gap-1 text-xs font-medium text-brand-700 hover:text-brand-800">
+                <Bookmark className="w-3.5 h-3.5" /> Save search
+              </button>
+            )
+          ) : (
+            <form onSubmit={handleSave} className="flex flex-wrap items-center gap-2">
+              <Input autoFocus value={savingName} onChange={e => setSavingName(e.target.value)} className="h-8 w-56 text-xs" placeholder="Name this search" />
+              <label className="flex items-center gap-1.5 text-xs text-slate-600">
+                <input type="checkbox" checked={withAlert} onChange={e => setWithAlert(e.target.checked)} className="rounded border-slate-300" />
+                Alert me about new jobs
+              </label>
+              {withAlert && canRankByFit && (
+                <select
+                  value={minFit}
+                  onChange={e => setMinFit(Number(e.target.value))}
+                  className="h-8 bg-white border border-slate-300 rounded-lg px-2 text-xs text-slate-700 outline-none"
+                >
+                  {MIN_FIT_OPTIONS.map(fit => <option key={fit} value={fit}>{fit === 0 ? 'Any fit' : `${fit}%+ fit`}</option>)}
+                </select>
+              )}
+              <Button type="submit" size="sm" disabled={!savingName.trim()}>Save</Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => setSavingName(null)}>Cancel</Button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobSearchPanel;
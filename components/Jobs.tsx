@@ -1,26 +1,78 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Briefcase, MapPin, DollarSign, Loader2, Sparkles, AlertTriangle, Search, CheckCircle, RefreshCw, Filter, Users, Eye, Plus, X } from 'lucide-react';
-import { Job, JobMatchResult, ResumeAnalysis, UserRole, Application } from '../types';
-import { analyzeJobMatch, generateTailoredJobs } from '../services/gemini';
+import { Briefcase, MapPin, DollarSign, Loader2, Sparkles, AlertTriangle, CheckCircle, RefreshCw, Users, Eye, Plus, Wand2, FileCheck, CalendarClock, Archive, Target, ExternalLink } from 'lucide-react';
+import { Job, JobAlert, JobMatchResult, JobSearchQuery, JobStatus, ResumeAnalysis, ResumeDraft, ResumeTailoring, SavedSearch, UserRole, Application } from '../types';
+import { analyzeJobMatch, generateTailoredJobs, getCachedJobMatch, tailorResume } from '../services/gemini';
+import { repositories, mergeJobs } from '../services/repositories';
+import { AiError, isCancelled, toAiError } from '../services/aiErrors';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Card, Button, Badge, Input, Textarea } from './ui/DesignSystem';
+import { Card, Button, Badge, Input } from './ui/DesignSystem';
+import { AiErrorNotice } from './ui/AiErrorNotice';
 import { cn, containerVariants, itemVariants } from '../lib/utils';
+import { useAbortOnUnmount } from '../lib/useAbortOnUnmount';
+import { applyTailoring, createDraft } from '../lib/resumeDraft';
+import { scoreJobMatch } from '../lib/atsScore';
+import { formatDeadline, webUrl } from '../lib/jobPosting';
+import { JOB_STATUS_LABELS, acceptsApplications, displayStatus, isListed, isOwnJob, isPastDeadline, isPendingApplication, nextStatuses, transitionJob, transitionLabel } from '../lib/jobLifecycle';
+import { EMPTY_JOB_SEARCH, buildJobSearchIndex, searchJobs } from '../lib/jobSearch';
+import { isAlertOn } from '../lib/jobAlerts';
+import TailoredResumePreview from './TailoredResumePreview';
+import JobPostingForm, { JobPostingFields } from './JobPostingForm';
+import JobSearchPanel from './JobSearchPanel';
 
 interface JobsProps {
   resumeAnalysis: ResumeAnalysis | null;
   onActivity: (title: string, meta: string) => void;
   jobs: Job[];
   setJobs: React.Dispatch<React.SetStateAction<Job[]>>;
-  onApply: (job: Job) => void;
+  /** Rejects with a message for the candidate when the job no longer takes applications. */
+  onApply: (job: Job) => Promise<void>;
   appliedJobIds: Set<string>;
+  /** AI-suggested jobs the candidate saved as practice targets. */
+  practiceJobIds?: Set<string>;
   userRole?: UserRole;
   applications?: Application[];
   onPostJob?: (job: Job) => void;
   onUpdateJob?: (job: Job) => void;
+  onChangeJobStatus?: (job: Job, status: JobStatus) => void;
   postJobIntent?: boolean;
   onClearPostJobIntent?: () => void;
+  /** Job opened through a `/jobs/:id` link; it is scrolled to and highlighted. */
+  focusedJobId?: string;
+  onFocusJob?: (id: string | null) => void;
+  /** Owner of tailored resume files. */
+  userId?: string;
+  /** Jobs with a resume version tailored for them; that version is attached on apply. */
+  tailoredJobIds?: Set<string>;
+  onSaveTailoredResume?: (job: Job, analysis: ResumeAnalysis) => void;
+  /** Candidate saved searches; omitted where searches can't be saved. */
+  savedSearches?: SavedSearch[];
+  onSaveSearch?: (search: SavedSearch) => void;
+  onDeleteSearch?: (search: SavedSearch) => void;
 }
 
+const STATUS_BADGES: Record<JobStatus, 'neutral' | 'success' | 'warning' | 'error'> = {
+  draft: 'neutral',
+  published: 'success',
+  paused: 'warning',
+  closed: 'error',
+  archived: 'neutral'
+};
+
+// Employer postings are the default and go unmarked
+const SourceBadge = ({ job }: { job: Job }) => {
+  if (job.source === 'ai') {
+    return (
+      <Badge variant="warning" className="gap-1" title="Generated by AI from your resume. The company and role are fictional.">
+        <Sparkles className="w-3 h-3" /> AI sample
+      </Badge>
+    );
+  }
+  if (job.source === 'imported') {
+    return <Badge variant="info" title="Copied from another job board">Imported</Badge>;
+  }
+  return null;
+};
+
 const Jobs: React.FC<JobsProps> = ({
   resumeAnalysis,
   onActivity,
@@ -28,33 +80,39 @@ const Jobs: React.FC<JobsProps> = ({
   setJobs,
   onApply,
   appliedJobIds,
+  practiceJobIds = new Set(),
   userRole = 'candidate',
   applications = [],
   onPostJob,
   onUpdateJob,
+  onChangeJobStatus,
   postJobIntent,
-  onClearPostJobIntent
+  onClearPostJobIntent,
+  focusedJobId,
+  onFocusJob,
+  userId,
+  tailoredJobIds = new Set(),
+  onSaveTailoredResume,
+  savedSearches,
+  onSaveSearch,
+  onDeleteSearch
 }) => {
   const [analyzingId, setAnalyzingId] = useState<string | null>(null);
   const [matches, setMatches] = useState<Record<string, JobMatchResult>>({});
-  const [searchQuery, setSearchQuery] = useState('');
-  const [filterType, setFilterType] = useState('All');
+  const [searchQuery, setSearchQuery] = useState<JobSearchQuery>(EMPTY_JOB_SEARCH);
   const [isGeneratingJobs, setIsGeneratingJobs] = useState(false);
   const [applyingId, setApplyingId] = useState<string | null>(null);
+  const [applyError, setApplyError] = useState<{ jobId: string; message: string } | null>(null);
+  const [tailoredUploadError, setTailoredUploadError] = useState<{ jobId: string; message: string } | null>(null);
+  const [aiFailure, setAiFailure] = useState<{ error: AiError; retry: () => void } | null>(null);
+  const [tailoringId, setTailoringId] = useState<string | null>(null);
+  const [tailored, setTailored] = useState<{ job: Job; draft: ResumeDraft; tailoring: ResumeTailoring } | null>(null);
+  const getSignal = useAbortOnUnmount();
 
   // Employer Job Posting/Editing State
   const [isPosting, setIsPosting] = useState(false);
   const [editingJobId, setEditingJobId] = useState<string | null>(null);
-  const [newJob, setNewJob] = useState<Partial<Job>>({
-    title: '',
-    company: '',
-    location: '',
-    salary: '',
-    type: 'Full-time',
-    description: '',
-    requirements: []
-  });
-  const [reqInput, setReqInput] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
 
   const isEmployer = userRole === 'employer';
 
@@ -63,11 +121,28 @@ const Jobs: React.FC<JobsProps> = ({
     if (postJobIntent) {
       setIsPosting(true);
       setEditingJobId(null);
-      setNewJob({ title: '', company: '', location: '', salary: '', type: 'Full-time', description: '', requirements: [] });
       if (onClearPostJobIntent) onClearPostJobIntent();
     }
   }, [postJobIntent, onClearPostJobIntent]);
 
+  // Bring a deep-linked job into view once the list has loaded
+  useEffect(() => {
+    if (!focusedJobId) return;
+    document.getElementById(`job-${focusedJobId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusedJobId, jobs.length]);
+
+  // Employers manage their own postings; candidates only see jobs that are open to them
+  const visibleJobs = useMemo(
+    () => isEmployer
+      ? jobs.filter(job => isOwnJob(job, userId) && (job.status === 'archived') === showArchived)
+      : jobs.filter(isListed),
+    [jobs, isEmployer, userId, showArchived]
+  );
+  const archivedCount = isEmployer ? jobs.filter(job => isOwnJob(job, userId) && job.status === 'archived').length : 0;
+  const publishedCount = isEmployer ? jobs.filter(job => isOwnJob(job, userId) && job.status === 'published').length : 0;
+
+  const focusedJobMissing = !!focusedJobId && visibleJobs.length > 0 && !visibleJobs.some(job => job.id === focusedJobId);
+
   // Initial generation only if empty and user is candidate
   useEffect(() => {
     if (!isEmployer && resumeAnalysis && jobs.length === 0 && !isGeneratingJobs) {
@@ -75,124 +150,153 @@ const Jobs: React.FC<JobsProps> = ({
     }
   }, [resumeAnalysis, isEmployer]);
 
+  // Restore fit analyses computed on earlier visits for the same resume and job
+  useEffect(() => {
+    if (isEmployer || !resumeAnalysis) return;
+    let cancelled = false;
+    Promise.all(jobs.map(async job => {
+      const cached = await getCachedJobMatch(resumeAnalysis, job.description);
+      return cached ? [job.id, cached] as const : null;
+    })).then(results => {
+      if (cancelled) return;
+      const restored = Object.fromEntries(results.filter((r): r is readonly [string, JobMatchResult] => r !== null));
+      if (Object.keys(restored).length > 0) setMatches(prev => ({ ...restored, ...prev }));
+    });
+    return () => { cancelled = true; };
+  }, [jobs, resumeAnalysis, isEmployer]);
+
   const handleGenerateJobs = async () => {
     if (!resumeAnalysis) return;
     setIsGeneratingJobs(true);
+    setAiFailure(null);
     // Don't clear immediately to keep UI stable
     try {
-      const tailoredJobs = await generateTailoredJobs(resumeAnalysis.summary, resumeAnalysis.skills || []);
+      const tailoredJobs = await generateTailoredJobs(resumeAnalysis.summary, resumeAnalysis.skills || [], { signal: getSignal() });
 
       // Merge with Global Jobs (Employer Posted)
-      const globalJobsStr = localStorage.getItem('carrerx_global_jobs');
-      const globalJobs: Job[] = globalJobsStr ? JSON.parse(globalJobsStr) : [];
+      const globalJobs = await repositories.jobs.listPosted();
 
       // We prioritize Global jobs, then new tailored AI jobs
-      setJobs([...globalJobs, ...tailoredJobs]);
+      setJobs(mergeJobs(globalJobs, tailoredJobs));
 
       onActivity("Job Search", `Found ${tailoredJobs.length} roles`);
     } catch (error) {
-      console.error(error);
+      if (isCancelled(error)) return;
+      setAiFailure({ error: toAiError(error), retry: handleGenerateJobs });
     } finally {
-      setIsGeneratingJobs(false);
+      if (!getSignal().aborted) setIsGeneratingJobs(false);
     }
   };
 
-  const filteredAndSortedJobs = useMemo(() => {
-    let result = [...jobs];
-    if (searchQuery.trim()) {
-      const q = searchQuery.toLowerCase();
-      result = result.filter(job =>
-        job.title.toLowerCase().includes(q) ||
-        job.company.toLowerCase().includes(q)
-      );
-    }
-    if (filterType !== 'All') {
-      result = result.filter(job => job.type === filterType);
-    }
-    return result;
-  }, [jobs, searchQuery, filterType]);
+  const searchIndex = useMemo(() => buildJobSearchIndex(visibleJobs), [visibleJobs]);
+  const resumeSkills = !isEmployer ? resumeAnalysis?.skills : undefined;
+  const search = useMemo(
+    () => searchJobs(visibleJobs, searchQuery, searchIndex, resumeSkills),
+    [visibleJobs, searchQuery, searchIndex, resumeSkills]
+  );
+  const filteredAndSortedJobs = search.jobs;
+
+  const handleSaveSearch = (name: string, alert?: JobAlert) => {
+    onSaveSearch?.({ id: crypto.randomUUID(), name, query: searchQuery, createdAt: new Date().toISOString(), alert });
+    onActivity("Search Saved", alert ? `${name} (with job alerts)` : name);
+  };
+
+  // Turning an alert off pauses it, so turning it back on keeps its fit threshold. It then covers
+  // jobs published from then on; those posted while it was off never notify.
+  const handleToggleAlert = (saved: SavedSearch) =>
+    onSaveSearch?.({ ...saved, alert: { minFit: saved.alert?.minFit ?? 0, ...(isAlertOn(saved) && { paused: true }) } });
 
   const handleAnalyzeFit = async (job: Job) => {
     if (!resumeAnalysis) return;
     setAnalyzingId(job.id);
+    setAiFailure(null);
     try {
-      const result = await analyzeJobMatch(resumeAnalysis.summary, resumeAnalysis.skills || [], job.description);
+      const result = await analyzeJobMatch(resumeAnalysis, job.description, { signal: getSignal() });
       setMatches(prev => ({ ...prev, [job.id]: result }));
       onActivity("Job Analysis", `Analyzed ${job.company}`);
     } catch (error) {
-      console.error(error);
+      if (isCancelled(error)) return;
+      setAiFailure({ error: toAiError(error), retry: () => handleAnalyzeFit(job) });
+    } finally {
+      if (!getSignal().aborted) setAnalyzingId(null);
+    }
+  };
+
+  const handleTailor = async (job: Job) => {
+    const draft = resumeAnalysis && createDraft(resumeAnalysis);
+    if (!draft) return;
+    setTailoringId(job.id);
+    setAiFailure(null);
+    try {
+      const tailoring = await tailorResume(job, matches[job.id]?.missingKeywords || [], draft, { signal: getSignal() });
+      setTailored({ job, draft: applyTailoring(draft, tailoring), tailoring });
+    } catch (error) {
+      if (isCancelled(error)) return;
+      setAiFailure({ error: toAiError(error), retry: () => handleTailor(job) });
     } finally {
-      setAnalyzingId(null);
+      if (!getSignal().aborted) setTailoringId(null);
     }
   };
 
+  const handleSaveTailored = (analysis: ResumeAnalysis, uploadFailed?: boolean) => {
+    if (!tailored) return;
+    setTailoredUploadError(uploadFailed && analysis.file ? {
+      jobId: tailored.job.id,
+      message: `We couldn't keep a copy of ${analysis.file.name}, so employers can't download it from your application. The version was saved.`
+    } : null);
+    onSaveTailoredResume?.(tailored.job, analysis);
+    onActivity("Resume Tailored", `${tailored.job.title} at ${tailored.job.company}`);
+    setTailored(null);
+  };
+
   const handleApplyClick = async (job: Job) => {
+    // Saving a practice target is instant; there is no application to send
+    if (job.source === 'ai') {
+      onApply(job);
+      return;
+    }
     setApplyingId(job.id);
-    // Simulate network delay for application process
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    onApply(job);
-    setApplyingId(null);
+    setApplyError(null);
+    try {
+      await onApply(job);
+    } catch (err) {
+      setApplyError({ jobId: job.id, message: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setApplyingId(null);
+    }
   };
 
-  const handleAddRequirement = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && reqInput.trim()) {
-      e.preventDefault();
-      setNewJob(prev => ({ ...prev, requirements: [...(prev.requirements || []), reqInput.trim()] }));
-      setReqInput('');
-    }
+  const handleStatusChange = (job: Job, status: JobStatus) => {
+    const pending = applications.filter(a => a.jobId === job.id && isPendingApplication(a)).length;
+    if (status === 'closed' && pending > 0 && !confirm(
+      `Close "${job.title}"? It will stop accepting applications and ${pending} pending applicant${pending === 1 ? '' : 's'} will be rejected.`
+    )) return;
+    onChangeJobStatus?.(job, status);
   };
 
   const handleEditClick = (job: Job) => {
     setEditingJobId(job.id);
-    setNewJob({
-      title: job.title,
-      company: job.company,
-      location: job.location,
-      salary: job.salary,
-      type: job.type,
-      description: job.description,
-      requirements: job.requirements
-    });
     setIsPosting(true);
   };
 
-  const handleSubmitJob = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (newJob.title && newJob.company) {
-      if (editingJobId && onUpdateJob) {
-        // Update existing
-        const originalJob = jobs.find(j => j.id === editingJobId);
-        if (originalJob) {
-          const jobToUpdate: Job = {
-            ...originalJob,
-            title: newJob.title,
-            company: newJob.company,
-            location: newJob.location || 'Remote',
-            salary: newJob.salary || 'Competitive',
-            type: newJob.type || 'Full-time',
-            description: newJob.description || '',
-            requirements: newJob.requirements || []
-          };
-          onUpdateJob(jobToUpdate);
-        }
-      } else if (onPostJob) {
-        // Create new
-        onPostJob({
-          id: Date.now().toString(),
-          title: newJob.title!,
-          company: newJob.company!,
-          location: newJob.location || 'Remote',
-          salary: newJob.salary || 'Competitive',
-          type: newJob.type || 'Full-time',
-          description: newJob.description || '',
-          requirements: newJob.requirements || [],
-          postedAt: 'Just now'
-        });
+  const handleSubmitJob = (fields: JobPostingFields, status?: JobStatus) => {
+    if (editingJobId && onUpdateJob) {
+      const originalJob = jobs.find(j => j.id === editingJobId);
+      if (originalJob) {
+        const updated = { ...originalJob, ...fields };
+        onUpdateJob(status && status !== originalJob.status ? transitionJob(updated, status) : updated);
       }
-      setIsPosting(false);
-      setNewJob({ title: '', company: '', location: '', salary: '', type: 'Full-time', description: '', requirements: [] });
-      setEditingJobId(null);
+    } else if (onPostJob) {
+      onPostJob({
+        ...fields,
+        id: Date.now().toString(),
+        status: status || 'published',
+        source: 'employer',
+        postedAt: 'Just now'
+      });
     }
+    setIsPosting(false);
+    setEditingJobId(null);
   };
 
   if (!isEmployer && !resumeAnalysis) {
@@ -213,82 +317,25 @@ const Jobs: React.FC<JobsProps> = ({
       {/* Job Posting Modal/Overlay */}
       <AnimatePresence>
         {isPosting && (
-          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm">
-            <motion.div
-              initial={{ opacity: 0, scale: 0.95 }}
-              animate={{ opacity: 1, scale: 1 }}
-              exit={{ opacity: 0, scale: 0.95 }}
-              className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto"
-            >
-              <div className="p-6 border-b border-slate-100 flex items-center justify-between sticky top-0 bg-white z-10">
-                <h2 className="text-xl font-bold text-slate-900">{editingJobId ? 'Edit Job' : 'Post New Job'}</h2>
-                <button onClick={() => setIsPosting(false)} className="text-slate-400 hover:text-slate-600"><X className="w-6 h-6" /></button>
-              </div>
-              <form onSubmit={handleSubmitJob} className="p-6 space-y-6">
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <label className="text-sm font-semibold text-slate-700">Job Title</label>
-                    <Input required value={newJob.title} onChange={e => setNewJob({ ...newJob, title: e.target.value })} placeholder="e.g. Senior Product Manager" />
-                  </div>
-                  <div className="space-y-2">
-                    <label className="text-sm font-semibold text-slate-700">Company</label>
-                    <Input required value={newJob.company} onChange={e => setNewJob({ ...newJob, company: e.target.value })} placeholder="Company Name" />
-                  </div>
-                </div>
+          <JobPostingForm
+            job={jobs.find(j => j.id === editingJobId)}
+            onSubmit={handleSubmitJob}
+            onClose={() => setIsPosting(false)}
+          />
+        )}
+      </AnimatePresence>
 
-                <div className="grid grid-cols-3 gap-4">
-                  <div className="space-y-2">
-                    <label className="text-sm font-semibold text-slate-700">Location</label>
-                    <Input value={newJob.location} onChange={e => setNewJob({ ...newJob, location: e.target.value })} placeholder="e.g. New York, NY" />
-                  </div>
-                  <div className="space-y-2">
-                    <label className="text-sm font-semibold text-slate-700">Salary Range</label>
-                    <Input value={newJob.salary} onChange={e => setNewJob({ ...newJob, salary: e.target.value })} placeholder="e.g. $120k - $150k" />
-                  </div>
-                  <div className="space-y-2">
-                    <label className="text-sm font-semibold text-slate-700">Type</label>
-                    <select
-                      className="flex h-11 w-full rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm focus:ring-2 focus:ring-brand-500/20 outline-none"
-                      value={newJob.type}
-                      onChange={e => setNewJob({ ...newJob, type: e.target.value })}
-                    >
-                      <option>Full-time</option>
-                      <option>Contract</option>
-                      <option>Part-time</option>
-                      <option>Remote</option>
-                    </select>
-                  </div>
-                </div>
-
-                <div className="space-y-2">
-                  <label className="text-sm font-semibold text-slate-700">Description</label>
-                  <Textarea required value={newJob.description} onChange={e => setNewJob({ ...newJob, description: e.target.value })} placeholder="Describe the role responsibilities and culture..." className="min-h-[120px]" />
-                </div>
-
-                <div className="space-y-2">
-                  <label className="text-sm font-semibold text-slate-700">Requirements (Press Enter to add)</label>
-                  <Input
-                    value={reqInput}
-                    onChange={e => setReqInput(e.target.value)}
-                    onKeyDown={handleAddRequirement}
-                    placeholder="Type a skill and press Enter"
-                  />
-                  <div className="flex flex-wrap gap-2 mt-2">
-                    {newJob.requirements?.map((req, i) => (
-                      <Badge key={i} variant="brand" className="flex items-center gap-1 pr-1">
-                        {req} <button type="button" onClick={() => setNewJob(prev => ({ ...prev, requirements: prev.requirements?.filter((_, idx) => idx !== i) }))} className="hover:text-red-600"><X className="w-3 h-3" /></button>
-                      </Badge>
-                    ))}
-                  </div>
-                </div>
-
-                <div className="pt-4 flex justify-end gap-3">
-                  <Button type="button" variant="ghost" onClick={() => setIsPosting(false)}>Cancel</Button>
-                  <Button type="submit" variant="primary" className="bg-purple-600 hover:bg-purple-700">{editingJobId ? 'Update Listing' : 'Create Listing'}</Button>
-                </div>
-              </form>
-            </motion.div>
-          </div>
+      <AnimatePresence>
+        {tailored && resumeAnalysis && (
+          <TailoredResumePreview
+            job={tailored.job}
+            base={resumeAnalysis}
+            draft={tailored.draft}
+            tailoring={tailored.tailoring}
+            userId={userId}
+            onSave={handleSaveTailored}
+            onClose={() => setTailored(null)}
+          />
         )}
       </AnimatePresence>
 
@@ -301,15 +348,22 @@ const Jobs: React.FC<JobsProps> = ({
             </h2>
             <p className="text-slate-500">
               {isEmployer
-                ? `You have ${jobs.length} active listings.`
+                ? `You have ${publishedCount} active listing${publishedCount === 1 ? '' : 's'}.`
                 : `Curated opportunities based on your ${resumeAnalysis?.skills?.length || 0} skills.`
               }
             </p>
           </div>
           {isEmployer ? (
-            <Button onClick={() => { setEditingJobId(null); setNewJob({ title: '', company: '', location: '', salary: '', type: 'Full-time', description: '', requirements: [] }); setIsPosting(true); }} variant="primary" className="bg-purple-600 hover:bg-purple-700 gap-2">
-              <Plus className="w-4 h-4" /> Post New Job
-            </Button>
+            <div className="flex gap-3">
+              {(archivedCount > 0 || showArchived) && (
+                <Button onClick={() => setShowArchived(show => !show)} variant="outline" className="gap-2">
+                  <Archive className="w-4 h-4" /> {showArchived ? 'Back to Listings' : `Archived (${archivedCount})`}
+                </Button>
+              )}
+              <Button onClick={() => { setEditingJobId(null); setIsPosting(true); }} variant="primary" className="bg-purple-600 hover:bg-purple-700 gap-2">
+                <Plus className="w-4 h-4" /> Post New Job
+              </Button>
+            </div>
           ) : (
             <Button onClick={handleGenerateJobs} disabled={isGeneratingJobs} variant="outline" className="gap-2">
               <RefreshCw className={cn("w-4 h-4", isGeneratingJobs && "animate-spin")} /> Refresh Feed
@@ -317,34 +371,28 @@ const Jobs: React.FC<JobsProps> = ({
           )}
         </div>
 
-        <div className="flex flex-col md:flex-row gap-3">
-          <div className="relative flex-1">
-            <Search className="absolute left-3 top-3 w-4 h-4 text-slate-400" />
-            <Input
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="Search by job title or company..."
-              className="pl-10"
-            />
-          </div>
-          <div className="relative min-w-[180px]">
-            <Filter className="absolute left-3 top-3 w-4 h-4 text-slate-400" />
-            <select
-              value={filterType}
-              onChange={(e) => setFilterType(e.target.value)}
-              className="h-11 w-full bg-white border border-slate-300 rounded-lg pl-10 pr-4 text-sm text-slate-700 focus:ring-2 focus:ring-brand-500/20 outline-none appearance-none"
-            >
-              <option value="All">All Job Types</option>
-              <option value="Full-time">Full-time</option>
-              <option value="Contract">Contract</option>
-              <option value="Remote">Remote</option>
-            </select>
-          </div>
-        </div>
+        <JobSearchPanel
+          query={searchQuery}
+          onChange={setSearchQuery}
+          facets={search.facets}
+          resultCount={filteredAndSortedJobs.length}
+          canRankByFit={!!resumeSkills?.length}
+          savedSearches={savedSearches}
+          onSaveSearch={handleSaveSearch}
+          onToggleAlert={handleToggleAlert}
+          onDeleteSearch={onDeleteSearch}
+        />
       </div>
 
       {/* Jobs List */}
       <div className="space-y-4">
+        <AiErrorNotice error={aiFailure?.error ?? null} onRetry={aiFailure?.retry} />
+        {focusedJobMissing && (
+          <div className="flex items-center justify-between gap-4 p-4 rounded-lg border border-amber-200 bg-amber-50 text-sm text-amber-800">
+            <span>The job you followed a link to is no longer available.</span>
+            <Button variant="ghost" size="sm" onClick={() => onFocusJob?.(null)}>Show all jobs</Button>
+          </div>
+        )}
         {isGeneratingJobs ? (
           <div className="text-center py-20 bg-white rounded-xl border border-slate-200">
             <Loader2 className="w-10 h-10 animate-spin mx-auto mb-4 text-brand-600" />
@@ -353,19 +401,34 @@ const Jobs: React.FC<JobsProps> = ({
           </div>
         ) : filteredAndSortedJobs.length === 0 ? (
           <div className="text-center py-20 text-slate-500">
-            {isEmployer ? "You haven't posted any jobs yet." : "No jobs found matching your criteria."}
+            {isEmployer
+              ? (showArchived ? "No archived jobs." : "You haven't posted any jobs yet.")
+              : "No jobs found matching your criteria."}
           </div>
         ) : (
           filteredAndSortedJobs.map((job) => {
             const applicantCount = applications.filter(a => a.jobId === job.id).length;
+            const keywordMatch = !isEmployer && resumeAnalysis ? scoreJobMatch(resumeAnalysis, job) : null;
             return (
-              <motion.div key={job.id} variants={itemVariants}>
-                <Card className="hover:border-brand-300 hover:shadow-md transition-all group overflow-hidden border-l-4 border-l-transparent hover:border-l-brand-500">
+              <motion.div key={job.id} id={`job-${job.id}`} variants={itemVariants}>
+                <Card className={cn(
+                  "hover:border-brand-300 hover:shadow-md transition-all group overflow-hidden border-l-4 border-l-transparent hover:border-l-brand-500",
+                  // AI samples look like drafts on paper, so they're never mistaken for real openings
+                  job.source === 'ai' && "border-dashed bg-slate-50/60",
+                  job.id === focusedJobId && "ring-2 ring-brand-500/40 border-l-brand-500"
+                )}>
                   <div className="p-6">
                     <div className="flex flex-col md:flex-row gap-6">
                       <div className="flex-1 space-y-3">
                         <div>
-                          <h3 className="text-lg font-bold text-slate-900 group-hover:text-brand-600 transition-colors font-display">{job.title}</h3>
+                          <h3 className="text-lg font-bold text-slate-900 group-hover:text-brand-600 transition-colors font-display flex items-center gap-2">
+                            {/* Puts the job in the URL so it can be shared */}
+                            <button onClick={() => onFocusJob?.(job.id)} className="text-left hover:underline">{job.title}</button>
+                            {(isEmployer || displayStatus(job) !== 'published') && (
+                              <Badge variant={STATUS_BADGES[displayStatus(job)]}>{JOB_STATUS_LABELS[displayStatus(job)]}</Badge>
+                            )}
+                            {!isEmployer && <SourceBadge job={job} />}
+                          </h3>
                           <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-slate-500 mt-1">
                             <span className="font-semibold text-slate-700">{job.company}</span>
                             <span className="w-1 h-1 rounded-full bg-slate-300" />
@@ -374,16 +437,42 @@ const Jobs: React.FC<JobsProps> = ({
                             <span className="flex items-center gap-1"><DollarSign className="w-3.5 h-3.5" /> {job.salary}</span>
                             <span className="w-1 h-1 rounded-full bg-slate-300" />
                             <span>{job.postedAt}</span>
+                            {searchQuery.sort === 'bestFit' && job.id in search.fit && (
+                              <>
+                                <span className="w-1 h-1 rounded-full bg-slate-300" />
+                                <span className="font-medium text-brand-700" title="Share of the job's required skills listed on your resume">{search.fit[job.id]}% skill overlap</span>
+                              </>
+                            )}
+                            {job.deadline && (
+                              <>
+                                <span className="w-1 h-1 rounded-full bg-slate-300" />
+                                <span className="flex items-center gap-1"><CalendarClock className="w-3.5 h-3.5" /> {isPastDeadline(job) ? 'Closed' : 'Apply by'} {formatDeadline(job.deadline)}</span>
+                              </>
+                            )}
                           </div>
                         </div>
 
                         <p className="text-slate-600 text-sm leading-relaxed max-w-3xl">{job.description}</p>
 
                         <div className="flex flex-wrap gap-2 pt-2">
-                          {job.requirements.slice(0, 4).map((r, i) => (
+                          {job.skills.length > 0 ? (
+                            // Required skills first; nice-to-haves are outlined
+                            [...job.skills].sort((a, b) => Number(b.required) - Number(a.required)).slice(0, 5).map(skill => (
+                              <Badge
+                                key={skill.key}
+                                variant="neutral"
+                                className={skill.required ? "bg-slate-100 text-slate-600" : "bg-white text-slate-500 border-dashed"}
+                                title={skill.required ? 'Required' : 'Nice to have'}
+                              >
+                                {skill.name}
+                              </Badge>
+                            ))
+                          ) : job.requirements.slice(0, 4).map((r, i) => (
                             <Badge key={i} variant="neutral" className="bg-slate-100 text-slate-600">{r}</Badge>
                           ))}
                           <Badge variant="brand" className="bg-brand-50 text-brand-700 border-brand-100">{job.type}</Badge>
+                          <Badge variant="brand" className="bg-brand-50 text-brand-700 border-brand-100">{job.remotePolicy}</Badge>
+                          {job.seniority && <Badge variant="info">{job.seniority}</Badge>}
                         </div>
                       </div>
 
@@ -398,6 +487,19 @@ const Jobs: React.FC<JobsProps> = ({
                             <Button variant="outline" size="sm" className="w-full" onClick={() => handleEditClick(job)}>
                               <Eye className="w-4 h-4 mr-2" /> Edit Job
                             </Button>
+                            <div className="flex flex-wrap gap-2 w-full md:justify-end">
+                              {nextStatuses(job.status).map(status => (
+                                <Button
+                                  key={status}
+                                  variant={status === 'published' ? 'primary' : 'ghost'}
+                                  size="sm"
+                                  className={cn("flex-1", status === 'published' && "bg-purple-600 hover:bg-purple-700", status === 'closed' && "text-red-600 hover:bg-red-50")}
+                                  onClick={() => handleStatusChange(job, status)}
+                                >
+                                  {transitionLabel(job.status, status)}
+                                </Button>
+                              ))}
+                            </div>
                           </div>
                         ) : (
                           // CANDIDATE ACTIONS
@@ -418,21 +520,66 @@ const Jobs: React.FC<JobsProps> = ({
                               </Button>
                             )}
 
-                            <Button
-                              onClick={() => handleApplyClick(job)}
-                              disabled={appliedJobIds.has(job.id) || applyingId === job.id}
-                              variant={appliedJobIds.has(job.id) ? "secondary" : "outline"}
-                              size="sm"
-                              className={cn("w-full transition-all duration-300", appliedJobIds.has(job.id) && "bg-emerald-50 text-emerald-600 border-emerald-200 hover:bg-emerald-100 hover:text-emerald-700")}
-                            >
-                              {appliedJobIds.has(job.id) ? (
-                                <><CheckCircle className="w-4 h-4 mr-2" /> Applied</>
-                              ) : applyingId === job.id ? (
-                                <><Loader2 className="w-4 h-4 animate-spin mr-2" /> Applying...</>
-                              ) : (
-                                "Apply Now"
-                              )}
-                            </Button>
+                            {keywordMatch?.coverage && (
+                              <p
+                                className="text-xs text-slate-500 w-full text-center md:text-right"
+                                title={`Matched: ${keywordMatch.coverage.matched.join(', ') || 'none'}\nMissing: ${keywordMatch.coverage.missing.join(', ') || 'none'}`}
+                              >
+                                Keyword match <span className="font-bold text-slate-700">{keywordMatch.score}%</span>
+                                {' · '}{keywordMatch.coverage.matched.length}/{keywordMatch.coverage.matched.length + keywordMatch.coverage.missing.length} keywords
+                              </p>
+                            )}
+
+                            {job.source === 'ai' && !appliedJobIds.has(job.id) ? (
+                              <Button
+                                onClick={() => handleApplyClick(job)}
+                                disabled={practiceJobIds.has(job.id)}
+                                variant={practiceJobIds.has(job.id) ? "secondary" : "outline"}
+                                size="sm"
+                                className="w-full"
+                                title="AI sample jobs can't be applied to. Save it to practice tailoring, cover letters and interviews."
+                              >
+                                <Target className="w-4 h-4 mr-2" /> {practiceJobIds.has(job.id) ? "Practice target saved" : "Save as Practice Target"}
+                              </Button>
+                            ) : (
+                              <Button
+                                onClick={() => handleApplyClick(job)}
+                                disabled={appliedJobIds.has(job.id) || applyingId === job.id || !acceptsApplications(job)}
+                                variant={appliedJobIds.has(job.id) ? "secondary" : "outline"}
+                                size="sm"
+                                className={cn("w-full transition-all duration-300", appliedJobIds.has(job.id) && "bg-emerald-50 text-emerald-600 border-emerald-200 hover:bg-emerald-100 hover:text-emerald-700")}
+                              >
+                                {appliedJobIds.has(job.id) ? (
+                                  <><CheckCircle className="w-4 h-4 mr-2" /> Applied</>
+                                ) : applyingId === job.id ? (
+                                  <><Loader2 className="w-4 h-4 animate-spin mr-2" /> Applying...</>
+                                ) : !acceptsApplications(job) ? (
+                                  "Not accepting applications"
+                                ) : (
+                                  "Apply Now"
+                                )}
+                              </Button>
+                            )}
+                            {applyError?.jobId === job.id && (
+                              <p className="flex items-start gap-1 text-xs text-red-600">
+                                <AlertTriangle className="w-3.5 h-3.5 flex-none mt-px" /> {applyError.message}
+                              </p>
+                            )}
+                            {job.source === 'imported' && webUrl(job.sourceUrl) && (
+                              <a href={webUrl(job.sourceUrl)} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-xs font-medium text-slate-500 hover:text-brand-700">
+                                Original posting <ExternalLink className="w-3 h-3" />
+                              </a>
+                            )}
+                            {job.source !== 'ai' && tailoredJobIds.has(job.id) && !appliedJobIds.has(job.id) && (
+                              <span className="flex items-center gap-1 text-xs font-medium text-brand-700" title="This version is attached when you apply">
+                                <FileCheck className="w-3.5 h-3.5" /> Tailored resume ready
+                              </span>
+                            )}
+                            {tailoredUploadError?.jobId === job.id && (
+                              <p className="flex items-start gap-1 text-xs text-amber-700">
+                                <AlertTriangle className="w-3.5 h-3.5 flex-none mt-px" /> {tailoredUploadError.message}
+                              </p>
+                            )}
                           </>
                         )}
                       </div>
@@ -457,6 +604,15 @@ const Jobs: React.FC<JobsProps> = ({
                               <li key={i} className="flex gap-2 text-slate-700"><AlertTriangle className="w-4 h-4 text-amber-500 flex-none mt-0.5" /> Missing: <span className="font-medium text-slate-900">{k}</span></li>
                             ))}
                           </ul>
+                          {onSaveTailoredResume && !appliedJobIds.has(job.id) && (
+                            resumeAnalysis?.profile ? (
+                              <Button variant="outline" size="sm" className="mt-4 gap-2" onClick={() => handleTailor(job)} isLoading={tailoringId === job.id} disabled={!!tailoringId}>
+                                {tailoringId !== job.id && <Wand2 className="w-4 h-4" />} {tailoredJobIds.has(job.id) ? 'Tailor again' : 'Tailor resume for this job'}
+                              </Button>
+                            ) : (
+                              <p className="mt-4 text-xs text-slate-500">Re-analyze your resume to tailor it for this job.</p>
+                            )
+                          )}
                         </div>
                       </div>
                     </motion.div>
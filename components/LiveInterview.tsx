@@ -3,7 +3,10 @@ import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
 import { Mic, MicOff, Volume2, Loader2, Play, Square, FileText, CheckCircle, BarChart } from 'lucide-react';
 import { base64ToBytes, createPcmBlob, decodeAudioData, downsampleBuffer } from '../services/audioUtils';
 import { generateInterviewReport } from '../services/gemini';
+import { renderPrompt } from '../services/prompts';
+import { isCancelled, toAiError } from '../services/aiErrors';
 import { InterviewReport, ResumeAnalysis } from '../types';
+import { useAbortOnUnmount } from '../lib/useAbortOnUnmount';
 
 interface LiveInterviewProps {
     resumeAnalysis: ResumeAnalysis | null;
@@ -23,6 +26,7 @@ const LiveInterview: React.FC<LiveInterviewProps> = ({ resumeAnalysis }) => {
     const [currentInputVolume, setCurrentInputVolume] = useState(0);
     const [report, setReport] = useState<InterviewReport | null>(null);
     const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+    const getSignal = useAbortOnUnmount();
 
     const audioContextRef = useRef<AudioContext | null>(null);
     const inputContextRef = useRef<AudioContext | null>(null);
@@ -101,27 +105,10 @@ const LiveInterview: React.FC<LiveInterviewProps> = ({ resumeAnalysis }) => {
             const ai = new GoogleGenAI({ apiKey });
 
             // Construct system instruction with resume context
-            const contextPrompt = resumeAnalysis
-                ? `
-          The candidate's background summary is: "${resumeAnalysis.summary}". 
-          Their key skills are: ${resumeAnalysis.skills?.join(', ')}. 
-          Tailor your questions specifically to this background and their inferred target role.
-          `
-                : "The candidate has not uploaded a resume yet. Ask general behavioral questions suitable for any professional role.";
-
-            const systemInstruction = `
-        You are an expert technical hiring manager conducting a professional job interview.
-        
-        CONTEXT:
-        ${contextPrompt}
-
-        RULES:
-        1. LANGUAGE: You MUST speak ONLY in English. Even if the user sounds like they are speaking another language (which might be audio noise), continue in English. politely ask them to repeat in English if unclear.
-        2. INTERACTION: Ask ONE question at a time. Wait for the user to answer.
-        3. FEEDBACK: After the user answers, provide brief, constructive feedback (1-2 sentences) on their answer, then move to the next question.
-        4. TONE: Professional, encouraging, but rigorous.
-        5. INITIALIZATION: Start by briefly introducing yourself as "CareerCraft AI Interviewer" and ask the candidate to introduce themselves.
-      `;
+            const systemInstruction = renderPrompt('liveInterview', {
+                resumeSummary: resumeAnalysis?.summary,
+                skills: resumeAnalysis?.skills
+            }).text;
 
             const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
             const inputCtx = new AudioContextClass();
@@ -283,13 +270,13 @@ const LiveInterview: React.FC<LiveInterviewProps> = ({ resumeAnalysis }) => {
         setIsGeneratingReport(true);
         try {
             const fullText = transcripts.map(t => `${t.role.toUpperCase()}: ${t.text}`).join('\n');
-            const data = await generateInterviewReport(fullText);
+            const data = await generateInterviewReport(fullText, { signal: getSignal() });
             setReport(data);
         } catch (err) {
-            console.error(err);
-            setError("Failed to generate report");
+            if (isCancelled(err)) return;
+            setError(toAiError(err).message);
         } finally {
-            setIsGeneratingReport(false);
+            if (!getSignal().aborted) setIsGeneratingReport(false);
         }
     };
 
@@ -1,30 +1,53 @@
 import React, { useState } from 'react';
-import { Search, Globe, ArrowRight, BookOpen, Loader2 } from 'lucide-react';
-import { getMarketInsights } from '../services/gemini';
+import { Search, Globe, ArrowRight, BookOpen, Loader2, Square } from 'lucide-react';
+import { streamMarketInsights } from '../services/gemini';
+import { AiError, isCancelled, toAiError } from '../services/aiErrors';
 import { InsightResult } from '../types';
 import ReactMarkdown from 'react-markdown';
 import { motion } from 'framer-motion';
 import { Card, Button, Input } from './ui/DesignSystem';
+import { AiErrorNotice } from './ui/AiErrorNotice';
 import { containerVariants, itemVariants } from '../lib/utils';
+import { useStoppableRequest } from '../lib/useAbortOnUnmount';
 
 const MarketInsights: React.FC = () => {
   const [query, setQuery] = useState('');
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<InsightResult | null>(null);
+  const [error, setError] = useState<AiError | null>(null);
+  const { start, stop } = useStoppableRequest();
 
-  const handleSearch = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const runSearch = async () => {
     if (!query.trim()) return;
+    const signal = start();
     setLoading(true);
     setResult(null);
+    setError(null);
     try {
-      const data = await getMarketInsights(query);
-      setResult(data);
+      let text = '';
+      for await (const chunk of streamMarketInsights(query, { signal })) {
+        text += chunk.text;
+        setResult({ text, sources: chunk.sources });
+      }
+      if (!text) setResult({ text: "No insights found.", sources: [] });
+    } catch (err) {
+      if (isCancelled(err)) return;
+      setError(toAiError(err));
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
+  const handleStop = () => {
+    stop();
+    setLoading(false);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    runSearch();
+  };
+
   return (
     <motion.div variants={containerVariants} initial="hidden" animate="visible" className="max-w-4xl mx-auto flex flex-col h-full min-h-[500px]">
       <div className="text-center mb-10 space-y-3">
@@ -43,13 +66,21 @@ const MarketInsights: React.FC = () => {
             className="w-full bg-white border border-slate-300 text-slate-900 pl-12 pr-32 py-4 rounded-xl shadow-lg shadow-slate-200/50 focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500 transition-all text-lg placeholder:text-slate-400"
           />
           <div className="absolute right-2 top-2 bottom-2">
-            <Button type="submit" disabled={loading || !query.trim()} className="h-full rounded-lg px-6 shadow-md shadow-brand-600/20">
-              {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Research"}
-            </Button>
+            {loading ? (
+              <Button type="button" variant="secondary" onClick={handleStop} className="h-full rounded-lg px-6">
+                <Square className="w-3.5 h-3.5 mr-2 fill-current" /> Stop
+              </Button>
+            ) : (
+              <Button type="submit" disabled={!query.trim()} className="h-full rounded-lg px-6 shadow-md shadow-brand-600/20">
+                Research
+              </Button>
+            )}
           </div>
         </div>
       </form>
 
+      <AiErrorNotice error={error} onRetry={runSearch} className="mb-8" />
+
       {result ? (
         <motion.div variants={itemVariants} className="space-y-6">
           <Card className="p-8 border-slate-200 bg-white shadow-md">
@@ -81,7 +112,11 @@ const MarketInsights: React.FC = () => {
             </div>
           )}
         </motion.div>
-      ) : !loading && (
+      ) : loading ? (
+        <div className="flex-1 flex items-center justify-center gap-2 text-slate-500 py-12">
+          <Loader2 className="w-5 h-5 animate-spin" /> Researching...
+        </div>
+      ) : (
         <div className="flex-1 flex flex-col items-center justify-center text-slate-400 space-y-4 opacity-50 py-12">
           <BookOpen className="w-16 h-16 stroke-1" />
           <p>Enter a query above to start researching.</p>
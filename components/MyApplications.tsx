@@ -1,6 +1,6 @@
 import React from 'react';
-import { Calendar, MapPin, DollarSign, Building, ExternalLink, Clock, CheckCircle, Crown, XCircle, Video, Briefcase } from 'lucide-react';
-import { Application, Job, UserRole } from '../types';
+import { Calendar, MapPin, DollarSign, Building, ExternalLink, Clock, CheckCircle, Crown, XCircle, Video, Briefcase, Target, Sparkles, X } from 'lucide-react';
+import { Application, Job, PracticeTarget, UserRole } from '../types';
 import { motion } from 'framer-motion';
 import { Card, Badge, Button } from './ui/DesignSystem';
 import { containerVariants, itemVariants, cn } from '../lib/utils';
@@ -9,9 +9,11 @@ interface MyApplicationsProps {
   applications: Application[];
   jobs: Job[];
   userEmail: string;
+  practiceTargets?: PracticeTarget[];
+  onRemovePracticeTarget?: (target: PracticeTarget) => void;
 }
 
-const MyApplications: React.FC<MyApplicationsProps> = ({ applications, jobs, userEmail }) => {
+const MyApplications: React.FC<MyApplicationsProps> = ({ applications, jobs, userEmail, practiceTargets = [], onRemovePracticeTarget }) => {
   const myApps = applications.filter(app => app.candidateEmail === userEmail);
 
   return (
@@ -134,7 +136,7 @@ const MyApplications: React.FC<MyApplicationsProps> = ({ applications, jobs, use
                         ) : app.status === 'Rejected' ? (
                           <div className="bg-slate-50 border border-slate-200 rounded-lg p-4 flex items-center gap-3 text-slate-500 text-sm">
                             <XCircle className="w-5 h-5 text-slate-400" />
-                            <p>Application closed.</p>
+                            <p>{job?.status === 'closed' ? 'The employer closed this position.' : 'Application closed.'}</p>
                           </div>
                         ) : (
                           <div className="bg-slate-50 border border-slate-200 rounded-lg p-4 flex items-center gap-3 text-slate-500 text-sm">
@@ -152,6 +154,37 @@ const MyApplications: React.FC<MyApplicationsProps> = ({ applications, jobs, use
           })}
         </div>
       )}
+
+      {practiceTargets.length > 0 && (
+        <section className="space-y-3">
+          <div>
+            <h2 className="text-lg font-bold text-slate-900 font-display flex items-center gap-2">
+              <Target className="w-5 h-5 text-slate-400" /> Practice Targets
+            </h2>
+            <p className="text-sm text-slate-500">AI sample jobs you saved to practice tailoring, cover letters and interviews. They aren't real openings.</p>
+          </div>
+          {practiceTargets.map(target => (
+            <motion.div key={target.id} variants={itemVariants}>
+              <Card className="p-4 border-dashed bg-slate-50/60 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold text-slate-900 truncate">{target.job.title}</h3>
+                    <Badge variant="warning" className="gap-1"><Sparkles className="w-3 h-3" /> AI sample</Badge>
+                  </div>
+                  <p className="text-sm text-slate-500 truncate">
+                    {target.job.company} · {target.job.location} · Saved {new Date(target.savedAt).toLocaleDateString()}
+                  </p>
+                </div>
+                {onRemovePracticeTarget && (
+                  <Button variant="ghost" size="sm" onClick={() => onRemovePracticeTarget(target)} className="text-slate-400 hover:text-red-600" aria-label={`Remove ${target.job.title}`}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </Card>
+            </motion.div>
+          ))}
+        </section>
+      )}
     </motion.div>
   );
 };
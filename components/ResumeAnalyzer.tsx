@@ -1,31 +1,126 @@
 import React, { useState } from 'react';
-import { Upload, FileText, CheckCircle, AlertCircle, Loader2, Award, Zap, TrendingUp, Lightbulb, ChevronRight, Hash, Clock, File, Download, Trash2 } from 'lucide-react';
+import { Upload, FileText, CheckCircle, AlertCircle, Loader2, Award, Zap, TrendingUp, Lightbulb, ChevronRight, Hash, Clock, File, Download, Trash2, GitCompare, Check, Star, Pencil, Wand2, X, ShieldCheck } from 'lucide-react';
 import { analyzeResume, generateImprovementExample } from '../services/gemini';
-import { ResumeAnalysis, SavedResume } from '../types';
+import { AiError, isCancelled, toAiError } from '../services/aiErrors';
+import { ResumeAnalysis, ResumeHealthFinding, SavedResume } from '../types';
 import { Button, Card } from './ui/DesignSystem';
+import { AiErrorNotice } from './ui/AiErrorNotice';
 import { cn } from '../lib/utils';
+import { useAbortOnUnmount, useStoppableRequest } from '../lib/useAbortOnUnmount';
+import { extractResumeText, ResumeExtractionError, ResumeTextFormat, resumeTextFormat, RESUME_FILE_ACCEPT } from '../services/resumeText';
+import ResumeCompare from './ResumeCompare';
+import ResumeEditor from './ResumeEditor';
+import { scoreResume } from '../lib/atsScore';
+import { checkResumeHealth, describeHealthFinding } from '../services/resumeHealth';
+import { deleteResumeFile, downloadResumeFile, hasResumeFileContent, uploadResumeFile } from '../services/resumeFiles';
+
+const FORMAT_LABELS: Record<ResumeTextFormat | 'pdf', string> = {
+  pdf: 'PDF Document',
+  docx: 'Word Document',
+  rtf: 'Rich Text Document',
+  md: 'Markdown File',
+  txt: 'Text File'
+};
+
+const uploadFailedMessage = (fileName: string) =>
+  `We couldn't keep a copy of ${fileName}, so it can't be downloaded later. The analysis was saved.`;
 
 interface ResumeAnalyzerProps {
+  /** Owner of uploaded files. Without it the original file isn't kept, only the analysis. */
+  userId?: string;
   analysisResult: ResumeAnalysis | null;
   onAnalysisComplete: (result: ResumeAnalysis) => void;
   onActivity: (title: string, meta: string) => void;
   savedResumes?: SavedResume[];
   onLoadResume?: (resume: SavedResume) => void;
-  onDeleteResume?: (id: string, storagePath?: string) => void;
+  onDeleteResume?: (resume: SavedResume) => void;
+  /** The resume other features use; changing it here changes it everywhere. */
+  primaryResumeId?: string;
+  onSetPrimaryResume?: (resume: SavedResume) => void;
+  onRenameResume?: (resume: SavedResume, label: string) => void;
 }
 
 const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
+  userId,
   analysisResult,
   onAnalysisComplete,
   onActivity,
   savedResumes = [],
   onLoadResume,
-  onDeleteResume
+  onDeleteResume,
+  primaryResumeId,
+  onSetPrimaryResume,
+  onRenameResume
 }) => {
   const [file, setFile] = useState<File | null>(null);
   const [preview, setPreview] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AiError | null>(null);
+  const getSignal = useAbortOnUnmount();
+
+  // Text pulled out of DOCX/RTF/MD/TXT uploads, which is what gets analyzed for those formats
+  const [extractedText, setExtractedText] = useState<string | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  // Reading a file is superseded by picking another one, or by leaving the page
+  const fileReading = useStoppableRequest();
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  // Layout problems found in the file itself; they're kept with the analysis, apart from the AI's findings
+  const [healthFindings, setHealthFindings] = useState<ResumeHealthFinding[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+
+  // Inline label editing in the History list
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [labelDraft, setLabelDraft] = useState('');
+
+  const startRename = (resume: SavedResume) => {
+    setRenamingId(resume.id);
+    setLabelDraft(resume.label || '');
+  };
+
+  const commitRename = (resume: SavedResume) => {
+    if ((resume.label || '') !== labelDraft.trim()) {
+      onRenameResume?.(resume, labelDraft);
+    }
+    setRenamingId(null);
+  };
+
+  // Saved entry for the analysis that's open, if it has been saved
+  const openResume = savedResumes.find(r => r.data === analysisResult);
+
+  // Deterministic counterpart to the AI score; it needs the structured profile to check sections
+  const keywordScore = analysisResult?.profile ? scoreResume(analysisResult) : null;
+
+  // Compare mode: the History list picks two versions instead of loading one
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const compared = compareIds
+    .map(id => savedResumes.find(r => r.id === id))
+    .filter((r): r is SavedResume => !!r && !!r.data);
+  const showComparison = compareMode && compared.length === 2;
+
+  const toggleCompareMode = () => {
+    setCompareMode(prev => !prev);
+    setCompareIds([]);
+  };
+
+  // Picking a third version replaces the one picked first
+  const toggleCompared = (id: string) => {
+    setCompareIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id].slice(-2));
+  };
+
+  // Resume editor, and the score before the last edited version was re-scored
+  const [isEditing, setIsEditing] = useState(false);
+  const [rescore, setRescore] = useState<{ before: number; analysis: ResumeAnalysis } | null>(null);
+
+  const handleRescored = (analysis: ResumeAnalysis, uploadFailed?: boolean) => {
+    if (analysisResult) setRescore({ before: analysisResult.score, analysis });
+    setIsEditing(false);
+    setDownloadError(uploadFailed && analysis.file ? uploadFailedMessage(analysis.file.name) : null);
+    onAnalysisComplete(analysis);
+    onActivity("Resume Edited", `Re-scored ${analysisResult?.score ?? '-'} → ${analysis.score}/100`);
+  };
 
   // Interactive example state
   const [activeExampleIndex, setActiveExampleIndex] = useState<number | null>(null);
@@ -39,6 +134,40 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
       setExamples({});
       setActiveExampleIndex(null);
       setError(null);
+      setExtractedText(null);
+      setFileError(null);
+      setIsExtracting(false);
+      setHealthFindings([]);
+      const signal = fileReading.start();
+
+      setIsChecking(true);
+      // The check is advisory: a file it can't parse is still analyzed, just without findings
+      checkResumeHealth(selectedFile)
+        .then(findings => {
+          if (!signal.aborted) setHealthFindings(findings);
+        })
+        .catch(() => {})
+        .finally(() => {
+          if (!signal.aborted) setIsChecking(false);
+        });
+
+      const textFormat = resumeTextFormat(selectedFile);
+      if (textFormat) {
+        setIsExtracting(true);
+        extractResumeText(selectedFile)
+          .then(text => {
+            if (!signal.aborted) setExtractedText(text);
+          })
+          .catch(err => {
+            if (signal.aborted) return;
+            setFileError(err instanceof ResumeExtractionError ? err.message : `We couldn't read ${selectedFile.name}.`);
+          })
+          .finally(() => {
+            if (!signal.aborted) setIsExtracting(false);
+          });
+      } else if (!/pdf|png|jpe?g/.test(selectedFile.type)) {
+        setFileError("Unsupported file type. Upload a PDF, Word (.docx), RTF, Markdown, text or image file.");
+      }
 
       const reader = new FileReader();
       reader.onloadend = () => {
@@ -49,32 +178,62 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
   };
 
   const handleAnalyze = async () => {
-    if (!file || !preview) return;
+    if (!file || !preview || isExtracting || isChecking || fileError) return;
 
     setIsAnalyzing(true);
     setError(null);
+    setDownloadError(null);
 
     try {
-      const base64Data = preview.split(',')[1];
-      const analysis = await analyzeResume(base64Data, file.type);
+      const source = extractedText ? { text: extractedText } : { data: preview.split(',')[1], mimeType: file.type };
+      // Upload alongside the analysis. A failed upload only costs the download link, so it
+      // doesn't fail the analysis.
+      const upload = userId
+        ? uploadResumeFile(userId, file).catch(() => {
+          setDownloadError(uploadFailedMessage(file.name));
+          return undefined;
+        })
+        : Promise.resolve(undefined);
+
+      let analysis;
+      try {
+        analysis = await analyzeResume(source, { signal: getSignal() });
+      } catch (err) {
+        // Nothing will reference the upload, so don't leave it orphaned in the bucket
+        upload.then(path => path ? deleteResumeFile(path) : undefined).catch(() => {});
+        throw err;
+      }
+      const storagePath = await upload;
 
+      // Only the storage path is kept; the contents never go into resume or application rows
       const fullAnalysis: ResumeAnalysis = {
         ...analysis,
+        formattingIssues: healthFindings,
         file: {
           name: file.name,
           type: file.type,
           size: file.size,
-          data: base64Data
+          storagePath,
+          extractedText: extractedText || undefined
         }
       };
 
       onAnalysisComplete(fullAnalysis);
       onActivity("Resume Analysis", `Scored ${analysis.score}/100`);
-    } catch (err: any) {
-      console.error(err);
-      setError(err.message || "Failed to analyze resume. Please ensure it's a clear file.");
+    } catch (err) {
+      if (isCancelled(err)) return;
+      setError(toAiError(err));
     } finally {
-      setIsAnalyzing(false);
+      if (!getSignal().aborted) setIsAnalyzing(false);
+    }
+  };
+
+  const handleDownload = async (resumeFile: NonNullable<ResumeAnalysis['file']>) => {
+    setDownloadError(null);
+    try {
+      await downloadResumeFile(resumeFile);
+    } catch {
+      setDownloadError(`Couldn't download ${resumeFile.name}. It may have been deleted.`);
     }
   };
 
@@ -88,12 +247,13 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
     if (!examples[index]) {
       setExampleLoading(true);
       try {
-        const example = await generateImprovementExample(improvement, analysisResult?.summary || "General Context");
+        const example = await generateImprovementExample(improvement, analysisResult?.summary || "General Context", { signal: getSignal() });
         setExamples(prev => ({ ...prev, [index]: example }));
       } catch (err) {
+        if (isCancelled(err)) return;
         setExamples(prev => ({ ...prev, [index]: "Could not generate example." }));
       } finally {
-        setExampleLoading(false);
+        if (!getSignal().aborted) setExampleLoading(false);
       }
     }
   };
@@ -105,10 +265,31 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
       <div className="w-full lg:w-72 flex-none space-y-4">
         <Card className="h-full bg-white border-slate-200 p-0 overflow-hidden flex flex-col max-h-[600px] lg:max-h-full">
           <div className="p-4 border-b border-slate-100 bg-slate-50">
-            <h3 className="font-bold text-slate-900 flex items-center gap-2">
-              <Clock className="w-4 h-4 text-slate-500" />
-              History
-            </h3>
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="font-bold text-slate-900 flex items-center gap-2">
+                <Clock className="w-4 h-4 text-slate-500" />
+                History
+              </h3>
+              {savedResumes.length >= 2 && (
+                <button
+                  onClick={toggleCompareMode}
+                  className={cn(
+                    "text-xs font-semibold flex items-center gap-1 px-2 py-1 rounded-md border transition-colors",
+                    compareMode
+                      ? "bg-brand-600 text-white border-brand-600"
+                      : "bg-white text-slate-600 border-slate-200 hover:text-brand-600 hover:border-brand-200"
+                  )}
+                >
+                  <GitCompare className="w-3 h-3" />
+                  {compareMode ? 'Done' : 'Compare'}
+                </button>
+              )}
+            </div>
+            {compareMode && (
+              <p className="text-xs text-slate-500 mt-2">
+                {compared.length < 2 ? `Pick ${2 - compared.length} version${compared.length === 1 ? '' : 's'} to compare.` : 'Pick another version to swap it in.'}
+              </p>
+            )}
           </div>
           <div className="overflow-y-auto flex-1 p-2 space-y-1">
             {savedResumes.length === 0 ? (
@@ -118,12 +299,21 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
             ) : (
               savedResumes.map((resume) => {
                 if (!resume.data) return null; // Safety check for bad data
-                const isSelected = analysisResult && analysisResult.summary === resume.data.summary;
+                const isSelected = compareMode
+                  ? compareIds.includes(resume.id)
+                  : analysisResult && analysisResult.summary === resume.data.summary;
 
                 return (
                   <div
                     key={resume.id}
-                    onClick={() => onLoadResume && onLoadResume(resume)}
+                    onClick={() => {
+                      if (renamingId === resume.id) return;
+                      if (compareMode) toggleCompared(resume.id);
+                      else {
+                        setIsEditing(false);
+                        onLoadResume?.(resume);
+                      }
+                    }}
                     className={cn(
                       "w-full text-left p-3 rounded-lg text-sm transition-all border cursor-pointer relative group",
                       isSelected
@@ -132,12 +322,33 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
                     )}
                   >
                     <div className="flex items-start gap-3">
-                      <div className="mt-1 w-8 h-8 rounded bg-white border border-slate-200 flex items-center justify-center text-slate-400 flex-none">
-                        <File className="w-4 h-4" />
+                      <div className={cn(
+                        "mt-1 w-8 h-8 rounded border flex items-center justify-center flex-none",
+                        compareMode && isSelected ? "bg-brand-600 border-brand-600 text-white" : "bg-white border-slate-200 text-slate-400"
+                      )}>
+                        {compareMode && isSelected ? <Check className="w-4 h-4" /> : <File className="w-4 h-4" />}
                       </div>
                       <div className="min-w-0 flex-1">
-                        <p className="font-semibold truncate pr-6">{resume.data.file?.name || "Resume"}</p>
-                        <p className="text-xs opacity-70 mt-0.5">
+                        {renamingId === resume.id ? (
+                          <input
+                            autoFocus
+                            value={labelDraft}
+                            placeholder={resume.data.file?.name || "Resume"}
+                            onChange={(e) => setLabelDraft(e.target.value)}
+                            onClick={(e) => e.stopPropagation()}
+                            onBlur={() => commitRename(resume)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') commitRename(resume);
+                              if (e.key === 'Escape') setRenamingId(null);
+                            }}
+                            maxLength={60}
+                            className="w-full px-2 py-1 -ml-1 text-sm font-semibold text-slate-900 bg-white border border-brand-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-500/20"
+                          />
+                        ) : (
+                          <p className="font-semibold truncate pr-6">{resume.label || resume.data.file?.name || "Resume"}</p>
+                        )}
+                        <p className="text-xs opacity-70 mt-0.5 truncate">
+                          {resume.label && resume.data.file?.name ? `${resume.data.file.name} · ` : ''}
                           {new Date(resume.created_at).toLocaleDateString()}
                         </p>
                         <div className="mt-1 flex items-center gap-2">
@@ -148,24 +359,60 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
                           )}>
                             Score: {resume.data.score}
                           </span>
+                          {resume.id === primaryResumeId && (
+                            <span className="text-[10px] px-1.5 py-0.5 rounded-full font-bold bg-brand-100 text-brand-700 flex items-center gap-1" title="Used for job matches, cover letters, interviews and applications">
+                              <Star className="w-2.5 h-2.5 fill-current" /> Primary
+                            </span>
+                          )}
+                          {resume.jobId && (
+                            <span className="text-[10px] px-1.5 py-0.5 rounded-full font-bold bg-purple-100 text-purple-700" title="Tailored for one job and attached when you apply there">
+                              Tailored
+                            </span>
+                          )}
                         </div>
                       </div>
                     </div>
 
                     {/* Action Buttons */}
-                    <div className="absolute right-2 top-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <div className={cn("absolute right-2 top-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity", (compareMode || renamingId === resume.id) && "hidden")}>
+                      {onSetPrimaryResume && resume.id !== primaryResumeId && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onSetPrimaryResume(resume);
+                          }}
+                          className="p-1.5 bg-white border border-slate-200 rounded-md shadow-sm hover:text-brand-600 hover:border-brand-200"
+                          title="Set as Primary"
+                        >
+                          <Star className="w-3 h-3" />
+                        </button>
+                      )}
+
+                      {onRenameResume && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            startRename(resume);
+                          }}
+                          className="p-1.5 bg-white border border-slate-200 rounded-md shadow-sm hover:text-brand-600 hover:border-brand-200"
+                          title="Rename"
+                        >
+                          <Pencil className="w-3 h-3" />
+                        </button>
+                      )}
+
                       {/* Download button for stored files */}
-                      {resume.data.file?.url && (
-                        <a
-                          href={resume.data.file.url}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          onClick={(e) => e.stopPropagation()}
+                      {resume.data.file && hasResumeFileContent(resume.data.file) && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDownload(resume.data.file!);
+                          }}
                           className="p-1.5 bg-white border border-slate-200 rounded-md shadow-sm hover:text-brand-600 hover:border-brand-200"
                           title="Download Original"
                         >
                           <Download className="w-3 h-3" />
-                        </a>
+                        </button>
                       )}
 
                       {/* Delete Button */}
@@ -173,8 +420,10 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
                         <button
                           onClick={(e) => {
                             e.stopPropagation();
-                            if (confirm('Are you sure you want to delete this resume?')) {
-                              onDeleteResume(resume.id, resume.data.file?.storagePath);
+                            if (confirm(resume.id === primaryResumeId
+                              ? 'This is your primary resume. Delete it? Your newest remaining resume will be used instead.'
+                              : 'Are you sure you want to delete this resume?')) {
+                              onDeleteResume(resume);
                             }
                           }}
                           className="p-1.5 bg-white border border-slate-200 rounded-md shadow-sm hover:text-red-600 hover:border-red-200"
@@ -189,6 +438,12 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
               })
             )}
           </div>
+          {downloadError && (
+            <div className="p-3 border-t border-red-100 bg-red-50 text-xs text-red-600 flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 flex-none" />
+              <p>{downloadError}</p>
+            </div>
+          )}
         </Card>
       </div>
 
@@ -201,25 +456,29 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
           </p>
         </div>
 
-        {!analysisResult && (
+        {showComparison && (
+          <ResumeCompare first={compared[0]} second={compared[1]} onClose={toggleCompareMode} />
+        )}
+
+        {!analysisResult && !showComparison && (
           <div className="bg-slate-900 rounded-2xl shadow-sm border-2 border-dashed border-slate-700 p-12 text-center transition-all hover:border-brand-500 hover:bg-slate-900/80 group max-w-3xl mx-auto lg:mx-0">
             <input
               type="file"
               id="resume-upload"
               className="hidden"
-              accept="image/png, image/jpeg, image/jpg, application/pdf"
+              accept={RESUME_FILE_ACCEPT}
               onChange={handleFileChange}
             />
             <label htmlFor="resume-upload" className="cursor-pointer flex flex-col items-center gap-4">
               {preview ? (
                 <div className="relative group-hover:opacity-90 transition-opacity">
-                  {file?.type === 'application/pdf' ? (
+                  {file && !file.type.startsWith('image/') ? (
                     <div className="w-64 h-64 bg-slate-950 rounded-lg border border-slate-700 flex flex-col items-center justify-center p-4 shadow-lg">
-                      <FileText className="w-16 h-16 text-red-500 mb-4" />
+                      <FileText className={cn("w-16 h-16 mb-4", resumeTextFormat(file) === 'docx' ? "text-blue-500" : "text-red-500")} />
                       <p className="text-sm font-medium text-slate-300 text-center break-all line-clamp-3">
                         {file.name}
                       </p>
-                      <p className="text-xs text-slate-500 mt-2">PDF Document</p>
+                      <p className="text-xs text-slate-500 mt-2">{FORMAT_LABELS[resumeTextFormat(file) || 'pdf']}</p>
                     </div>
                   ) : (
                     <img src={preview} alt="Resume Preview" className="h-64 object-contain shadow-lg rounded-lg border border-slate-800" />
@@ -237,12 +496,48 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
               {!preview && (
                 <>
                   <h3 className="text-xl font-semibold text-white">Click to Upload Resume</h3>
-                  <p className="text-slate-500 text-sm">Supports PDF, JPG, PNG (Max 5MB)</p>
+                  <p className="text-slate-500 text-sm">Supports PDF, Word (.docx), RTF, Markdown, TXT, JPG, PNG (Max 5MB)</p>
                 </>
               )}
             </label>
 
-            {file && !isAnalyzing && (
+            {(isExtracting || isChecking) && (
+              <div className="mt-8 flex items-center justify-center gap-2 text-slate-400 text-sm">
+                <Loader2 className="w-4 h-4 animate-spin" /> Reading document...
+              </div>
+            )}
+
+            {fileError && (
+              <div className="mt-6 max-w-lg mx-auto flex items-start gap-3 p-4 rounded-lg border border-red-900/50 bg-red-950/40 text-left text-sm text-red-300">
+                <AlertCircle className="w-5 h-5 flex-none" />
+                <p>{fileError}</p>
+              </div>
+            )}
+
+            {healthFindings.length > 0 && !fileError && (
+              <div className="mt-8 max-w-2xl mx-auto text-left">
+                <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Formatting checks</p>
+                <ul className="space-y-2 bg-slate-950 border border-slate-800 rounded-lg p-4">
+                  {healthFindings.map((finding, i) => (
+                    <li key={i} className={cn("flex gap-3 text-sm", finding.severity === 'high' ? "text-red-300" : "text-amber-300")}>
+                      <AlertCircle className="w-4 h-4 flex-none mt-0.5" />
+                      {describeHealthFinding(finding)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {extractedText && (
+              <div className="mt-8 max-w-2xl mx-auto text-left">
+                <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Text the analyzer will read</p>
+                <pre className="max-h-64 overflow-y-auto whitespace-pre-wrap bg-slate-950 border border-slate-800 rounded-lg p-4 text-xs text-slate-300 font-mono">
+                  {extractedText}
+                </pre>
+              </div>
+            )}
+
+            {file && !isAnalyzing && !isExtracting && !isChecking && !fileError && (
               <div className="mt-8">
                 <button
                   onClick={handleAnalyze}
@@ -261,29 +556,64 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
               </div>
             )}
 
-            {error && (
-              <div className="mt-6 p-4 bg-red-900/20 border border-red-500/50 rounded-xl text-red-200 text-sm max-w-lg mx-auto">
-                <p className="font-bold flex items-center justify-center gap-2 mb-1"><AlertCircle className="w-4 h-4" /> Analysis Failed</p>
-                <p>{error}</p>
-              </div>
-            )}
+            <AiErrorNotice
+              error={error}
+              onRetry={handleAnalyze}
+              variant="dark"
+              className="mt-6 max-w-lg mx-auto"
+            />
           </div>
         )}
 
-        {analysisResult && (
+        {analysisResult && analysisResult.profile && isEditing && !showComparison && (
+          <ResumeEditor
+            analysis={analysisResult}
+            userId={userId}
+            onClose={() => setIsEditing(false)}
+            onRescored={handleRescored}
+          />
+        )}
+
+        {analysisResult && !isEditing && !showComparison && (
           <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
 
+            {rescore && rescore.analysis === analysisResult && (
+              <div className="flex items-center gap-3 p-4 rounded-xl border border-brand-200 bg-brand-50 text-sm text-brand-800">
+                <TrendingUp className="w-5 h-5 flex-none" />
+                <p className="flex-1">
+                  Your edited resume scored <strong>{analysisResult.score}</strong> (was {rescore.before}).
+                  {analysisResult.score <= rescore.before && ' No gain this time. Try accepting more of the suggested edits.'}
+                </p>
+                <button onClick={() => setRescore(null)} className="p-1 text-brand-600 hover:text-brand-900" title="Dismiss">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+
             {/* Action Bar for New Upload */}
             <div className="flex justify-end gap-2">
-              {analysisResult.file?.url && (
-                <a
-                  href={analysisResult.file.url}
-                  target="_blank"
-                  rel="noopener noreferrer"
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsEditing(true)}
+                disabled={!analysisResult.profile}
+                title={analysisResult.profile ? undefined : 'Re-analyze this resume to edit it here'}
+                className="gap-2"
+              >
+                <Wand2 className="w-4 h-4" /> Edit & Apply
+              </Button>
+              {openResume && onSetPrimaryResume && openResume.id !== primaryResumeId && (
+                <Button variant="outline" size="sm" onClick={() => onSetPrimaryResume(openResume)} className="gap-2">
+                  <Star className="w-4 h-4" /> Use as Primary
+                </Button>
+              )}
+              {analysisResult.file && hasResumeFileContent(analysisResult.file) && (
+                <button
+                  onClick={() => handleDownload(analysisResult.file!)}
                   className="inline-flex items-center justify-center font-semibold transition-all duration-200 rounded-full px-4 py-1.5 text-xs bg-white text-slate-700 hover:text-brand-700 hover:border-brand-200 border border-slate-200 shadow-sm"
                 >
                   <Download className="w-3 h-3 mr-2" /> Download Original
-                </a>
+                </button>
               )}
               <Button
                 variant="outline"
@@ -293,6 +623,8 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
                   onAnalysisComplete(null as any);
                   setFile(null);
                   setPreview(null);
+                  setExtractedText(null);
+                  setFileError(null);
                 }}
                 className="gap-2"
               >
@@ -322,6 +654,29 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
                   <span className="bg-brand-900/30 text-brand-400 border border-brand-900/50 px-3 py-0.5 rounded-full text-sm font-semibold">AI Generated</span>
                 </div>
                 <p className="text-slate-400 leading-relaxed">{analysisResult.summary}</p>
+
+                {keywordScore && (
+                  <div className="pt-4 mt-4 border-t border-slate-800">
+                    <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm">
+                      <ShieldCheck className="w-4 h-4 text-slate-400" />
+                      <span className="font-semibold text-white">Keyword check: {keywordScore.score}/100</span>
+                      <span className="text-xs text-slate-500">Calculated locally, so it doesn't change between runs</span>
+                    </div>
+                    <div className="flex flex-wrap gap-2 mt-3">
+                      {keywordScore.completeness.checks.map(check => (
+                        <span key={check.label} className={cn(
+                          "text-xs px-2 py-1 rounded-md border flex items-center gap-1",
+                          check.passed ? "border-emerald-900/50 text-emerald-400" : "border-slate-700 text-slate-500"
+                        )}>
+                          {check.passed ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />} {check.label}
+                        </span>
+                      ))}
+                      <span className="text-xs px-2 py-1 rounded-md border border-slate-700 text-slate-400">
+                        Experience recency {keywordScore.recency}%
+                      </span>
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -358,6 +713,24 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
                 </ul>
               </div>
 
+              {/* Formatting problems found in the uploaded file */}
+              {analysisResult.formattingIssues && analysisResult.formattingIssues.length > 0 && (
+                <div className="bg-slate-900 rounded-xl shadow-sm border border-slate-800 p-6">
+                  <div className="flex items-center gap-2 mb-4 text-red-400">
+                    <FileText className="w-6 h-6" />
+                    <h3 className="font-bold text-lg text-white">Formatting Issues</h3>
+                  </div>
+                  <ul className="space-y-3">
+                    {analysisResult.formattingIssues.map((finding, i) => (
+                      <li key={i} className="flex gap-3 text-slate-300 text-sm">
+                        <span className={cn("flex-none w-1.5 h-1.5 rounded-full mt-2", finding.severity === 'high' ? "bg-red-500" : "bg-amber-500")} />
+                        {describeHealthFinding(finding)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Improvements with Interactive Examples */}
               <div className="bg-slate-900 rounded-xl shadow-sm border border-slate-800 p-6">
                 <div className="flex items-center gap-2 mb-4 text-brand-400">
@@ -422,6 +795,20 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
               </div>
 
             </div>
+
+            {analysisResult.file?.extractedText && (
+              <details className="bg-slate-900 rounded-xl shadow-sm border border-slate-800 p-6 group">
+                <summary className="cursor-pointer list-none flex items-center gap-2 text-slate-300">
+                  <FileText className="w-5 h-5 text-slate-400" />
+                  <span className="font-bold text-white">Text the analyzer read</span>
+                  <span className="text-xs text-slate-500">from {analysisResult.file.name}</span>
+                  <ChevronRight className="w-4 h-4 ml-auto transition-transform group-open:rotate-90" />
+                </summary>
+                <pre className="mt-4 max-h-96 overflow-y-auto whitespace-pre-wrap bg-slate-950 border border-slate-800 rounded-lg p-4 text-xs text-slate-300 font-mono">
+                  {analysisResult.file.extractedText}
+                </pre>
+              </details>
+            )}
           </div>
         )}
       </div>
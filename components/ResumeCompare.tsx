@@ -0,0 +1,125 @@
+import React from 'react';
+import { ArrowRight, CheckCircle, AlertCircle, Hash, X, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { SavedResume } from '../types';
+import { chronological, compareResumes, ListDiff } from '../lib/resumeDiff';
+import { cn } from '../lib/utils';
+
+interface ResumeCompareProps {
+  first: SavedResume;
+  second: SavedResume;
+  onClose: () => void;
+}
+
+const versionLabel = (resume: SavedResume) =>
+  `${resume.label || resume.data.file?.name || 'Resume'} · ${new Date(resume.created_at).toLocaleDateString()}`;
+
+const DiffList = ({ title, icon, diff, addedLabel, removedLabel, addedIsGood }: {
+  title: string;
+  icon: React.ReactNode;
+  diff: ListDiff;
+  addedLabel: string;
+  removedLabel: string;
+  /** Gaining strengths or skills is good; gaining weaknesses isn't. */
+  addedIsGood: boolean;
+}) => (
+  <div className="bg-slate-900 rounded-xl shadow-sm border border-slate-800 p-6">
+    <div className="flex items-center gap-2 mb-4">
+      {icon}
+      <h3 className="font-bold text-lg text-white">{title}</h3>
+    </div>
+    {diff.added.length === 0 && diff.removed.length === 0 ? (
+      <p className="text-slate-500 text-sm italic">No changes.</p>
+    ) : (
+      <ul className="space-y-2 text-sm">
+        {diff.added.map((item, i) => (
+          <li key={`added-${i}`} className={cn("flex gap-2", addedIsGood ? "text-emerald-300" : "text-red-300")}>
+            <span className="flex-none font-mono font-bold" title={addedLabel}>+</span>
+            {item}
+          </li>
+        ))}
+        {diff.removed.map((item, i) => (
+          <li key={`removed-${i}`} className={cn("flex gap-2", addedIsGood ? "text-red-300" : "text-emerald-300")}>
+            <span className="flex-none font-mono font-bold" title={removedLabel}>-</span>
+            <span className="line-through decoration-slate-600">{item}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+/** Side-by-side diff of two saved resume analyses, always shown as older -> newer. */
+const ResumeCompare: React.FC<ResumeCompareProps> = ({ first, second, onClose }) => {
+  const [before, after] = chronological(first, second);
+  const comparison = compareResumes(before.data, after.data);
+  const { scoreDelta } = comparison;
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="bg-slate-900 rounded-2xl shadow-sm border border-slate-800 p-6">
+        <div className="flex items-start justify-between gap-4 mb-6">
+          <h3 className="text-2xl font-bold text-white">Compare Versions</h3>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white rounded-lg hover:bg-slate-800" title="Close comparison">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row items-center gap-6">
+          <div className="flex-1 min-w-0 text-center">
+            <p className="text-xs uppercase tracking-wider text-slate-500 mb-1">Before</p>
+            <p className="text-4xl font-bold text-slate-300">{before.data.score}</p>
+            <p className="text-xs text-slate-500 mt-2 truncate">{versionLabel(before)}</p>
+          </div>
+
+          <div className="flex flex-col items-center gap-2 flex-none">
+            <ArrowRight className="w-6 h-6 text-slate-600 hidden md:block" />
+            <span className={cn(
+              "inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm font-bold",
+              scoreDelta > 0 ? "bg-emerald-900/40 text-emerald-400" :
+                scoreDelta < 0 ? "bg-red-900/40 text-red-400" : "bg-slate-800 text-slate-400"
+            )}>
+              {scoreDelta > 0 ? <TrendingUp className="w-4 h-4" /> : scoreDelta < 0 ? <TrendingDown className="w-4 h-4" /> : <Minus className="w-4 h-4" />}
+              {scoreDelta > 0 ? `+${scoreDelta}` : scoreDelta}
+            </span>
+          </div>
+
+          <div className="flex-1 min-w-0 text-center">
+            <p className="text-xs uppercase tracking-wider text-slate-500 mb-1">After</p>
+            <p className="text-4xl font-bold text-white">{after.data.score}</p>
+            <p className="text-xs text-slate-500 mt-2 truncate">{versionLabel(after)}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <DiffList
+          title="Strengths"
+          icon={<CheckCircle className="w-6 h-6 text-green-400" />}
+          diff={comparison.strengths}
+          addedLabel="New strength"
+          removedLabel="No longer mentioned"
+          addedIsGood
+        />
+        <DiffList
+          title="ATS Gaps"
+          icon={<AlertCircle className="w-6 h-6 text-amber-400" />}
+          diff={comparison.weaknesses}
+          addedLabel="New gap"
+          removedLabel="Gap resolved"
+          addedIsGood={false}
+        />
+      </div>
+
+      <DiffList
+        title="Skills"
+        icon={<Hash className="w-6 h-6 text-purple-400" />}
+        diff={comparison.skills}
+        addedLabel="Skill gained"
+        removedLabel="Skill lost"
+        addedIsGood
+      />
+    </div>
+  );
+};
+
+export default ResumeCompare;
@@ -0,0 +1,328 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Check, X, Wand2, Loader2, FileDown, FileText, RefreshCw, Plus, TrendingUp } from 'lucide-react';
+import { analyzeResume, suggestResumeRewrite } from '../services/gemini';
+import { AiError, isCancelled, toAiError } from '../services/aiErrors';
+import { bytesToBase64 } from '../services/audioUtils';
+import { deleteResumeFile, uploadResumeFile } from '../services/resumeFiles';
+import { ResumeAnalysis, ResumeDraft, ResumeEditSuggestion, ResumeProfile } from '../types';
+import { applyEdit, createDraft, isApplicableEdit } from '../lib/resumeDraft';
+import { downloadBytes, DOCX_MIME_TYPE, exportFileStem, PDF_MIME_TYPE, resumeToDocx, resumeToPdf } from '../lib/resumeExport';
+import { formatDateRange } from '../lib/resumeProfile';
+import { useAbortOnUnmount } from '../lib/useAbortOnUnmount';
+import { Button } from './ui/DesignSystem';
+import { AiErrorNotice } from './ui/AiErrorNotice';
+import { cn } from '../lib/utils';
+
+interface ResumeEditorProps {
+  analysis: ResumeAnalysis;
+  /** Owner for the exported PDF. Without it the re-scored version keeps no file. */
+  userId?: string;
+  onClose: () => void;
+  /** The analysis of the exported PDF, with the file attached unless `uploadFailed`. */
+  onRescored: (analysis: ResumeAnalysis, uploadFailed?: boolean) => void;
+}
+
+interface PendingEdit {
+  id: string;
+  edit: ResumeEditSuggestion;
+}
+
+type ImprovementStatus = { state: 'loading' } | { state: 'done'; count: number } | { state: 'error'; message: string };
+
+const fieldClass = "w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-brand-500 focus:ring-2 focus:ring-brand-500/20 resize-y";
+
+const SuggestionCard = ({ pending, onAccept, onReject }: {
+  pending: PendingEdit;
+  onAccept: () => void;
+  onReject: () => void;
+}) => (
+  <div className="mt-2 p-3 rounded-lg border border-brand-900/60 bg-brand-900/20 text-sm animate-in slide-in-from-top-2">
+    <p className="text-slate-100">{pending.edit.suggested}</p>
+    <p className="text-xs text-slate-400 mt-1">{pending.edit.reason}</p>
+    <div className="flex gap-2 mt-2">
+      <button onClick={onAccept} className="text-xs font-semibold flex items-center gap-1 px-2 py-1 rounded-md bg-brand-600 text-white hover:bg-brand-500">
+        <Check className="w-3 h-3" /> Accept
+      </button>
+      <button onClick={onReject} className="text-xs font-semibold flex items-center gap-1 px-2 py-1 rounded-md border border-slate-700 text-slate-300 hover:text-white hover:border-slate-500">
+        <X className="w-3 h-3" /> Reject
+      </button>
+    </div>
+  </div>
+);
+
+/**
+ * Edits the structured resume behind an analysis. Each improvement can be turned into concrete
+ * rewrites that are accepted or rejected in place; the result exports to a single-column PDF or
+ * DOCX, and the PDF can be sent back through the analyzer for a new score.
+ */
+const ResumeEditor: React.FC<ResumeEditorProps> = ({ analysis, userId, onClose, onRescored }) => {
+  // The analyzer only opens the editor for analyses that have a profile
+  const [draft, setDraft] = useState<ResumeDraft>(() => createDraft(analysis)!);
+  const [pending, setPending] = useState<PendingEdit[]>([]);
+  const [statuses, setStatuses] = useState<Record<number, ImprovementStatus>>({});
+  const [newSkill, setNewSkill] = useState('');
+  const [isScoring, setIsScoring] = useState(false);
+  const [error, setError] = useState<AiError | null>(null);
+  const getSignal = useAbortOnUnmount();
+
+  // Accepting or typing over a field can make other suggestions for it moot
+  const visible = pending.filter(p => isApplicableEdit(draft, p.edit));
+  const editsWhere = (match: (edit: ResumeEditSuggestion) => boolean) => visible.filter(p => match(p.edit));
+
+  const updateProfile = (update: (profile: ResumeProfile) => ResumeProfile) =>
+    setDraft(prev => ({ ...prev, profile: update(prev.profile) }));
+
+  const updateHighlight = (roleIndex: number, highlightIndex: number, text: string) =>
+    updateProfile(profile => ({
+      ...profile,
+      experience: profile.experience.map((role, i) => i !== roleIndex ? role : {
+        ...role,
+        highlights: role.highlights.map((h, j) => j === highlightIndex ? text : h)
+      })
+    }));
+
+  const removeSkill = (name: string) =>
+    updateProfile(profile => ({ ...profile, skills: profile.skills.filter(s => s.name !== name) }));
+
+  const addSkill = () => {
+    const name = newSkill.trim();
+    if (name && !draft.profile.skills.some(s => s.name.toLowerCase() === name.toLowerCase())) {
+      updateProfile(profile => ({ ...profile, skills: [...profile.skills, { name }] }));
+    }
+    setNewSkill('');
+  };
+
+  const accept = (item: PendingEdit) => {
+    setDraft(prev => applyEdit(prev, item.edit));
+    setPending(prev => prev.filter(p => p.id !== item.id));
+  };
+
+  const reject = (item: PendingEdit) => setPending(prev => prev.filter(p => p.id !== item.id));
+
+  const handleSuggest = async (index: number, improvement: string) => {
+    setStatuses(prev => ({ ...prev, [index]: { state: 'loading' } }));
+    try {
+      const edits = (await suggestResumeRewrite(improvement, draft, { signal: getSignal() }))
+        .filter(edit => isApplicableEdit(draft, edit));
+      setPending(prev => [...prev, ...edits.map(edit => ({ id: crypto.randomUUID(), edit }))]);
+      setStatuses(prev => ({ ...prev, [index]: { state: 'done', count: edits.length } }));
+    } catch (err) {
+      if (isCancelled(err)) return;
+      setStatuses(prev => ({ ...prev, [index]: { state: 'error', message: toAiError(err).message } }));
+    }
+  };
+
+  const handleDownload = (format: 'pdf' | 'docx') => {
+    const stem = exportFileStem(draft);
+    if (format === 'pdf') downloadBytes(resumeToPdf(draft), `${stem}.pdf`, PDF_MIME_TYPE);
+    else downloadBytes(resumeToDocx(draft), `${stem}.docx`, DOCX_MIME_TYPE);
+  };
+
+  // Scores the exported PDF rather than the draft, so the score reflects what recruiters get
+  const handleRescore = async () => {
+    setIsScoring(true);
+    setError(null);
+
+    try {
+      const pdf = resumeToPdf(draft);
+      const file = new File([new Uint8Array(pdf)], `${exportFileStem(draft)}.pdf`, { type: PDF_MIME_TYPE });
+      let uploadFailed = false;
+      const upload = userId
+        ? uploadResumeFile(userId, file).catch(() => {
+          uploadFailed = true;
+          return undefined;
+        })
+        : Promise.resolve(undefined);
+
+      let rescored;
+      try {
+        rescored = await analyzeResume({ data: bytesToBase64(pdf), mimeType: PDF_MIME_TYPE }, { signal: getSignal() });
+      } catch (err) {
+        upload.then(path => path ? deleteResumeFile(path) : undefined).catch(() => {});
+        throw err;
+      }
+      const storagePath = await upload;
+
+      onRescored({
+        ...rescored,
+        file: { name: file.name, type: file.type, size: file.size, storagePath }
+      }, uploadFailed);
+    } catch (err) {
+      if (isCancelled(err)) return;
+      setError(toAiError(err));
+    } finally {
+      if (!getSignal().aborted) setIsScoring(false);
+    }
+  };
+
+  const { profile } = draft;
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <button onClick={onClose} className="text-sm font-semibold text-slate-500 hover:text-slate-900 flex items-center gap-1">
+          <ArrowLeft className="w-4 h-4" /> Back to analysis
+        </button>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="secondary" size="sm" onClick={() => handleDownload('pdf')} className="gap-2">
+            <FileDown className="w-4 h-4" /> PDF
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => handleDownload('docx')} className="gap-2">
+            <FileText className="w-4 h-4" /> DOCX
+          </Button>
+          <Button size="sm" onClick={handleRescore} isLoading={isScoring} className="gap-2">
+            {!isScoring && <RefreshCw className="w-4 h-4" />} {isScoring ? 'Scoring...' : 'Export & Re-score'}
+          </Button>
+        </div>
+      </div>
+
+      <AiErrorNotice error={error} onRetry={handleRescore} variant="dark" />
+
+      <div className="grid lg:grid-cols-3 gap-6 items-start">
+        {/* Document */}
+        <div className="lg:col-span-2 bg-slate-900 rounded-2xl shadow-sm border border-slate-800 p-6 space-y-8">
+          <div>
+            <h3 className="text-2xl font-bold text-white">{profile.contact.name || 'Your Resume'}</h3>
+            <input
+              value={profile.headline || ''}
+              onChange={(e) => updateProfile(p => ({ ...p, headline: e.target.value }))}
+              placeholder="Headline, e.g. Senior Frontend Engineer"
+              className={cn(fieldClass, "mt-3")}
+            />
+            {editsWhere(e => e.section === 'headline').map(item => (
+              <SuggestionCard key={item.id} pending={item} onAccept={() => accept(item)} onReject={() => reject(item)} />
+            ))}
+          </div>
+
+          <section>
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Summary</h4>
+            <textarea
+              value={draft.summary}
+              onChange={(e) => setDraft(prev => ({ ...prev, summary: e.target.value }))}
+              rows={4}
+              className={fieldClass}
+            />
+            {editsWhere(e => e.section === 'summary').map(item => (
+              <SuggestionCard key={item.id} pending={item} onAccept={() => accept(item)} onReject={() => reject(item)} />
+            ))}
+          </section>
+
+          {profile.experience.length > 0 && (
+            <section className="space-y-6">
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Experience</h4>
+              {profile.experience.map((role, i) => (
+                <div key={i}>
+                  <p className="font-semibold text-white">{role.title}, {role.company}</p>
+                  <p className="text-xs text-slate-500 mb-3">{formatDateRange(role.startDate, role.endDate)}</p>
+                  <div className="space-y-3">
+                    {role.highlights.map((highlight, j) => (
+                      <div key={j}>
+                        <textarea
+                          value={highlight}
+                          onChange={(e) => updateHighlight(i, j, e.target.value)}
+                          rows={2}
+                          className={fieldClass}
+                        />
+                        {editsWhere(e => e.section === 'highlight' && e.itemIndex === i && e.highlightIndex === j).map(item => (
+                          <SuggestionCard key={item.id} pending={item} onAccept={() => accept(item)} onReject={() => reject(item)} />
+                        ))}
+                      </div>
+                    ))}
+                    {editsWhere(e => e.section === 'highlight' && e.itemIndex === i && e.highlightIndex === undefined).map(item => (
+                      <SuggestionCard key={item.id} pending={item} onAccept={() => accept(item)} onReject={() => reject(item)} />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </section>
+          )}
+
+          {profile.projects.length > 0 && (
+            <section className="space-y-4">
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Projects</h4>
+              {profile.projects.map((project, i) => (
+                <div key={i}>
+                  <p className="font-semibold text-white mb-2">{project.name}</p>
+                  <textarea
+                    value={project.description || ''}
+                    onChange={(e) => updateProfile(p => ({
+                      ...p,
+                      projects: p.projects.map((item, k) => k === i ? { ...item, description: e.target.value } : item)
+                    }))}
+                    rows={2}
+                    className={fieldClass}
+                  />
+                  {editsWhere(e => e.section === 'project' && e.itemIndex === i).map(item => (
+                    <SuggestionCard key={item.id} pending={item} onAccept={() => accept(item)} onReject={() => reject(item)} />
+                  ))}
+                </div>
+              ))}
+            </section>
+          )}
+
+          <section>
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Skills</h4>
+            <div className="flex flex-wrap gap-2">
+              {profile.skills.map(skill => (
+                <span key={skill.name} className="bg-slate-800 text-slate-300 pl-3 pr-1.5 py-1 rounded-lg text-sm font-medium border border-slate-700 flex items-center gap-1">
+                  {skill.name}
+                  <button onClick={() => removeSkill(skill.name)} className="p-0.5 text-slate-500 hover:text-red-400" title="Remove skill">
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              <form onSubmit={(e) => { e.preventDefault(); addSkill(); }} className="flex items-center gap-1">
+                <input
+                  value={newSkill}
+                  onChange={(e) => setNewSkill(e.target.value)}
+                  placeholder="Add skill"
+                  className="w-28 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-brand-500"
+                />
+                <button type="submit" className="p-1 text-slate-400 hover:text-brand-400" title="Add skill">
+                  <Plus className="w-4 h-4" />
+                </button>
+              </form>
+            </div>
+            {editsWhere(e => e.section === 'skill').map(item => (
+              <SuggestionCard key={item.id} pending={item} onAccept={() => accept(item)} onReject={() => reject(item)} />
+            ))}
+          </section>
+        </div>
+
+        {/* Improvements */}
+        <div className="bg-slate-900 rounded-2xl shadow-sm border border-slate-800 p-6 lg:sticky lg:top-6">
+          <div className="flex items-center gap-2 mb-4 text-brand-400">
+            <TrendingUp className="w-6 h-6" />
+            <h3 className="font-bold text-lg text-white">Improvements</h3>
+          </div>
+          <ul className="space-y-4">
+            {analysis.improvements.map((item, i) => {
+              const status = statuses[i];
+              return (
+                <li key={i} className="text-slate-300 text-sm">
+                  <p>{item}</p>
+                  <button
+                    onClick={() => handleSuggest(i, item)}
+                    disabled={status?.state === 'loading'}
+                    className="mt-2 text-brand-400 text-xs font-semibold flex items-center gap-1 hover:text-brand-300 transition-colors disabled:opacity-60"
+                  >
+                    {status?.state === 'loading' ? <Loader2 className="w-3 h-3 animate-spin" /> : <Wand2 className="w-3 h-3" />}
+                    {status?.state === 'loading' ? 'Suggesting...' : status ? 'Suggest again' : 'Suggest edits'}
+                  </button>
+                  {status?.state === 'done' && (
+                    <p className="text-xs text-slate-500 mt-1">
+                      {status.count > 0 ? `${status.count} suggestion${status.count === 1 ? '' : 's'} added to the resume.` : 'No edits to suggest for this one.'}
+                    </p>
+                  )}
+                  {status?.state === 'error' && <p className="text-xs text-red-400 mt-1">{status.message}</p>}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeEditor;
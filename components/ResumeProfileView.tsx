@@ -0,0 +1,131 @@
+import React from 'react';
+import { ResumeContact, ResumeProfile } from '../types';
+import { formatDateRange, formatResumeDate } from '../lib/resumeProfile';
+
+interface ResumeProfileViewProps {
+  profile: ResumeProfile;
+  summary?: string;
+  /** Fills contact fields the resume itself doesn't state, e.g. from the application. */
+  fallbackContact?: ResumeContact;
+}
+
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <div className="space-y-4">
+    <h3 className="text-sm font-bold uppercase tracking-wider text-slate-400 border-b border-slate-100 pb-2">{title}</h3>
+    {children}
+  </div>
+);
+
+/** Paper-style rendering of a parsed resume. */
+const ResumeProfileView: React.FC<ResumeProfileViewProps> = ({ profile, summary, fallbackContact = {} }) => {
+  const contact = { ...fallbackContact, ...profile.contact };
+
+  return (
+    <div className="bg-white shadow-lg min-h-[800px] w-full max-w-[800px] mx-auto p-12 space-y-8 text-slate-800">
+      <div className="border-b border-slate-200 pb-8 flex justify-between items-start gap-6">
+        <div>
+          <h1 className="text-3xl font-bold uppercase tracking-wide text-slate-900">{contact.name}</h1>
+          {profile.headline && <p className="text-slate-500 mt-2 font-medium">{profile.headline}</p>}
+        </div>
+        <div className="text-right text-sm text-slate-500 space-y-1 break-all">
+          {contact.email && <p>{contact.email}</p>}
+          {contact.phone && <p>{contact.phone}</p>}
+          {contact.location && <p>{contact.location}</p>}
+          {contact.links?.map(link => <p key={link}>{link}</p>)}
+        </div>
+      </div>
+
+      {summary && (
+        <Section title="Summary">
+          <p className="text-sm leading-relaxed text-slate-600">{summary}</p>
+        </Section>
+      )}
+
+      {profile.experience.length > 0 && (
+        <Section title="Experience">
+          <div className="space-y-4">
+            {profile.experience.map((role, i) => (
+              <div key={i}>
+                <div className="flex justify-between items-baseline gap-4">
+                  <h4 className="font-bold text-slate-900">{role.company}</h4>
+                  <span className="text-xs text-slate-400 flex-none">{formatDateRange(role.startDate, role.endDate)}</span>
+                </div>
+                <p className="text-xs font-semibold text-slate-600 mb-2">{role.title}{role.location && ` · ${role.location}`}</p>
+                <ul className="list-disc list-inside text-sm text-slate-600 space-y-1">
+                  {role.highlights.map((highlight, j) => <li key={j}>{highlight}</li>)}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </Section>
+      )}
+
+      {profile.education.length > 0 && (
+        <Section title="Education">
+          <div className="space-y-2">
+            {profile.education.map((edu, i) => (
+              <div key={i} className="flex justify-between items-baseline gap-4 text-sm">
+                <div>
+                  <span className="font-bold text-slate-900">{edu.institution}</span>
+                  {(edu.degree || edu.field) && (
+                    <span className="text-slate-600"> · {[edu.degree, edu.field].filter(Boolean).join(', ')}</span>
+                  )}
+                </div>
+                <span className="text-xs text-slate-400 flex-none">{formatDateRange(edu.startDate, edu.endDate)}</span>
+              </div>
+            ))}
+          </div>
+        </Section>
+      )}
+
+      {profile.certifications.length > 0 && (
+        <Section title="Certifications">
+          <ul className="text-sm text-slate-600 space-y-1">
+            {profile.certifications.map((cert, i) => (
+              <li key={i}>
+                <span className="font-medium text-slate-900">{cert.name}</span>
+                {cert.issuer && ` · ${cert.issuer}`}
+                {cert.date && <span className="text-xs text-slate-400"> ({formatResumeDate(cert.date)})</span>}
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+
+      {profile.projects.length > 0 && (
+        <Section title="Projects">
+          <div className="space-y-3 text-sm">
+            {profile.projects.map((project, i) => (
+              <div key={i}>
+                <span className="font-bold text-slate-900">{project.name}</span>
+                {project.description && <span className="text-slate-600"> - {project.description}</span>}
+                {project.technologies && project.technologies.length > 0 && (
+                  <p className="text-xs text-slate-400 mt-1">{project.technologies.join(' · ')}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </Section>
+      )}
+
+      {profile.skills.length > 0 && (
+        <Section title="Skills">
+          <div className="flex flex-wrap gap-2">
+            {profile.skills.map(skill => (
+              <span key={skill.name} className="bg-slate-100 px-2 py-1 rounded text-xs text-slate-600 font-medium">
+                {skill.name}
+                {(skill.proficiency || skill.years !== undefined) && (
+                  <span className="text-slate-400">
+                    {' '}· {[skill.proficiency, skill.years !== undefined && `${skill.years}y`].filter(Boolean).join(', ')}
+                  </span>
+                )}
+              </span>
+            ))}
+          </div>
+        </Section>
+      )}
+    </div>
+  );
+};
+
+export default ResumeProfileView;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { ScorePoint } from '../lib/resumeDiff';
+
+interface ScoreTrendChartProps {
+  points: ScorePoint[];
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 32 };
+const GRID_SCORES = [0, 25, 50, 75, 100];
+
+/** Resume score per saved version, oldest on the left. */
+const ScoreTrendChart: React.FC<ScoreTrendChartProps> = ({ points, height = 200 }) => {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  // Versions are spaced evenly rather than by date: uploads come in bursts
+  const x = (index: number) =>
+    PADDING.left + (points.length === 1 ? plotWidth / 2 : (index / (points.length - 1)) * plotWidth);
+  const y = (score: number) => PADDING.top + plotHeight - (score / 100) * plotHeight;
+
+  const line = points.map((p, i) => `${x(i)},${y(p.score)}`).join(' ');
+  const area = points.length > 1
+    ? `${x(0)},${y(0)} ${line} ${x(points.length - 1)},${y(0)}`
+    : '';
+  // Label at most ~6 versions so dates don't overlap
+  const labelEvery = Math.max(1, Math.ceil(points.length / 6));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label="Resume score over time">
+      {GRID_SCORES.map(score => (
+        <g key={score}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(score)} y2={y(score)} className="stroke-slate-100" />
+          <text x={PADDING.left - 8} y={y(score) + 4} textAnchor="end" className="fill-slate-400 text-[10px]">{score}</text>
+        </g>
+      ))}
+
+      {area && <polygon points={area} className="fill-brand-500/10" />}
+      {points.length > 1 && (
+        <polyline points={line} fill="none" strokeWidth={2} strokeLinejoin="round" className="stroke-brand-500" />
+      )}
+
+      {points.map((p, i) => {
+        const delta = i > 0 ? p.score - points[i - 1].score : null;
+        return (
+          <g key={p.id}>
+            <circle cx={x(i)} cy={y(p.score)} r={4} strokeWidth={2} className="fill-white stroke-brand-600">
+              <title>
+                {`${p.label}\n${new Date(p.date).toLocaleDateString()}: ${p.score}/100${delta !== null ? ` (${delta >= 0 ? '+' : ''}${delta})` : ''}`}
+              </title>
+            </circle>
+            {i % labelEvery === 0 && (
+              <text x={x(i)} y={height - 8} textAnchor="middle" className="fill-slate-400 text-[10px]">
+                {new Date(p.date).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default ScoreTrendChart;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { User, Mail, Shield, Save, Loader2, Lock, Bell, Moon } from 'lucide-react';
+import { User, Mail, Shield, Save, Loader2, Lock, Bell, Moon, EyeOff } from 'lucide-react';
 import { Card, Button, Input, Badge } from './ui/DesignSystem';
 import { motion } from 'framer-motion';
 import { supabase } from '../lib/supabaseClient';
@@ -9,13 +9,17 @@ import { containerVariants, itemVariants } from '../lib/utils';
 interface SettingsProps {
   user: { name: string; email: string; role?: UserRole };
   onUpdateProfile: (name: string) => void;
+  /** Employers only: hide candidate identities until shortlisting. */
+  blindReview?: boolean;
+  onBlindReviewChange?: (enabled: boolean) => void;
 }
 
-const Settings: React.FC<SettingsProps> = ({ user, onUpdateProfile }) => {
+const Settings: React.FC<SettingsProps> = ({ user, onUpdateProfile, blindReview = false, onBlindReviewChange }) => {
   const [name, setName] = useState(user.name);
   const [password, setPassword] = useState('');
   const [emailNotifications, setEmailNotifications] = useState(true);
   const [marketingEmails, setMarketingEmails] = useState(false);
+  const [blindReviewEnabled, setBlindReviewEnabled] = useState(blindReview);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
 
@@ -35,6 +39,11 @@ const Settings: React.FC<SettingsProps> = ({ user, onUpdateProfile }) => {
     loadPreferences();
   }, []);
 
+  // The setting loads with the rest of the employer's data, possibly after this mounts
+  useEffect(() => {
+    setBlindReviewEnabled(blindReview);
+  }, [blindReview]);
+
   const handleUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -58,6 +67,7 @@ const Settings: React.FC<SettingsProps> = ({ user, onUpdateProfile }) => {
       if (error) throw error;
 
       onUpdateProfile(name);
+      if (blindReviewEnabled !== blindReview) onBlindReviewChange?.(blindReviewEnabled);
       setMessage({ type: 'success', text: 'Profile updated successfully' });
       setPassword('');
     } catch (err: any) {
@@ -188,6 +198,32 @@ const Settings: React.FC<SettingsProps> = ({ user, onUpdateProfile }) => {
             </Card>
           </motion.div>
 
+          {/* Hiring Section */}
+          {user.role === 'employer' && onBlindReviewChange && (
+            <motion.div variants={itemVariants}>
+              <Card className="p-0 overflow-hidden border-slate-200">
+                <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-full bg-emerald-100 flex items-center justify-center text-emerald-600">
+                    <EyeOff className="w-5 h-5" />
+                  </div>
+                  <div>
+                    <h3 className="font-bold text-slate-900">Hiring</h3>
+                    <p className="text-xs text-slate-500">Control how candidates appear while you screen them.</p>
+                  </div>
+                </div>
+                <div className="p-6 bg-white">
+                  <div className="flex items-center justify-between p-2 rounded-lg hover:bg-slate-50 transition-colors">
+                    <div>
+                      <span className="text-sm font-medium text-slate-900 block">Blind Review</span>
+                      <span className="text-xs text-slate-500">Hide names, contact details, photos, graduation years and gendered pronouns until you shortlist a candidate.</span>
+                    </div>
+                    <Toggle checked={blindReviewEnabled} onChange={setBlindReviewEnabled} />
+                  </div>
+                </div>
+              </Card>
+            </motion.div>
+          )}
+
           {/* Notifications Section */}
            <motion.div variants={itemVariants}>
             <Card className="p-0 overflow-hidden border-slate-200">
@@ -204,7 +240,7 @@ const Settings: React.FC<SettingsProps> = ({ user, onUpdateProfile }) => {
                  <div className="flex items-center justify-between p-2 rounded-lg hover:bg-slate-50 transition-colors">
                     <div>
                         <span className="text-sm font-medium text-slate-900 block">Email Notifications</span>
-                        <span className="text-xs text-slate-500">Receive updates about your account activity.</span>
+                        <span className="text-xs text-slate-500">Receive updates about your account activity, including a digest of new jobs matching your job alerts.</span>
                     </div>
                     <Toggle checked={emailNotifications} onChange={setEmailNotifications} />
                  </div>
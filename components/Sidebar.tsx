@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
-import { LayoutDashboard, Mic, FileText, TrendingUp, Briefcase, LogOut, Mail, Command, ChevronRight, GraduationCap, Users, UserCheck, Settings, Bookmark, FolderOpen, Calendar } from 'lucide-react';
-import { AppView, UserRole, Application } from '../types';
+import { LayoutDashboard, Mic, FileText, TrendingUp, Briefcase, LogOut, Mail, Command, ChevronRight, GraduationCap, Users, UserCheck, Settings, Bookmark, FolderOpen, Calendar, CloudOff, RefreshCw, Bell } from 'lucide-react';
+import { AppView, UserRole, Application, AppNotification } from '../types';
+import { SyncQueueState } from '../services/syncQueue';
 import { motion } from 'framer-motion';
 import { cn } from '../lib/utils';
 import { Button } from './ui/DesignSystem';
@@ -12,10 +13,17 @@ interface SidebarProps {
   user: { name: string; email: string; role?: UserRole };
   onLogout: () => void;
   applications?: Application[];
+  syncState?: SyncQueueState;
+  /** Omitted for roles that don't receive notifications. */
+  notifications?: AppNotification[];
+  onOpenNotification?: (notification: AppNotification) => void;
+  onMarkNotificationsRead?: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isOpen, user, onLogout, applications = [] }) => {
+const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isOpen, user, onLogout, applications = [], syncState, notifications, onOpenNotification, onMarkNotificationsRead }) => {
   const isEmployer = user.role === 'employer';
+  const [showNotifications, setShowNotifications] = useState(false);
+  const unread = notifications?.filter(n => !n.read).length || 0;
 
   const NavItem = ({ view, icon: Icon, label }: { view: AppView; icon: any; label: string }) => {
     const isActive = currentView === view;
@@ -62,8 +70,54 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isOpen,
               {isEmployer ? "Recruiter OS" : "AI Assistant"}
             </span>
           </div>
+          {notifications && (
+            <button
+              onClick={() => setShowNotifications(open => !open)}
+              className="relative ml-auto p-2 rounded-lg text-slate-400 hover:text-slate-600 hover:bg-slate-100"
+              aria-label={`Notifications${unread > 0 ? ` (${unread} unread)` : ''}`}
+            >
+              <Bell className="w-5 h-5" />
+              {unread > 0 && (
+                <span className="absolute top-1 right-1 min-w-[16px] h-4 px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+                  {unread > 9 ? '9+' : unread}
+                </span>
+              )}
+            </button>
+          )}
         </div>
 
+        {/* Rendered inline rather than as a popover, since the sidebar clips overflow */}
+        {notifications && showNotifications && (
+          <div className="mb-8 rounded-lg border border-slate-200 bg-white shadow-sm">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-slate-100">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Notifications</span>
+              {unread > 0 && (
+                <button onClick={onMarkNotificationsRead} className="text-xs font-medium text-brand-700 hover:text-brand-800">Mark all read</button>
+              )}
+            </div>
+            {notifications.length === 0 ? (
+              <p className="px-3 py-4 text-xs text-slate-500">No notifications yet. Turn on alerts for a saved search to hear about new jobs.</p>
+            ) : (
+              <div className="max-h-72 overflow-y-auto divide-y divide-slate-100">
+                {notifications.map(notification => (
+                  <button
+                    key={notification.id}
+                    onClick={() => { onOpenNotification?.(notification); setShowNotifications(false); }}
+                    className="w-full text-left px-3 py-2 hover:bg-slate-50 flex gap-2"
+                  >
+                    <span className={cn("mt-1.5 w-1.5 h-1.5 rounded-full shrink-0", notification.read ? "bg-transparent" : "bg-brand-500")} />
+                    <span className="min-w-0">
+                      <span className={cn("block text-xs truncate", notification.read ? "text-slate-600" : "font-semibold text-slate-900")}>{notification.title}</span>
+                      <span className="block text-xs text-slate-500 truncate">{notification.body}</span>
+                      <span className="block text-[10px] text-slate-400">{new Date(notification.createdAt).toLocaleDateString()}</span>
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         <nav className="space-y-8">
           {isEmployer ? (
             // EMPLOYER NAVIGATION
@@ -121,6 +175,20 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isOpen,
       </div>
 
       <div className="mt-auto p-4 border-t border-slate-100 bg-slate-50/50">
+        {syncState && syncState.pending > 0 && (
+          <div
+            title={syncState.lastError}
+            className={cn(
+              "flex items-center gap-2 mb-4 px-3 py-2 rounded-lg border text-xs font-medium",
+              syncState.failing ? "bg-red-50 border-red-100 text-red-700" : "bg-amber-50 border-amber-100 text-amber-700"
+            )}
+          >
+            {syncState.failing ? <CloudOff className="w-3.5 h-3.5" /> : <RefreshCw className="w-3.5 h-3.5 animate-spin" />}
+            {syncState.failing
+              ? `Sync failing, retrying ${syncState.pending} change${syncState.pending === 1 ? '' : 's'}`
+              : `${syncState.pending} change${syncState.pending === 1 ? '' : 's'} pending sync`}
+          </div>
+        )}
         <div className="flex items-center gap-3 mb-4 px-2">
           <div className={cn("w-9 h-9 rounded-full border flex items-center justify-center font-bold shadow-sm", isEmployer ? "bg-purple-50 border-purple-200 text-purple-700" : "bg-white border-slate-200 text-brand-700")}>
             {user.name.charAt(0).toUpperCase()}
@@ -2,9 +2,12 @@ import React, { useState, useEffect } from 'react';
 import { GraduationCap, ExternalLink, Loader2, BookOpen, Search, ArrowRight, Zap, Target, PlayCircle } from 'lucide-react';
 import { ResumeAnalysis, SkillSuggestion } from '../types';
 import { suggestSkills } from '../services/gemini';
+import { AiError, isCancelled, toAiError } from '../services/aiErrors';
 import { motion } from 'framer-motion';
 import { Card, Button, Badge, Input } from './ui/DesignSystem';
+import { AiErrorNotice } from './ui/AiErrorNotice';
 import { containerVariants, itemVariants, cn } from '../lib/utils';
+import { useAbortOnUnmount } from '../lib/useAbortOnUnmount';
 
 interface SkillSuggestionsProps {
   resumeAnalysis: ResumeAnalysis | null;
@@ -16,6 +19,8 @@ const SkillSuggestions: React.FC<SkillSuggestionsProps> = ({ resumeAnalysis, onA
   const [loading, setLoading] = useState(false);
   const [manualRole, setManualRole] = useState('');
   const [hasGenerated, setHasGenerated] = useState(false);
+  const [error, setError] = useState<AiError | null>(null);
+  const getSignal = useAbortOnUnmount();
 
   useEffect(() => {
     if (resumeAnalysis && !hasGenerated && skills.length === 0) {
@@ -25,15 +30,17 @@ const SkillSuggestions: React.FC<SkillSuggestionsProps> = ({ resumeAnalysis, onA
 
   const generateSuggestions = async (currentSkills: string[], context: string) => {
     setLoading(true);
+    setError(null);
     try {
-      const suggestions = await suggestSkills(currentSkills, context);
+      const suggestions = await suggestSkills(currentSkills, context, { signal: getSignal() });
       setSkills(suggestions);
       setHasGenerated(true);
       onActivity("Skill Suggestions", `Found ${suggestions.length} new skills to learn`);
-    } catch (error) {
-      console.error(error);
+    } catch (err) {
+      if (isCancelled(err)) return;
+      setError(toAiError(err));
     } finally {
-      setLoading(false);
+      if (!getSignal().aborted) setLoading(false);
     }
   };
 
@@ -85,6 +92,8 @@ const SkillSuggestions: React.FC<SkillSuggestionsProps> = ({ resumeAnalysis, onA
                </Button>
             </div>
           </form>
+
+          <AiErrorNotice error={error} className="text-left" />
         </Card>
       </motion.div>
     );
@@ -111,6 +120,8 @@ const SkillSuggestions: React.FC<SkillSuggestionsProps> = ({ resumeAnalysis, onA
         </div>
       </div>
 
+      <AiErrorNotice error={error} />
+
       {loading ? (
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
            {[1, 2, 3, 4, 5, 6].map((i) => (
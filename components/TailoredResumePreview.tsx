@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { CheckCircle, AlertTriangle, X } from 'lucide-react';
+import { Job, ResumeAnalysis, ResumeDraft, ResumeTailoring } from '../types';
+import { tailoredAnalysis } from '../lib/resumeDraft';
+import { exportFileStem, PDF_MIME_TYPE, resumeToPdf } from '../lib/resumeExport';
+import { uploadResumeFile } from '../services/resumeFiles';
+import { Button, Badge } from './ui/DesignSystem';
+
+interface TailoredResumePreviewProps {
+  job: Job;
+  base: ResumeAnalysis;
+  /** The base resume with the tailoring already applied. */
+  draft: ResumeDraft;
+  tailoring: ResumeTailoring;
+  /** Owner for the tailored PDF. Without it the version keeps no file. */
+  userId?: string;
+  /** The tailored analysis, with the PDF attached unless `uploadFailed`. */
+  onSave: (analysis: ResumeAnalysis, uploadFailed?: boolean) => void;
+  onClose: () => void;
+}
+
+/** Review step before a job-tailored resume version is saved. */
+const TailoredResumePreview: React.FC<TailoredResumePreviewProps> = ({ job, base, draft, tailoring, userId, onSave, onClose }) => {
+  const [isSaving, setIsSaving] = useState(false);
+
+  // The tailored PDF is what employers download from the application
+  const handleSave = async () => {
+    setIsSaving(true);
+    const pdf = resumeToPdf(draft);
+    const file = new File([new Uint8Array(pdf)], `${exportFileStem(draft)}.pdf`, { type: PDF_MIME_TYPE });
+    let uploadFailed = false;
+    const storagePath = userId
+      ? await uploadResumeFile(userId, file).catch(() => {
+        uploadFailed = true;
+        return undefined;
+      })
+      : undefined;
+
+    onSave({
+      ...tailoredAnalysis(base, draft, tailoring),
+      file: { name: file.name, type: file.type, size: file.size, storagePath }
+    }, uploadFailed);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+      >
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between sticky top-0 bg-white z-10">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Tailored Resume</h2>
+            <p className="text-sm text-slate-500">For {job.title} at {job.company}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="p-6 space-y-6 text-sm">
+          {(tailoring.emphasizedKeywords.length > 0 || tailoring.unsupportedKeywords.length > 0) && (
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <h4 className="font-bold text-emerald-700 text-xs uppercase tracking-wide mb-2">Now emphasized</h4>
+                <div className="flex flex-wrap gap-2">
+                  {tailoring.emphasizedKeywords.map(k => (
+                    <Badge key={k} variant="neutral" className="bg-emerald-50 text-emerald-700 border-emerald-100 flex items-center gap-1">
+                      <CheckCircle className="w-3 h-3" /> {k}
+                    </Badge>
+                  ))}
+                  {tailoring.emphasizedKeywords.length === 0 && <p className="text-slate-400 italic">None</p>}
+                </div>
+              </div>
+              <div>
+                <h4 className="font-bold text-amber-700 text-xs uppercase tracking-wide mb-2">Not added</h4>
+                <div className="flex flex-wrap gap-2">
+                  {tailoring.unsupportedKeywords.map(k => (
+                    <Badge key={k} variant="neutral" className="bg-amber-50 text-amber-700 border-amber-100 flex items-center gap-1">
+                      <AlertTriangle className="w-3 h-3" /> {k}
+                    </Badge>
+                  ))}
+                  {tailoring.unsupportedKeywords.length === 0 && <p className="text-slate-400 italic">None</p>}
+                </div>
+                {tailoring.unsupportedKeywords.length > 0 && (
+                  <p className="text-xs text-slate-500 mt-2">Nothing in your resume shows these yet, so they were left out.</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h4 className="font-bold text-slate-700 text-xs uppercase tracking-wide mb-2">Summary</h4>
+            {draft.profile.headline && <p className="font-semibold text-slate-900 mb-1">{draft.profile.headline}</p>}
+            <p className="text-slate-600 leading-relaxed">{draft.summary}</p>
+          </div>
+
+          {draft.profile.experience.length > 0 && (
+            <div className="space-y-4">
+              <h4 className="font-bold text-slate-700 text-xs uppercase tracking-wide">Experience</h4>
+              {draft.profile.experience.map((role, i) => (
+                <div key={i}>
+                  <p className="font-semibold text-slate-900">{role.title}, {role.company}</p>
+                  <ul className="mt-1 space-y-1 list-disc pl-5 text-slate-600">
+                    {role.highlights.map((h, j) => <li key={j}>{h}</li>)}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {draft.profile.skills.length > 0 && (
+            <div>
+              <h4 className="font-bold text-slate-700 text-xs uppercase tracking-wide mb-2">Skills</h4>
+              <p className="text-slate-600">{draft.profile.skills.map(s => s.name).join(', ')}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex items-center justify-between gap-3 sticky bottom-0 bg-white">
+          <p className="text-xs text-slate-500">Saved to your resume history and attached when you apply to this job.</p>
+          <div className="flex gap-3 flex-none">
+            <Button variant="ghost" onClick={onClose}>Discard</Button>
+            <Button onClick={handleSave} isLoading={isSaving}>Save Version</Button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default TailoredResumePreview;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { AlertCircle, Clock, KeyRound, RefreshCw, ServerCrash, FileWarning } from 'lucide-react';
+import { AiError, AiErrorKind } from '../../services/aiErrors';
+import { cn } from '../../lib/utils';
+
+interface AiErrorNoticeProps {
+  error: AiError | null;
+  onRetry?: () => void;
+  variant?: 'light' | 'dark';
+  className?: string;
+}
+
+const TITLES: Record<AiErrorKind, string> = {
+  quota: 'Rate limit reached',
+  auth: 'API key problem',
+  unavailable: 'AI service unavailable',
+  'not-found': 'AI model not found',
+  'invalid-output': 'Unexpected AI response',
+  timeout: 'Request timed out',
+  cancelled: 'Request cancelled',
+  unknown: 'Something went wrong'
+};
+
+const ICONS: Record<AiErrorKind, React.ElementType> = {
+  quota: Clock,
+  auth: KeyRound,
+  unavailable: ServerCrash,
+  'not-found': ServerCrash,
+  'invalid-output': FileWarning,
+  timeout: Clock,
+  cancelled: AlertCircle,
+  unknown: AlertCircle
+};
+
+// Shared rendering for AiError so every AI feature reports failures the same way.
+// Cancelled requests are the user's own doing and render nothing.
+export const AiErrorNotice: React.FC<AiErrorNoticeProps> = ({ error, onRetry, variant = 'light', className }) => {
+  if (!error || error.kind === 'cancelled') return null;
+  const Icon = ICONS[error.kind];
+
+  return (
+    <div
+      role="alert"
+      className={cn(
+        "p-4 rounded-xl border text-sm",
+        variant === 'dark' ? "bg-red-900/20 border-red-500/50 text-red-200" : "bg-red-50 border-red-200 text-red-700",
+        className
+      )}
+    >
+      <p className="font-bold flex items-center gap-2 mb-1">
+        <Icon className="w-4 h-4" /> {TITLES[error.kind]}
+      </p>
+      <p>{error.message}</p>
+      {onRetry && error.kind !== 'auth' && error.kind !== 'not-found' && (
+        <button
+          onClick={onRetry}
+          className="mt-2 inline-flex items-center gap-1 text-xs font-semibold underline-offset-2 hover:underline"
+        >
+          <RefreshCw className="w-3 h-3" /> Try again
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+// Deterministic keyword scoring, computed locally next to the AI scores. The AI scores drift between
+// runs; this one always gives the same result for the same resume and job, and every point can be
+// traced back to a matched keyword or a section check.
+import { Job, ResumeAnalysis, WorkExperience } from '../types';
+import { normalizeSkill, PROSE_UNSAFE, skillAliases, skillsInText, tokenize } from './skills';
+
+const STOP_WORDS = new Set(['and', 'or', 'the', 'a', 'an', 'of', 'in', 'with', 'to', 'for', 'on', 'experience', 'years', 'year', 'knowledge', 'strong', 'proficiency', 'skills', 'using']);
+
+type ScoredJob = Pick<Job, 'requirements' | 'description'> & Partial<Pick<Job, 'skills'>>;
+
+/**
+ * What an ATS would search for: the posting's required skills, short requirements as written
+ * ("React", "5+ years SQL" -> "sql"), plus known skills named in longer requirements or the
+ * description. Nice-to-have skills don't count against a resume.
+ */
+export const jobKeywords = (job: ScoredJob) => {
+  const keywords = new Set<string>();
+  (job.skills || []).filter(skill => skill.required).forEach(skill => keywords.add(skill.key));
+  job.requirements.forEach(requirement => {
+    const words = tokenize(requirement).filter(w => !STOP_WORDS.has(w) && !/^\d+\+?$/.test(w));
+    const known = skillsInText(requirement);
+    if (known.size > 0) known.forEach(k => keywords.add(k));
+    else if (words.length > 0 && words.length <= 3) keywords.add(normalizeSkill(words.join(' ')));
+  });
+  skillsInText(job.description).forEach(k => keywords.add(k));
+  return [...keywords];
+};
+
+/** Everything the scorer reads from an analysis, as one lowercase blob plus per-role text. */
+const resumeEvidence = (analysis: ResumeAnalysis) => {
+  const profile = analysis.profile;
+  const listedSkills = new Set([...(analysis.skills || []), ...(profile?.skills.map(s => s.name) || [])].map(normalizeSkill));
+  const parts = [
+    analysis.file?.extractedText || '',
+    analysis.summary,
+    profile?.headline || '',
+    ...(profile?.experience.flatMap(role => [role.title, ...role.highlights]) || []),
+    ...(profile?.projects.flatMap(p => [p.name, p.description || '', ...(p.technologies || [])]) || []),
+    ...(profile?.certifications.map(c => c.name) || [])
+  ];
+  return { text: ` ${tokenize(parts.join(' ')).join(' ')} `, listedSkills, roles: profile?.experience || [] };
+};
+
+const mentions = (text: string, keyword: string) => {
+  const spellings = [keyword, ...skillAliases(keyword).filter(a => !PROSE_UNSAFE.has(a))];
+  return spellings.some(spelling => text.includes(` ${tokenize(spelling).join(' ')} `));
+};
+
+/** Years since a role ended (0 for current roles), or null when the dates are unknown. */
+const yearsSince = (role: WorkExperience, now: Date) => {
+  if (!role.endDate) return role.startDate ? 0 : null;
+  const [year, month] = role.endDate.split('-').map(Number);
+  if (!year) return null;
+  const ended = new Date(year, (month || 12) - 1);
+  return Math.max(0, (now.getTime() - ended.getTime()) / (365.25 * 24 * 3600 * 1000));
+};
+
+export interface SectionCheck {
+  label: string;
+  passed: boolean;
+}
+
+export interface AtsScore {
+  /** 0-100. */
+  score: number;
+  /** Share of the job's keywords the resume covers; only for job matches. */
+  coverage?: { percent: number; matched: string[]; missing: string[] };
+  completeness: { percent: number; checks: SectionCheck[] };
+  /** How recent the experience (or, for a job, the matched keywords) is. */
+  recency: number;
+}
+
+// Weights of each component, summing to 1
+const RESUME_WEIGHTS = { completeness: 0.6, recency: 0.4 };
+const JOB_WEIGHTS = { coverage: 0.6, completeness: 0.15, recency: 0.25 };
+
+// Full recency credit up to RECENT_YEARS ago, none after STALE_YEARS
+const RECENT_YEARS = 2;
+const STALE_YEARS = 7;
+
+const recencyOf = (years: number | null) => {
+  if (years === null) return 0.5; // Undated: neither rewarded nor punished much
+  if (years <= RECENT_YEARS) return 1;
+  return Math.max(0, 1 - (years - RECENT_YEARS) / (STALE_YEARS - RECENT_YEARS));
+};
+
+const percent = (ratio: number) => Math.round(ratio * 100);
+
+const sectionChecks = (analysis: ResumeAnalysis): SectionCheck[] => {
+  const profile = analysis.profile;
+  const highlights = profile?.experience.flatMap(role => role.highlights) || [];
+  return [
+    { label: 'Contact email or phone', passed: !!(profile?.contact.email || profile?.contact.phone) },
+    { label: 'Summary', passed: analysis.summary.trim().length > 0 },
+    { label: 'Work experience', passed: (profile?.experience.length || 0) > 0 },
+    { label: 'Dates on every role', passed: !!profile && profile.experience.length > 0 && profile.experience.every(r => r.startDate) },
+    { label: 'Education', passed: (profile?.education.length || 0) > 0 },
+    { label: 'At least 5 skills', passed: new Set([...(analysis.skills || []), ...(profile?.skills.map(s => s.name) || [])]).size >= 5 },
+    { label: 'Quantified achievements', passed: highlights.some(h => /\d/.test(h)) }
+  ];
+};
+
+const completenessOf = (analysis: ResumeAnalysis) => {
+  const checks = sectionChecks(analysis);
+  return { percent: percent(checks.filter(c => c.passed).length / checks.length), checks };
+};
+
+/** Local score of a resume on its own: section completeness and how recent the experience is. */
+export const scoreResume = (analysis: ResumeAnalysis, now = new Date()): AtsScore => {
+  const completeness = completenessOf(analysis);
+  const latest = (analysis.profile?.experience || [])
+    .map(role => yearsSince(role, now))
+    .reduce<number | null>((min, years) => years === null ? min : min === null ? years : Math.min(min, years), null);
+  const recency = percent(analysis.profile?.experience.length ? recencyOf(latest) : 0);
+
+  return {
+    score: Math.round(completeness.percent * RESUME_WEIGHTS.completeness + recency * RESUME_WEIGHTS.recency),
+    completeness,
+    recency
+  };
+};
+
+/**
+ * Local match of a resume against a job: keyword coverage (skill synonyms count as the same
+ * keyword), section completeness, and how recently the matched keywords were used.
+ */
+export const scoreJobMatch = (analysis: ResumeAnalysis, job: ScoredJob, now = new Date()): AtsScore => {
+  const keywords = jobKeywords(job);
+  const evidence = resumeEvidence(analysis);
+  const matched = keywords.filter(k => evidence.listedSkills.has(k) || mentions(evidence.text, k));
+  const missing = keywords.filter(k => !matched.includes(k));
+
+  // A keyword counts as recent when the newest role mentioning it is recent; keywords only found
+  // in skill lists or elsewhere get the undated credit
+  const keywordRecency = matched.map(keyword => {
+    const years = evidence.roles
+      .filter(role => mentions(` ${tokenize([role.title, ...role.highlights].join(' ')).join(' ')} `, keyword))
+      .map(role => yearsSince(role, now))
+      .filter((y): y is number => y !== null);
+    return recencyOf(years.length > 0 ? Math.min(...years) : null);
+  });
+
+  const completeness = completenessOf(analysis);
+  // Jobs without recognizable keywords can't be scored on coverage, so it doesn't pull the score down
+  const coverageRatio = keywords.length > 0 ? matched.length / keywords.length : 1;
+  const recency = percent(keywordRecency.length > 0 ? keywordRecency.reduce((a, b) => a + b, 0) / keywordRecency.length : 0);
+
+  return {
+    score: Math.round(
+      percent(coverageRatio) * JOB_WEIGHTS.coverage +
+      completeness.percent * JOB_WEIGHTS.completeness +
+      recency * JOB_WEIGHTS.recency
+    ),
+    coverage: { percent: percent(coverageRatio), matched, missing },
+    completeness,
+    recency
+  };
+};
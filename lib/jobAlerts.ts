@@ -0,0 +1,66 @@
+// Job alerts: saved searches that notify the candidate when a newly posted job matches. Matching
+// runs on the server when a job is published (supabase/functions/job-alerts), so candidates are
+// notified once, whether or not they have the app open. That function imports this module, so
+// it and its imports stay free of React and browser APIs.
+import { AppNotification, AppView, Job, SavedSearch } from '../types';
+import { acceptsApplications } from './jobLifecycle';
+import { buildJobSearchIndex, searchJobs } from './jobSearch';
+import { buildPath } from './routes';
+
+export interface AlertMatch {
+  search: SavedSearch;
+  jobs: Job[];
+}
+
+/** Whether the saved search notifies about new jobs. */
+export const isAlertOn = (search: SavedSearch) => !!search.alert && !search.alert.paused;
+
+/**
+ * The alerts among one candidate's saved searches that a just-published job matches, given
+ * the skills on their resume. Jobs published before an alert was turned on never reach it.
+ */
+export const matchJobAlerts = (job: Job, searches: SavedSearch[], resumeSkills?: string[]): AlertMatch[] => {
+  if (!acceptsApplications(job)) return [];
+  const index = buildJobSearchIndex([job]);
+
+  return searches
+    .filter(search => {
+      const alert = search.alert;
+      if (!alert || alert.paused) return false;
+      const result = searchJobs([job], search.query, index, resumeSkills);
+      // Without resume skills there is no fit to compare, so only "any fit" alerts can match
+      return result.jobs.length > 0 && (alert.minFit === 0 || (result.fit[job.id] ?? 0) >= alert.minFit);
+    })
+    .map(search => ({ search, jobs: [job] }));
+};
+
+export const alertNotifications = (matches: AlertMatch[], now = new Date()): AppNotification[] =>
+  matches.flatMap(({ search, jobs }) => jobs.map(job => ({
+    id: crypto.randomUUID(),
+    kind: 'job_alert' as const,
+    title: `New match for "${search.name}"`,
+    body: `${job.title} at ${job.company}`,
+    jobId: job.id,
+    searchId: search.id,
+    createdAt: now.toISOString(),
+    read: false
+  })));
+
+/** One email covering every match, grouped by saved search. */
+export const alertDigest = (matches: AlertMatch[], origin: string) => {
+  // A job matching several searches is listed under each but counted once
+  const count = new Set(matches.flatMap(match => match.jobs.map(job => job.id))).size;
+  const sections = matches.map(({ search, jobs }) => [
+    `${search.name}:`,
+    ...jobs.map(job => `- ${job.title} at ${job.company} (${job.location}, ${job.salary})\n  ${origin}${buildPath({ view: AppView.JOBS, id: job.id })}`)
+  ].join('\n'));
+
+  return {
+    subject: `${count} new ${count === 1 ? 'job matches' : 'jobs match'} your saved searches`,
+    text: [
+      'New postings on CarrerX match your job alerts.',
+      ...sections,
+      'You can turn these emails off under Settings > Notifications.'
+    ].join('\n\n')
+  };
+};
@@ -0,0 +1,68 @@
+// Job lifecycle: a posting starts as a draft, is published to candidates, can be paused or
+// closed, and is finally archived out of the employer's list.
+import { Application, Job, JobStatus } from '../types';
+
+export const JOB_STATUSES: JobStatus[] = ['draft', 'published', 'paused', 'closed', 'archived'];
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  draft: 'Draft',
+  published: 'Published',
+  paused: 'Paused',
+  closed: 'Closed',
+  archived: 'Archived'
+};
+
+// Closed jobs can be reopened; archived ones come back as drafts so they're reviewed before going live
+const TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  draft: ['published', 'archived'],
+  published: ['paused', 'closed'],
+  paused: ['published', 'closed'],
+  closed: ['published', 'archived'],
+  archived: ['draft']
+};
+
+export const nextStatuses = (status: JobStatus) => TRANSITIONS[status];
+
+export const canTransition = (from: JobStatus, to: JobStatus) => TRANSITIONS[from].includes(to);
+
+export const transitionJob = (job: Job, to: JobStatus): Job => {
+  if (!canTransition(job.status, to)) {
+    throw new Error(`A ${job.status} job can't be ${to}`);
+  }
+  return { ...job, status: to };
+};
+
+// Deadlines are local calendar dates (YYYY-MM-DD), and the last day still counts
+const localDate = (now: Date) =>
+  `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+
+export const isPastDeadline = (job: Job, now = new Date()) => !!job.deadline && job.deadline < localDate(now);
+
+/** Only published jobs take new applications, and only until their deadline. */
+export const acceptsApplications = (job: Job, now = new Date()) => job.status === 'published' && !isPastDeadline(job, now);
+
+/** The status to show: a published job whose deadline has passed reads as closed. */
+export const displayStatus = (job: Job, now = new Date()): JobStatus =>
+  job.status === 'published' && isPastDeadline(job, now) ? 'closed' : job.status;
+
+/** Whether candidates see the job in their feed. Paused jobs stay listed but can't be applied to. */
+export const isListed = (job: Job) => job.status === 'published' || job.status === 'paused';
+
+/**
+ * Whether the employer manages the job. Postings saved before ownership was recorded have no
+ * employerId; they come from the single-employer demo store, so they belong to whichever
+ * employer is signed in until their next save records the owner.
+ */
+export const isOwnJob = (job: Job, employerId?: string) =>
+  job.employerId ? job.employerId === employerId : job.source !== 'ai';
+
+/** Applications still waiting on a decision, which closing the job affects. */
+export const isPendingApplication = (application: Application) =>
+  application.status === 'New' || application.status === 'Reviewed';
+
+/** Button label for moving a job to `to`, e.g. "Resume" for paused → published. */
+export const transitionLabel = (from: JobStatus, to: JobStatus) => {
+  if (to === 'published') return from === 'draft' ? 'Publish' : from === 'paused' ? 'Resume' : 'Reopen';
+  if (to === 'draft') return 'Restore';
+  return { paused: 'Pause', closed: 'Close', archived: 'Archive' }[to];
+};
@@ -0,0 +1,143 @@
+// Structured job fields: salary ranges, seniority, remote policy and skills. Postings made before
+// these fields existed only have free text, so `upgradeJob` derives them from it on load.
+import { Job, JobSkill, RemotePolicy, SalaryRange, SeniorityLevel } from '../types';
+import { normalizeSkill, skillLabel, skillsInText } from './skills';
+
+export const SENIORITY_LEVELS: SeniorityLevel[] = ['Internship', 'Entry', 'Mid', 'Senior', 'Lead', 'Executive'];
+
+export const REMOTE_POLICIES: RemotePolicy[] = ['Remote', 'Hybrid', 'Onsite'];
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'INR'];
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '₹': 'INR' };
+
+export const jobSkill = (name: string, required: boolean): JobSkill => ({ name: name.trim(), key: normalizeSkill(name), required });
+
+// "60,000", "60.000" and "60 000" are all sixty thousand; a separator followed by anything other
+// than three digits is a decimal point, as in "1.5k" or "€32,50 / hr"
+const parseAmount = (digits: string) => {
+  const decimal = digits.match(/[.,](\d{1,2}|\d{4,})$/);
+  const whole = decimal ? digits.slice(0, -decimal[0].length) : digits;
+  return Number(whole.replace(/[.,\s]/g, '') + (decimal ? `.${decimal[1]}` : ''));
+};
+
+/**
+ * Reads a free-text salary such as "$110k - $135k", "$70 - $90 / hr", "€60,000" or "60.000 €".
+ * Returns undefined when there are no numbers in it ("Competitive").
+ */
+export const parseSalary = (text: string): SalaryRange | undefined => {
+  const period: SalaryRange['period'] = /\/\s*h(ou)?r|per hour|hourly/i.test(text) ? 'hour' : 'year';
+  const amounts = [...text.matchAll(/(\d+(?:[.,\s]\d{3})*(?:[.,]\d+)?)\s*([km])?\b/gi)]
+    .map(([, digits, suffix]) => parseAmount(digits) * (suffix?.toLowerCase() === 'k' ? 1_000 : suffix?.toLowerCase() === 'm' ? 1_000_000 : 1))
+    .filter(amount => amount > 0);
+  if (amounts.length === 0) return undefined;
+
+  // "$120-150k": the suffix on the upper bound applies to the lower one too
+  const yearly = period === 'year' && amounts.some(a => a >= 1_000)
+    ? amounts.map(a => a < 1_000 ? a * 1_000 : a)
+    : amounts;
+  const code = CURRENCIES.find(c => text.toUpperCase().includes(c));
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find(s => text.includes(s));
+
+  return {
+    min: Math.min(...yearly.slice(0, 2)),
+    max: Math.max(...yearly.slice(0, 2)),
+    currency: code || (symbol ? CURRENCY_SYMBOLS[symbol] : 'USD'),
+    period
+  };
+};
+
+const formatAmount = (amount: number, range: SalaryRange) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: range.currency,
+    // Yearly salaries read best as "$120K"
+    notation: range.period === 'year' && amount >= 10_000 ? 'compact' : 'standard',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: range.period === 'hour' ? 2 : 0
+  }).format(amount);
+
+/** The salary label shown on postings and snapshotted onto applications. */
+export const formatSalary = (range?: SalaryRange) => {
+  if (!range || (range.min === undefined && range.max === undefined)) return 'Competitive';
+  const { min, max } = range;
+  const amount = min !== undefined && max !== undefined && min !== max
+    ? `${formatAmount(min, range)} - ${formatAmount(max, range)}`
+    : min !== undefined && max === undefined
+      ? `From ${formatAmount(min, range)}`
+      : max !== undefined && min === undefined
+        ? `Up to ${formatAmount(max, range)}`
+        : formatAmount((min ?? max)!, range);
+  return range.period === 'hour' ? `${amount} / hr` : amount;
+};
+
+/** "Mar 14" for a YYYY-MM-DD deadline, read as a local date rather than UTC midnight. */
+export const formatDeadline = (deadline: string) =>
+  new Date(`${deadline}T00:00:00`).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+export const inferRemotePolicy = (location: string, type = ''): RemotePolicy =>
+  /hybrid/i.test(location) ? 'Hybrid' : /remote/i.test(location) || /remote/i.test(type) ? 'Remote' : 'Onsite';
+
+/** Seniority implied by a job title, or undefined when the title doesn't say. */
+export const inferSeniority = (title: string): SeniorityLevel | undefined => {
+  if (/\bintern(ship)?\b/i.test(title)) return 'Internship';
+  if (/\b(chief|vp|vice president|head of|director)\b/i.test(title)) return 'Executive';
+  if (/\b(lead|principal|staff|manager)\b/i.test(title)) return 'Lead';
+  if (/\b(senior|sr\.?)\b/i.test(title)) return 'Senior';
+  if (/\b(junior|jr\.?|entry[- ]level|graduate|associate)\b/i.test(title)) return 'Entry';
+  return undefined;
+};
+
+/**
+ * Skills named in free-text requirements: vocabulary skills wherever they appear, otherwise short
+ * requirements ("Storybook", "Python or R") as written. Old postings didn't separate
+ * nice-to-haves, so all of them count as required.
+ */
+export const skillsFromRequirements = (requirements: string[]): JobSkill[] => {
+  const skills = new Map<string, JobSkill>();
+  requirements.forEach(requirement => {
+    const known = skillsInText(requirement);
+    if (known.size > 0) {
+      known.forEach(key => skills.set(key, { name: skillLabel(key), key, required: true }));
+    } else if (requirement.trim().split(/\s+/).length <= 3) {
+      const skill = jobSkill(requirement, true);
+      if (skill.key) skills.set(skill.key, skill);
+    }
+  });
+  return [...skills.values()];
+};
+
+/** The URL if it's an http(s) link, so a stored posting can't smuggle in a `javascript:` link. */
+export const webUrl = (url?: string) => {
+  if (!url) return undefined;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.href : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/** Fills in the structured fields of a posting stored before they existed. */
+export const upgradeJob = (job: Job): Job => {
+  if (!needsUpgrade(job)) return job;
+  const { sourceUrl, ...rest } = job;
+  const salaryRange = job.salaryRange ?? parseSalary(job.salary || '');
+  const seniority = job.seniority ?? inferSeniority(job.title);
+  const safeSourceUrl = webUrl(sourceUrl);
+  return {
+    ...rest,
+    ...(safeSourceUrl && { sourceUrl: safeSourceUrl }),
+    ...(salaryRange && { salaryRange }),
+    ...(seniority && { seniority }),
+    remotePolicy: job.remotePolicy ?? inferRemotePolicy(job.location || '', job.type),
+    skills: Array.isArray(job.skills) ? job.skills : skillsFromRequirements(job.requirements || []),
+    // Jobs posted before the lifecycle existed were live
+    status: job.status ?? 'published'
+  };
+};
+
+/** Whether `upgradeJob` would change the job. */
+export const needsUpgrade = (job: Job) =>
+  !job.remotePolicy || !Array.isArray(job.skills) || !job.status ||
+  (job.sourceUrl !== undefined && webUrl(job.sourceUrl) !== job.sourceUrl);
@@ -0,0 +1,255 @@
+// Job search: full text over the posting, facet filters with counts, and ranking by how well a
+// resume's skills cover what the job asks for. Runs locally over the jobs already loaded.
+import { Job, JobSearchQuery, RemotePolicy, SalaryBand, SeniorityLevel } from '../types';
+import { jobKeywords } from './atsScore';
+import { REMOTE_POLICIES, SENIORITY_LEVELS } from './jobPosting';
+import { normalizeSkill, tokenize } from './skills';
+
+export const EMPTY_JOB_SEARCH: JobSearchQuery = {
+  text: '',
+  locations: [],
+  salaryBands: [],
+  seniority: [],
+  remotePolicies: [],
+  types: [],
+  sort: 'relevance'
+};
+
+// Bounds are yearly amounts in the search's salary currency. We have no exchange rates, so
+// postings in other currencies never fall into a band.
+export const SALARY_BANDS: { id: SalaryBand; min: number; max: number }[] = [
+  { id: 'under50k', min: 0, max: 50_000 },
+  { id: '50to100k', min: 50_000, max: 100_000 },
+  { id: '100to150k', min: 100_000, max: 150_000 },
+  { id: 'over150k', min: 150_000, max: Infinity }
+];
+
+const compactAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency, notation: 'compact', maximumFractionDigits: 0 }).format(amount);
+
+/** E.g. "€50K - €100K" for the 50to100k band in euros. */
+export const salaryBandLabel = (id: SalaryBand, currency: string) => {
+  const band = SALARY_BANDS.find(b => b.id === id);
+  if (!band) return id;
+  if (band.min === 0) return `Under ${compactAmount(band.max, currency)}`;
+  if (band.max === Infinity) return `${compactAmount(band.min, currency)}+`;
+  return `${compactAmount(band.min, currency)} - ${compactAmount(band.max, currency)}`;
+};
+
+const HOURS_PER_YEAR = 2_080;
+
+const SEARCH_STOP_WORDS = new Set(['and', 'or', 'the', 'a', 'an', 'of', 'in', 'with', 'to', 'for', 'on', 'at', 'job', 'jobs', 'role']);
+
+// A title hit says more than a passing mention in the description
+const FIELD_WEIGHTS = { title: 4, skills: 3, company: 2, requirements: 2, description: 1 };
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+/** Yearly [min, max] of the posted salary, or null when there is none. */
+export const yearlySalary = (job: Job): [number, number] | null => {
+  const range = job.salaryRange;
+  if (!range || (range.min === undefined && range.max === undefined)) return null;
+  const factor = range.period === 'hour' ? HOURS_PER_YEAR : 1;
+  const min = range.min ?? range.max!;
+  const max = range.max ?? range.min!;
+  return [min * factor, max * factor];
+};
+
+/** The search's salary currency, or else the one most of the jobs pay in. */
+export const salaryCurrencyFor = (jobs: Job[], query: JobSearchQuery) => {
+  if (query.salaryCurrency) return query.salaryCurrency;
+  const counts = new Map<string, number>();
+  jobs.forEach(job => {
+    if (job.salaryRange) counts.set(job.salaryRange.currency, (counts.get(job.salaryRange.currency) || 0) + 1);
+  });
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 'USD';
+};
+
+const salaryBandsOf = (job: Job, currency: string): SalaryBand[] => {
+  const salary = job.salaryRange?.currency === currency ? yearlySalary(job) : null;
+  if (!salary) return [];
+  const [min, max] = salary;
+  // Bands include their lower bound only, so "$85K - $100K" isn't also a 100K - 150K job
+  return SALARY_BANDS
+    .filter(band => min < band.max && (max > band.min || (min === max && min >= band.min)))
+    .map(band => band.id);
+};
+
+const searchTerms = (text: string) => tokenize(text).filter(term => !SEARCH_STOP_WORDS.has(term));
+
+type JobIndexEntry = Record<SearchField, Set<string>> & { skillKeys: Set<string> };
+
+/** Tokens of each searchable field by job id, built once per job list. */
+export type JobSearchIndex = Map<string, JobIndexEntry>;
+
+export const buildJobSearchIndex = (jobs: Job[]): JobSearchIndex =>
+  new Map(jobs.map(job => [job.id, {
+    title: new Set(tokenize(job.title)),
+    skills: new Set(job.skills.flatMap(skill => tokenize(skill.name))),
+    company: new Set(tokenize(job.company)),
+    requirements: new Set(job.requirements.flatMap(tokenize)),
+    description: new Set(tokenize(job.description)),
+    skillKeys: new Set(job.skills.map(skill => skill.key))
+  }]));
+
+const fieldMatches = (tokens: Set<string>, term: string) => {
+  if (tokens.has(term)) return true;
+  // Prefix matches let "engin" find "engineer" while typing
+  if (term.length < 3) return false;
+  for (const token of tokens) if (token.startsWith(term)) return true;
+  return false;
+};
+
+/**
+ * How well a job matches the search text; 0 when any term is missing. Terms that name a skill
+ * also match its other spellings through the posting's linked skills ("js" finds JavaScript).
+ */
+const textScore = (entry: JobIndexEntry | undefined, terms: string[]) => {
+  if (!entry) return 0;
+  let score = 0;
+  for (const term of terms) {
+    const weights = (Object.keys(FIELD_WEIGHTS) as SearchField[])
+      .filter(field => fieldMatches(entry[field], term))
+      .map(field => FIELD_WEIGHTS[field]);
+    if (entry.skillKeys.has(normalizeSkill(term))) weights.push(FIELD_WEIGHTS.skills);
+    if (weights.length === 0) return 0;
+    score += Math.max(...weights);
+  }
+  return score;
+};
+
+/**
+ * Share of the job's keywords (required skills and requirements) found in the resume's skills,
+ * 0-100. Nice-to-have skills only add a small bonus so they break ties.
+ */
+export const resumeFit = (resumeSkills: string[], job: Job) => {
+  const have = new Set(resumeSkills.map(normalizeSkill));
+  const keywords = jobKeywords(job);
+  const niceToHave = job.skills.filter(skill => !skill.required);
+  const required = keywords.length > 0 ? keywords.filter(k => have.has(k)).length / keywords.length : 0;
+  const bonus = niceToHave.length > 0 ? niceToHave.filter(skill => have.has(skill.key)).length / niceToHave.length : 0;
+  return Math.round(Math.min(1, required + bonus * 0.1) * 100);
+};
+
+type Facet = 'locations' | 'salaryBands' | 'seniority' | 'remotePolicies' | 'types';
+
+const facetValues = (job: Job, currency: string): Record<Facet, string[]> => ({
+  locations: [job.location],
+  salaryBands: salaryBandsOf(job, currency),
+  seniority: job.seniority ? [job.seniority] : [],
+  remotePolicies: [job.remotePolicy],
+  types: [job.type]
+});
+
+const FACETS: Facet[] = ['locations', 'salaryBands', 'seniority', 'remotePolicies', 'types'];
+
+// Within a facet any selected value matches; across facets all must match
+const passesFacet = (values: string[], selected: string[]) =>
+  selected.length === 0 || values.some(value => selected.includes(value));
+
+export interface FacetCount<T extends string = string> {
+  value: T;
+  count: number;
+}
+
+export interface JobFacets {
+  locations: FacetCount[];
+  salaryBands: FacetCount<SalaryBand>[];
+  /** Currencies the jobs pay in, with how many jobs pay in each. */
+  salaryCurrencies: FacetCount[];
+  /** The currency salary bands and the salary sort are in. */
+  salaryCurrency: string;
+  seniority: FacetCount<SeniorityLevel>[];
+  remotePolicies: FacetCount<RemotePolicy>[];
+  types: FacetCount[];
+}
+
+export interface JobSearchResult {
+  jobs: Job[];
+  /** Resume fit per job id, when ranking against a resume. */
+  fit: Record<string, number>;
+  /** Counts for each facet value given the text and every other facet's selection. */
+  facets: JobFacets;
+}
+
+const countValues = (jobs: Job[], values: (job: Job) => string[]) => {
+  const counts = new Map<string, number>();
+  jobs.forEach(job => values(job).forEach(value => counts.set(value, (counts.get(value) || 0) + 1)));
+  return counts;
+};
+
+// Facets whose values come from the jobs themselves; selected values stay listed at zero so
+// they can be cleared
+const openCounts = (counts: Map<string, number>, selected: string[]): FacetCount[] =>
+  [...new Set([...counts.keys(), ...selected])]
+    .map(value => ({ value, count: counts.get(value) || 0 }))
+    .sort((a, b) => b.count - a.count);
+
+export const searchJobs = (
+  jobs: Job[],
+  query: JobSearchQuery,
+  index: JobSearchIndex,
+  resumeSkills?: string[]
+): JobSearchResult => {
+  const terms = searchTerms(query.text);
+  const scores = new Map(jobs.map(job => [job.id, terms.length > 0 ? textScore(index.get(job.id), terms) : 0]));
+  const textMatches = terms.length > 0 ? jobs.filter(job => scores.get(job.id)! > 0) : jobs;
+  const currency = salaryCurrencyFor(textMatches, query);
+  const values = new Map(textMatches.map(job => [job.id, facetValues(job, currency)]));
+
+  const passesAllBut = (job: Job, skipped?: Facet) =>
+    FACETS.every(facet => facet === skipped || passesFacet(values.get(job.id)![facet], query[facet]));
+
+  const countsFor = (facet: Facet) =>
+    countValues(textMatches.filter(job => passesAllBut(job, facet)), job => values.get(job.id)![facet]);
+  const currencyCounts = countValues(textMatches.filter(job => passesAllBut(job, 'salaryBands')), job =>
+    job.salaryRange ? [job.salaryRange.currency] : []);
+  const locationCounts = countsFor('locations');
+  const salaryCounts = countsFor('salaryBands');
+  const seniorityCounts = countsFor('seniority');
+  const remoteCounts = countsFor('remotePolicies');
+  const typeCounts = countsFor('types');
+
+  const facets: JobFacets = {
+    locations: openCounts(locationCounts, query.locations),
+    salaryBands: SALARY_BANDS.map(band => ({ value: band.id, count: salaryCounts.get(band.id) || 0 })),
+    salaryCurrencies: openCounts(currencyCounts, [currency]),
+    salaryCurrency: currency,
+    seniority: SENIORITY_LEVELS.map(value => ({ value, count: seniorityCounts.get(value) || 0 })).filter(f => f.count > 0 || query.seniority.includes(f.value)),
+    remotePolicies: REMOTE_POLICIES.map(value => ({ value, count: remoteCounts.get(value) || 0 })),
+    types: openCounts(typeCounts, query.types)
+  };
+
+  const fit: Record<string, number> = {};
+  if (resumeSkills) textMatches.forEach(job => { fit[job.id] = resumeFit(resumeSkills, job); });
+
+  // Array.prototype.sort is stable, so ties keep the feed order (posted jobs first)
+  const results = textMatches.filter(job => passesAllBut(job));
+  const byScore = (a: Job, b: Job) => scores.get(b.id)! - scores.get(a.id)!;
+  if (query.sort === 'bestFit' && resumeSkills) {
+    results.sort((a, b) => fit[b.id] - fit[a.id] || byScore(a, b));
+  } else if (query.sort === 'salary') {
+    // Postings in other currencies can't be compared, so they go after, like unpaid ones
+    const topSalary = (job: Job) => job.salaryRange?.currency === currency ? yearlySalary(job)?.[1] ?? -1 : -1;
+    results.sort((a, b) => topSalary(b) - topSalary(a) || byScore(a, b));
+  } else {
+    results.sort(byScore);
+  }
+
+  return { jobs: results, fit, facets };
+};
+
+/** Whether the query narrows the feed at all, ignoring the sort. */
+export const isFilteredSearch = (query: JobSearchQuery) =>
+  query.text.trim() !== '' || FACETS.some(facet => query[facet].length > 0);
+
+/** Short description of a saved search, e.g. "react · Remote · $100K - $150K". */
+export const describeJobSearch = (query: JobSearchQuery) =>
+  [
+    query.text.trim(),
+    ...query.remotePolicies,
+    ...query.seniority,
+    ...query.salaryBands.map(id => salaryBandLabel(id, query.salaryCurrency || 'USD')),
+    ...query.locations,
+    ...query.types
+  ].filter(Boolean).join(' · ') || 'All jobs';
@@ -0,0 +1,101 @@
+// Blind review: what an employer sees of a candidate before deciding to take them further.
+import { Application, ResumeProfile } from '../types';
+
+/** Statuses past "Reviewed"; moving a candidate to one of these reveals who they are. */
+export const REVEALING_STATUSES: Application['status'][] = ['Shortlisted', 'Interview'];
+
+export const isRevealingStatus = (status: Application['status']) => REVEALING_STATUSES.includes(status);
+
+/** A stable stand-in name, e.g. "Candidate 7F3A", so rows can still be told apart. */
+export const candidateAlias = (app: Pick<Application, 'id'>) => {
+  let hash = 0;
+  for (const char of app.id) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return `Candidate ${(hash & 0xffff).toString(16).toUpperCase().padStart(4, '0')}`;
+};
+
+const REDACTED = '[redacted]';
+
+const PRONOUNS: Record<string, string> = {
+  he: 'they', she: 'they',
+  him: 'them',
+  his: 'their', her: 'their',
+  hers: 'theirs',
+  himself: 'themselves', herself: 'themselves'
+};
+
+// "her" is possessive before a noun ("her team") and an object otherwise ("interviewed her",
+// "gave her the role", "promoted her to lead")
+const AFTER_OBJECT_HER = new Set([
+  'a', 'an', 'the', 'this', 'that', 'these', 'those', 'my', 'our', 'your', 'their', 'some', 'any', 'every',
+  'to', 'for', 'with', 'about', 'as', 'at', 'in', 'on', 'into', 'onto', 'from', 'by', 'of', 'over', 'through',
+  'up', 'out', 'back', 'down', 'off', 'away', 'and', 'or', 'but', 'so', 'when', 'while', 'because', 'if', 'after', 'before'
+]);
+
+const neutralPronoun = (word: string, offset: number, text: string) => {
+  const lower = word.toLowerCase();
+  if (lower !== 'her') return PRONOUNS[lower];
+  const next = text.slice(offset + word.length).match(/^\s*([A-Za-z]+)?/)?.[1];
+  return !next || AFTER_OBJECT_HER.has(next.toLowerCase()) ? 'them' : 'their';
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const matchCase = (original: string, replacement: string) =>
+  original[0] === original[0].toUpperCase() ? replacement[0].toUpperCase() + replacement.slice(1) : replacement;
+
+/**
+ * Removes identifying details from free text: the candidate's name, contact details, links,
+ * honorifics, graduation years and gendered pronouns.
+ */
+export const redactText = (text: string, names: string[] = []) => {
+  let result = text
+    .replace(/[\w.+-]+@[\w-]+(\.[\w-]+)+/g, REDACTED)
+    .replace(/\bhttps?:\/\/\S+|\bwww\.\S+|\b(linkedin|github)\.com\/\S+/gi, REDACTED)
+    // Phone numbers; shorter digit runs are years, ranges or metrics
+    .replace(/\+?\d[\d\s().-]{7,}\d/g, match => match.replace(/\D/g, '').length >= 9 ? REDACTED : match)
+    .replace(/\b(Mr|Mrs|Ms|Miss|Mx)\.?\s+/g, '')
+    .replace(/\b(class of|graduated( in)?|graduating( in)?)\s+(19|20)\d{2}\b/gi, (_, phrase: string) => `${phrase} ${REDACTED}`)
+    .replace(/\b(he|she|him|his|her|hers|himself|herself)\b/gi, (word, _pronoun, offset: number, text: string) =>
+      matchCase(word, neutralPronoun(word, offset, text)));
+
+  names
+    .flatMap(name => name.split(/\s+/))
+    .filter(part => part.length > 1)
+    .forEach(part => {
+      result = result.replace(new RegExp(`\\b${escapeRegExp(part)}\\b`, 'gi'), '[Candidate]');
+    });
+  return result;
+};
+
+/** The profile without contact details or graduation years, and with its text redacted. */
+export const redactProfile = (profile: ResumeProfile, names: string[] = []): ResumeProfile => {
+  const redact = (text?: string) => text === undefined ? undefined : redactText(text, names);
+  return {
+    contact: {},
+    headline: redact(profile.headline),
+    experience: profile.experience.map(role => ({ ...role, highlights: role.highlights.map(h => redactText(h, names)) })),
+    // Graduation years hint at age
+    education: profile.education.map(({ startDate, endDate, ...education }) => education),
+    certifications: profile.certifications,
+    projects: profile.projects.map(project => ({ ...project, description: redact(project.description) })),
+    skills: profile.skills
+  };
+};
+
+/**
+ * The application as a blind reviewer sees it. The original file is dropped because it can hold
+ * a photo or name that can't be redacted here.
+ */
+export const redactApplication = (app: Application): Application => {
+  const names = [app.candidateName, app.resumeProfile?.contact.name || ''].filter(Boolean);
+  return {
+    ...app,
+    candidateName: candidateAlias(app),
+    candidateEmail: '',
+    candidatePhone: undefined,
+    candidateAddress: undefined,
+    resumeFile: undefined,
+    resumeSummary: app.resumeSummary && redactText(app.resumeSummary, names),
+    resumeProfile: app.resumeProfile && redactProfile(app.resumeProfile, names)
+  };
+};
@@ -0,0 +1,76 @@
+import { ResumeAnalysis, SavedResume } from '../types';
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+}
+
+export interface ResumeComparison {
+  scoreDelta: number;
+  strengths: ListDiff;
+  weaknesses: ListDiff;
+  /** `added` are skills gained in the newer version, `removed` skills lost. */
+  skills: ListDiff;
+}
+
+export interface ScorePoint {
+  id: string;
+  date: string;
+  score: number;
+  label: string;
+}
+
+const words = (text: string) =>
+  new Set(text.toLowerCase().replace(/[^a-z0-9+#\s]/g, ' ').split(/\s+/).filter(w => w.length > 2));
+
+// The analyzer rewords findings on every run, so two sentences count as the same finding when
+// most of their words overlap
+const SAME_FINDING_OVERLAP = 0.6;
+
+const sameFinding = (a: string, b: string) => {
+  const wordsA = words(a);
+  const wordsB = words(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return a.trim().toLowerCase() === b.trim().toLowerCase();
+  const shared = [...wordsA].filter(w => wordsB.has(w)).length;
+  return shared / (wordsA.size + wordsB.size - shared) >= SAME_FINDING_OVERLAP;
+};
+
+const diffFindings = (before: string[], after: string[]): ListDiff => ({
+  added: after.filter(item => !before.some(prev => sameFinding(prev, item))),
+  removed: before.filter(item => !after.some(next => sameFinding(item, next)))
+});
+
+// Skills are names, so an exact match ignoring case is the right test
+const diffSkills = (before: string[], after: string[]): ListDiff => {
+  const key = (skill: string) => skill.trim().toLowerCase();
+  const beforeKeys = new Set(before.map(key));
+  const afterKeys = new Set(after.map(key));
+  return {
+    added: after.filter(skill => !beforeKeys.has(key(skill))),
+    removed: before.filter(skill => !afterKeys.has(key(skill)))
+  };
+};
+
+/** What changed from `older` to `newer`. */
+export const compareResumes = (older: ResumeAnalysis, newer: ResumeAnalysis): ResumeComparison => ({
+  scoreDelta: newer.score - older.score,
+  strengths: diffFindings(older.strengths, newer.strengths),
+  weaknesses: diffFindings(older.weaknesses, newer.weaknesses),
+  skills: diffSkills(older.skills || [], newer.skills || [])
+});
+
+/** Orders two saved resumes oldest first, so comparisons always read as "before -> after". */
+export const chronological = (a: SavedResume, b: SavedResume): [SavedResume, SavedResume] =>
+  new Date(a.created_at).getTime() <= new Date(b.created_at).getTime() ? [a, b] : [b, a];
+
+/** Scores of every saved resume, oldest first. Job-tailored versions reuse their base score, so they're left out. */
+export const scoreHistory = (resumes: SavedResume[]): ScorePoint[] =>
+  resumes
+    .filter(r => !r.jobId && r.data && typeof r.data.score === 'number')
+    .map(r => ({
+      id: r.id,
+      date: r.created_at,
+      score: r.data.score,
+      label: r.label || r.data.file?.name || 'Resume'
+    }))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
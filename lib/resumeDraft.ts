@@ -0,0 +1,125 @@
+import { ResumeAnalysis, ResumeDraft, ResumeEditSuggestion, ResumeTailoring } from '../types';
+import { formatDateRange } from './resumeProfile';
+
+/** Editable copy of an analysis, or null for resumes analyzed before profiles were extracted. */
+export const createDraft = (analysis: ResumeAnalysis): ResumeDraft | null =>
+  analysis.profile
+    ? { summary: analysis.summary, profile: JSON.parse(JSON.stringify(analysis.profile)) }
+    : null;
+
+/**
+ * Plain-text rendering with the indices suggestions refer to, e.g. `HIGHLIGHT 0.2` is the third
+ * bullet of the first role.
+ */
+export const numberedResume = ({ summary, profile }: ResumeDraft) => {
+  const lines = [`SUMMARY: ${summary}`];
+  if (profile.headline) lines.push(`HEADLINE: ${profile.headline}`);
+  profile.experience.forEach((role, i) => {
+    lines.push(`ROLE ${i}: ${role.title} at ${role.company} (${formatDateRange(role.startDate, role.endDate) || 'dates unknown'})`);
+    role.highlights.forEach((highlight, j) => lines.push(`  HIGHLIGHT ${i}.${j}: ${highlight}`));
+  });
+  profile.projects.forEach((project, i) => {
+    lines.push(`PROJECT ${i}: ${project.name}${project.description ? ` - ${project.description}` : ''}`);
+  });
+  if (profile.skills.length > 0) lines.push(`SKILLS: ${profile.skills.map(s => s.name).join(', ')}`);
+  return lines.join('\n');
+};
+
+/** The text a suggestion would replace: '' for additions, undefined when the target is gone. */
+export const editTargetText = ({ summary, profile }: ResumeDraft, edit: ResumeEditSuggestion): string | undefined => {
+  switch (edit.section) {
+    case 'summary':
+      return summary;
+    case 'headline':
+      return profile.headline || '';
+    case 'highlight': {
+      const role = edit.itemIndex !== undefined ? profile.experience[edit.itemIndex] : undefined;
+      if (!role) return undefined;
+      return edit.highlightIndex === undefined ? '' : role.highlights[edit.highlightIndex];
+    }
+    case 'project': {
+      const project = edit.itemIndex !== undefined ? profile.projects[edit.itemIndex] : undefined;
+      return project ? project.description || '' : undefined;
+    }
+    case 'skill':
+      // Skills are only ever added
+      return profile.skills.some(s => s.name.toLowerCase() === edit.suggested.trim().toLowerCase()) ? undefined : '';
+  }
+};
+
+/** Drops suggestions that point at fields the draft doesn't have or that change nothing. */
+export const isApplicableEdit = (draft: ResumeDraft, edit: ResumeEditSuggestion) => {
+  const target = editTargetText(draft, edit);
+  return target !== undefined && edit.suggested.trim() !== '' && edit.suggested.trim() !== target.trim();
+};
+
+export const applyEdit = (draft: ResumeDraft, edit: ResumeEditSuggestion): ResumeDraft => {
+  if (!isApplicableEdit(draft, edit)) return draft;
+  const suggested = edit.suggested.trim();
+  const profile = { ...draft.profile };
+
+  switch (edit.section) {
+    case 'summary':
+      return { ...draft, summary: suggested };
+    case 'headline':
+      profile.headline = suggested;
+      break;
+    case 'highlight':
+      profile.experience = profile.experience.map((role, i) => {
+        if (i !== edit.itemIndex) return role;
+        const highlights = edit.highlightIndex === undefined
+          ? [...role.highlights, suggested]
+          : role.highlights.map((h, j) => j === edit.highlightIndex ? suggested : h);
+        return { ...role, highlights };
+      });
+      break;
+    case 'project':
+      profile.projects = profile.projects.map((project, i) => i === edit.itemIndex ? { ...project, description: suggested } : project);
+      break;
+    case 'skill':
+      profile.skills = [...profile.skills, { name: suggested }];
+      break;
+  }
+  return { ...draft, profile };
+};
+
+// Puts `items` in the order of `preferred` (matched ignoring case); anything not listed keeps its
+// place after them and names that aren't in `items` are ignored, so nothing new is added
+const orderLike = <T>(items: T[], name: (item: T) => string, preferred: string[]): T[] => {
+  const rank = new Map(preferred.map((p, i) => [p.trim().toLowerCase(), i] as const));
+  const position = (item: T) => rank.get(name(item).trim().toLowerCase()) ?? preferred.length;
+  return items
+    .map((item, i) => ({ item, i }))
+    .sort((a, b) => position(a.item) - position(b.item) || a.i - b.i)
+    .map(({ item }) => item);
+};
+
+/**
+ * Applies a job tailoring to a draft. A role's bullets are only replaced when the tailoring kept
+ * all of them, so a response that drops or merges bullets leaves that role as it was.
+ */
+export const applyTailoring = (draft: ResumeDraft, tailoring: ResumeTailoring): ResumeDraft => {
+  const experience = draft.profile.experience.map((role, i) => {
+    const tailored = tailoring.roles.find(r => r.index === i);
+    const highlights = tailored?.highlights.map(h => h.trim()).filter(Boolean);
+    return highlights && highlights.length === role.highlights.length ? { ...role, highlights } : role;
+  });
+
+  return {
+    summary: tailoring.summary.trim() || draft.summary,
+    profile: {
+      ...draft.profile,
+      headline: tailoring.headline?.trim() || draft.profile.headline,
+      experience,
+      skills: orderLike(draft.profile.skills, s => s.name, tailoring.skills)
+    }
+  };
+};
+
+/** The analysis of a tailored version: the base analysis with the tailored text and skill order. */
+export const tailoredAnalysis = (base: ResumeAnalysis, draft: ResumeDraft, tailoring: ResumeTailoring): ResumeAnalysis => ({
+  ...base,
+  summary: draft.summary,
+  profile: draft.profile,
+  skills: orderLike(base.skills || [], s => s, tailoring.skills)
+});
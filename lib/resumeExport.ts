@@ -0,0 +1,377 @@
+// ATS-friendly exports of an edited resume: one column, real text, standard fonts, no tables or
+// graphics. Both formats are generated from the same list of blocks so they always match.
+import { ResumeDraft } from '../types';
+import { formatDateRange, formatResumeDate } from './resumeProfile';
+
+type Block =
+  | { kind: 'name' | 'subtitle' | 'contact' | 'heading' | 'entry' | 'meta' | 'paragraph' | 'bullet'; text: string };
+
+export const resumeBlocks = ({ summary, profile }: ResumeDraft): Block[] => {
+  const blocks: Block[] = [];
+  const { contact } = profile;
+  const push = (kind: Block['kind'], text?: string) => {
+    if (text && text.trim()) blocks.push({ kind, text: text.trim() });
+  };
+
+  push('name', contact.name || 'Resume');
+  push('subtitle', profile.headline);
+  push('contact', [contact.email, contact.phone, contact.location, ...(contact.links || [])].filter(Boolean).join(' | '));
+
+  if (summary.trim()) {
+    push('heading', 'Summary');
+    push('paragraph', summary);
+  }
+
+  if (profile.experience.length > 0) {
+    push('heading', 'Experience');
+    profile.experience.forEach(role => {
+      push('entry', `${role.title}, ${role.company}`);
+      push('meta', [role.location, formatDateRange(role.startDate, role.endDate)].filter(Boolean).join(' | '));
+      role.highlights.forEach(highlight => push('bullet', highlight));
+    });
+  }
+
+  if (profile.education.length > 0) {
+    push('heading', 'Education');
+    profile.education.forEach(edu => {
+      const degree = [edu.degree, edu.field].filter(Boolean).join(', ');
+      push('entry', degree ? `${degree}, ${edu.institution}` : edu.institution);
+      push('meta', formatDateRange(edu.startDate, edu.endDate));
+    });
+  }
+
+  if (profile.certifications.length > 0) {
+    push('heading', 'Certifications');
+    profile.certifications.forEach(cert => {
+      push('bullet', [cert.name, cert.issuer, formatResumeDate(cert.date)].filter(Boolean).join(', '));
+    });
+  }
+
+  if (profile.projects.length > 0) {
+    push('heading', 'Projects');
+    profile.projects.forEach(project => {
+      push('entry', project.name);
+      push('meta', project.technologies?.join(', '));
+      push('paragraph', project.description);
+    });
+  }
+
+  if (profile.skills.length > 0) {
+    push('heading', 'Skills');
+    push('paragraph', profile.skills.map(s => s.name).join(', '));
+  }
+
+  return blocks;
+};
+
+/** A safe file name stem from the candidate's name, e.g. "Jane_Doe_Resume". */
+export const exportFileStem = (draft: ResumeDraft) =>
+  `${(draft.profile.contact.name || 'My').replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '_')}_Resume`;
+
+// --- PDF ---
+
+// WinAnsi bytes 0x80-0x9F (the rest of 0xA0-0xFF matches Latin-1)
+const WIN_ANSI_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+const toWinAnsi = (char: string) => {
+  const code = char.charCodeAt(0);
+  if (code < 0x80 || (code >= 0xa0 && code <= 0xff)) return code;
+  const high = WIN_ANSI_HIGH.indexOf(char);
+  if (high >= 0) return 0x80 + high;
+  // Accented letters outside the encoding keep their base letter, e.g. Ż becomes Z
+  const base = char.normalize('NFD')[0];
+  return base !== char && base.charCodeAt(0) < 0x80 ? base.charCodeAt(0) : 0x3f; // '?'
+};
+
+// Standard 14 font metrics (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+// Common non-ASCII glyphs; anything else is measured as a digit-width character
+const SPECIAL_WIDTHS: Record<string, number> = { '•': 350, '–': 556, '—': 1000, '‘': 222, '’': 222, '“': 333, '”': 333, '…': 1000, '€': 556 };
+
+const textWidth = (text: string, size: number, bold: boolean) => {
+  const table = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? table[code - 32] : SPECIAL_WIDTHS[char] ?? 556;
+  }
+  return (units * size) / 1000;
+};
+
+const wrap = (text: string, maxWidth: number, size: number, bold: boolean) => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && textWidth(candidate, size, bold) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+const pdfString = (text: string) =>
+  `(${Array.from(text).map(char => {
+    const byte = toWinAnsi(char);
+    if (byte >= 0x80) return `\\${byte.toString(8).padStart(3, '0')}`;
+    const ascii = String.fromCharCode(byte);
+    return ascii === '(' || ascii === ')' || ascii === '\\' ? `\\${ascii}` : ascii;
+  }).join('')})`;
+
+interface PdfStyle {
+  size: number;
+  bold: boolean;
+  gray?: boolean;
+  spaceBefore: number;
+  indent?: number;
+}
+
+const PDF_STYLES: Record<Block['kind'], PdfStyle> = {
+  name: { size: 20, bold: true, spaceBefore: 0 },
+  subtitle: { size: 11.5, bold: false, spaceBefore: 4 },
+  contact: { size: 9.5, bold: false, gray: true, spaceBefore: 4 },
+  heading: { size: 11, bold: true, spaceBefore: 14 },
+  entry: { size: 10.5, bold: true, spaceBefore: 8 },
+  meta: { size: 9.5, bold: false, gray: true, spaceBefore: 1 },
+  paragraph: { size: 10, bold: false, spaceBefore: 3 },
+  bullet: { size: 10, bold: false, spaceBefore: 2, indent: 12 }
+};
+
+const PAGE_WIDTH = 612; // US Letter, in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const LINE_HEIGHT = 1.3;
+
+/** Renders the resume as a text-based PDF using the built-in Helvetica fonts. */
+export const resumeToPdf = (draft: ResumeDraft): Uint8Array => {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  const contentWidth = PAGE_WIDTH - 2 * MARGIN;
+
+  const newPage = () => {
+    pages.push([]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  resumeBlocks(draft).forEach(block => {
+    const style = PDF_STYLES[block.kind];
+    const indent = style.indent || 0;
+    const text = block.kind === 'heading' ? block.text.toUpperCase() : block.text;
+    const lines = wrap(text, contentWidth - indent, style.size, style.bold);
+    const lineHeight = style.size * LINE_HEIGHT;
+
+    // Keep headings and entry titles with at least the two lines after them
+    const keepWithNext = block.kind === 'heading' || block.kind === 'entry' ? 2 * lineHeight : 0;
+    if (y - style.spaceBefore - lines.length * lineHeight - keepWithNext < MARGIN && pages[pages.length - 1].length > 0) {
+      newPage();
+    } else {
+      y -= style.spaceBefore;
+    }
+
+    const font = style.bold ? 'F2' : 'F1';
+    lines.forEach((line, i) => {
+      if (y - lineHeight < MARGIN) newPage();
+      y -= lineHeight;
+      const page = pages[pages.length - 1];
+      page.push(style.gray ? '0.33 0.33 0.33 rg' : '0 0 0 rg');
+      if (block.kind === 'bullet' && i === 0) {
+        page.push(`BT /F1 ${style.size} Tf ${MARGIN + 2} ${y.toFixed(2)} Td ${pdfString('•')} Tj ET`);
+      }
+      page.push(`BT /${font} ${style.size} Tf ${MARGIN + indent} ${y.toFixed(2)} Td ${pdfString(line)} Tj ET`);
+    });
+
+    if (block.kind === 'heading') {
+      y -= 3;
+      pages[pages.length - 1].push(`0.6 0.6 0.6 RG 0.75 w ${MARGIN} ${y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${y.toFixed(2)} l S`);
+    }
+  });
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and a content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Title ${pdfString(draft.profile.contact.name ? `${draft.profile.contact.name} - Resume` : 'Resume')} /Producer (CarrerX) >>`;
+  pages.forEach((ops, i) => {
+    const stream = ops.join('\n');
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  // Every character above is a single byte (non-ASCII text is octal-escaped), so string
+  // lengths are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(pdf, char => char.charCodeAt(0));
+};
+
+// --- DOCX ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/** Minimal ZIP writer (stored entries, no compression), enough for a small .docx. */
+const zip = (files: { name: string; content: string }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true); // version made by
+    entry.setUint16(6, 20, true); // version needed
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    out.set(part, position);
+    position += part.length;
+  });
+  return out;
+};
+
+const xmlEscape = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface DocxStyle {
+  size: number; // half-points
+  bold?: boolean;
+  color?: string;
+  spaceBefore: number; // twentieths of a point
+  rule?: boolean;
+  bullet?: boolean;
+}
+
+const DOCX_STYLES: Record<Block['kind'], DocxStyle> = {
+  name: { size: 40, bold: true, spaceBefore: 0 },
+  subtitle: { size: 23, spaceBefore: 80 },
+  contact: { size: 19, color: '555555', spaceBefore: 80 },
+  heading: { size: 22, bold: true, spaceBefore: 280, rule: true },
+  entry: { size: 21, bold: true, spaceBefore: 160 },
+  meta: { size: 19, color: '555555', spaceBefore: 20 },
+  paragraph: { size: 20, spaceBefore: 60 },
+  bullet: { size: 20, spaceBefore: 40, bullet: true }
+};
+
+const docxParagraph = (block: Block) => {
+  const style = DOCX_STYLES[block.kind];
+  const text = block.kind === 'heading' ? block.text.toUpperCase() : block.text;
+  const pPr = [
+    `<w:spacing w:before="${style.spaceBefore}" w:after="0"/>`,
+    style.rule ? '<w:pBdr><w:bottom w:val="single" w:sz="4" w:space="1" w:color="999999"/></w:pBdr>' : '',
+    style.bullet ? '<w:ind w:left="360" w:hanging="240"/>' : ''
+  ].join('');
+  const rPr = [
+    '<w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/>',
+    style.bold ? '<w:b/>' : '',
+    style.color ? `<w:color w:val="${style.color}"/>` : '',
+    `<w:sz w:val="${style.size}"/>`
+  ].join('');
+  const content = style.bullet ? `•\t${text}` : text;
+  return `<w:p><w:pPr>${pPr}</w:pPr><w:r><w:rPr>${rPr}</w:rPr>${content.split('\t').map(part => `<w:t xml:space="preserve">${xmlEscape(part)}</w:t>`).join('<w:tab/>')}</w:r></w:p>`;
+};
+
+/** Renders the resume as a Word document with plain paragraphs (no tables or text boxes). */
+export const resumeToDocx = (draft: ResumeDraft): Uint8Array => {
+  const body = resumeBlocks(draft).map(docxParagraph).join('');
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1080" w:right="1080" w:bottom="1080" w:left="1080" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  return zip([
+    {
+      name: '[Content_Types].xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>`
+    },
+    {
+      name: '_rels/.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`
+    },
+    { name: 'word/document.xml', content: documentXml }
+  ]);
+};
+
+export const PDF_MIME_TYPE = 'application/pdf';
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export const downloadBytes = (bytes: Uint8Array, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([new Uint8Array(bytes)], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,59 @@
+import { ResumeProfile } from '../types';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/** "2021-03" -> "Mar 2021"; year-only dates are shown as-is. */
+export const formatResumeDate = (value?: string) => {
+  if (!value) return '';
+  const [year, month] = value.split('-');
+  const index = Number(month) - 1;
+  return MONTHS[index] ? `${MONTHS[index]} ${year}` : year;
+};
+
+export const formatDateRange = (start?: string, end?: string) => {
+  if (!start) return formatResumeDate(end);
+  return `${formatResumeDate(start)} - ${end ? formatResumeDate(end) : 'Present'}`;
+};
+
+/** Compact plain-text rendering of a profile for prompts. */
+export const describeProfile = (profile: ResumeProfile) => {
+  const lines: string[] = [];
+  if (profile.headline) lines.push(`Headline: ${profile.headline}`);
+
+  if (profile.experience.length > 0) {
+    lines.push('Experience:');
+    profile.experience.forEach(role => {
+      lines.push(`- ${role.title} at ${role.company} (${formatDateRange(role.startDate, role.endDate) || 'dates unknown'})`);
+      role.highlights.forEach(highlight => lines.push(`  * ${highlight}`));
+    });
+  }
+
+  if (profile.education.length > 0) {
+    lines.push('Education:');
+    profile.education.forEach(edu => {
+      const degree = [edu.degree, edu.field].filter(Boolean).join(', ');
+      lines.push(`- ${degree ? `${degree}, ` : ''}${edu.institution}${edu.endDate ? ` (${formatResumeDate(edu.endDate)})` : ''}`);
+    });
+  }
+
+  if (profile.certifications.length > 0) {
+    lines.push(`Certifications: ${profile.certifications.map(c => c.issuer ? `${c.name} (${c.issuer})` : c.name).join(', ')}`);
+  }
+
+  if (profile.projects.length > 0) {
+    lines.push('Projects:');
+    profile.projects.forEach(project => {
+      lines.push(`- ${project.name}${project.description ? `: ${project.description}` : ''}`);
+    });
+  }
+
+  if (profile.skills.length > 0) {
+    const skills = profile.skills.map(skill => {
+      const details = [skill.proficiency, skill.years !== undefined ? `${skill.years}y` : ''].filter(Boolean).join(', ');
+      return details ? `${skill.name} (${details})` : skill.name;
+    });
+    lines.push(`Skills: ${skills.join(', ')}`);
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Route, buildPath, parsePath } from './routes';
+
+// Minimal history-based router for the signed-in app, over the paths in ./routes. vercel.json
+// rewrites all paths to index.html so deep links survive a refresh.
+
+const currentRoute = () => parsePath(window.location.pathname);
+
+/**
+ * Tracks the route in the address bar. `navigate` pushes a history entry (or replaces the
+ * current one), and back/forward buttons update the route through `popstate`.
+ */
+export const useRoute = () => {
+  const [route, setRoute] = useState<Route | null>(currentRoute);
+
+  useEffect(() => {
+    const onPopState = () => setRoute(currentRoute());
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  const navigate = useCallback((next: Route | null, options: { replace?: boolean } = {}) => {
+    const path = next ? buildPath(next) : '/';
+    if (path !== window.location.pathname) {
+      if (options.replace) window.history.replaceState(null, '', path);
+      else window.history.pushState(null, '', path);
+    }
+    setRoute(next);
+  }, []);
+
+  return { route, navigate };
+};
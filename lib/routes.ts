@@ -0,0 +1,67 @@
+import { AppView, UserRole } from '../types';
+
+// The signed-in app's paths. Every AppView has one; views that can point at one record (a job,
+// an application) take an optional id segment. Kept free of React so links can be built outside
+// the browser, e.g. in alert emails.
+
+export interface Route {
+  view: AppView;
+  /** Job id for JOBS, application id for APPLICANTS/SHORTLISTED. */
+  id?: string;
+}
+
+const PATHS: Record<AppView, string> = {
+  [AppView.DASHBOARD]: '/dashboard',
+  [AppView.EMPLOYER_DASHBOARD]: '/employer',
+  [AppView.MY_APPLICATIONS]: '/applications',
+  [AppView.RESUME]: '/resume',
+  [AppView.JOBS]: '/jobs',
+  [AppView.SKILLS]: '/skills',
+  [AppView.COVER_LETTER]: '/cover-letter',
+  [AppView.INTERVIEW]: '/interview',
+  [AppView.INSIGHTS]: '/insights',
+  [AppView.APPLICANTS]: '/applicants',
+  [AppView.SHORTLISTED]: '/shortlisted',
+  [AppView.CALENDAR]: '/calendar',
+  [AppView.SETTINGS]: '/settings'
+};
+
+const ROUTES_WITH_ID = new Set([AppView.JOBS, AppView.APPLICANTS, AppView.SHORTLISTED]);
+
+// Mirrors the Sidebar: each role only gets the views in its own navigation
+const ROLES: Record<AppView, UserRole[]> = {
+  [AppView.DASHBOARD]: ['candidate'],
+  [AppView.MY_APPLICATIONS]: ['candidate'],
+  [AppView.RESUME]: ['candidate'],
+  [AppView.SKILLS]: ['candidate'],
+  [AppView.COVER_LETTER]: ['candidate'],
+  [AppView.INTERVIEW]: ['candidate'],
+  [AppView.INSIGHTS]: ['candidate'],
+  [AppView.EMPLOYER_DASHBOARD]: ['employer'],
+  [AppView.APPLICANTS]: ['employer'],
+  [AppView.SHORTLISTED]: ['employer'],
+  [AppView.JOBS]: ['candidate', 'employer'],
+  [AppView.CALENDAR]: ['candidate', 'employer'],
+  [AppView.SETTINGS]: ['candidate', 'employer']
+};
+
+export const homeView = (role: UserRole = 'candidate') =>
+  role === 'employer' ? AppView.EMPLOYER_DASHBOARD : AppView.DASHBOARD;
+
+export const canAccess = (view: AppView, role: UserRole = 'candidate') => ROLES[view].includes(role);
+
+export const buildPath = (route: Route) =>
+  route.id && ROUTES_WITH_ID.has(route.view)
+    ? `${PATHS[route.view]}/${encodeURIComponent(route.id)}`
+    : PATHS[route.view];
+
+/** Returns null for `/` and for paths that don't belong to any view. */
+export const parsePath = (pathname: string): Route | null => {
+  const [base, id, ...rest] = pathname.split('/').filter(Boolean);
+  if (!base || rest.length > 0) return null;
+
+  const view = (Object.keys(PATHS) as AppView[]).find(v => PATHS[v] === `/${base}`);
+  if (!view || (id && !ROUTES_WITH_ID.has(view))) return null;
+
+  return id ? { view, id: decodeURIComponent(id) } : { view };
+};
@@ -0,0 +1,114 @@
+// The skills vocabulary. Job postings link their skills to it and the keyword scorer matches
+// against it, so "JS", "ES6" and "JavaScript" are the same skill everywhere.
+
+interface SkillEntry {
+  label: string;
+  /** Other spellings, lowercase. */
+  aliases: string[];
+}
+
+// Keyed by canonical name (lowercase)
+const SKILLS: Record<string, SkillEntry> = {
+  javascript: { label: 'JavaScript', aliases: ['js', 'es6', 'ecmascript'] },
+  typescript: { label: 'TypeScript', aliases: ['ts'] },
+  react: { label: 'React', aliases: ['reactjs', 'react.js'] },
+  'react native': { label: 'React Native', aliases: ['react-native'] },
+  redux: { label: 'Redux', aliases: ['redux toolkit'] },
+  vue: { label: 'Vue', aliases: ['vuejs', 'vue.js'] },
+  angular: { label: 'Angular', aliases: ['angularjs', 'angular.js'] },
+  'next.js': { label: 'Next.js', aliases: ['nextjs', 'next'] },
+  'node.js': { label: 'Node.js', aliases: ['node', 'nodejs'] },
+  express: { label: 'Express', aliases: ['expressjs', 'express.js'] },
+  python: { label: 'Python', aliases: ['py'] },
+  java: { label: 'Java', aliases: [] },
+  kotlin: { label: 'Kotlin', aliases: [] },
+  swift: { label: 'Swift', aliases: [] },
+  go: { label: 'Go', aliases: ['golang'] },
+  rust: { label: 'Rust', aliases: [] },
+  php: { label: 'PHP', aliases: [] },
+  'c#': { label: 'C#', aliases: ['csharp', 'c sharp'] },
+  'c++': { label: 'C++', aliases: ['cpp'] },
+  '.net': { label: '.NET', aliases: ['dotnet', 'asp.net'] },
+  ruby: { label: 'Ruby', aliases: ['rails', 'ruby on rails', 'ror'] },
+  postgresql: { label: 'PostgreSQL', aliases: ['postgres', 'psql'] },
+  mysql: { label: 'MySQL', aliases: ['my sql'] },
+  mongodb: { label: 'MongoDB', aliases: ['mongo'] },
+  sql: { label: 'SQL', aliases: ['t-sql', 'pl/sql'] },
+  graphql: { label: 'GraphQL', aliases: ['gql'] },
+  'rest api': { label: 'REST API', aliases: ['rest', 'restful', 'rest apis', 'restful apis'] },
+  aws: { label: 'AWS', aliases: ['amazon web services'] },
+  gcp: { label: 'GCP', aliases: ['google cloud', 'google cloud platform'] },
+  azure: { label: 'Azure', aliases: ['microsoft azure'] },
+  kubernetes: { label: 'Kubernetes', aliases: ['k8s'] },
+  docker: { label: 'Docker', aliases: ['containers', 'containerization'] },
+  'ci/cd': { label: 'CI/CD', aliases: ['cicd', 'continuous integration', 'continuous delivery', 'continuous deployment'] },
+  terraform: { label: 'Terraform', aliases: ['iac', 'infrastructure as code'] },
+  linux: { label: 'Linux', aliases: [] },
+  git: { label: 'Git', aliases: [] },
+  jest: { label: 'Jest', aliases: [] },
+  cypress: { label: 'Cypress', aliases: [] },
+  storybook: { label: 'Storybook', aliases: [] },
+  'machine learning': { label: 'Machine Learning', aliases: ['ml'] },
+  'artificial intelligence': { label: 'Artificial Intelligence', aliases: ['ai'] },
+  'natural language processing': { label: 'Natural Language Processing', aliases: ['nlp'] },
+  'user experience': { label: 'User Experience', aliases: ['ux'] },
+  'user interface': { label: 'User Interface', aliases: ['ui'] },
+  figma: { label: 'Figma', aliases: [] },
+  css: { label: 'CSS', aliases: ['css3'] },
+  html: { label: 'HTML', aliases: ['html5'] },
+  tailwind: { label: 'Tailwind', aliases: ['tailwindcss', 'tailwind css'] },
+  'project management': { label: 'Project Management', aliases: ['pm'] },
+  agile: { label: 'Agile', aliases: ['scrum', 'kanban'] },
+  'search engine optimization': { label: 'SEO', aliases: ['seo'] },
+  'product management': { label: 'Product Management', aliases: ['product manager'] },
+  excel: { label: 'Excel', aliases: ['microsoft excel', 'ms excel'] },
+  'data analysis': { label: 'Data Analysis', aliases: ['data analytics'] },
+  tableau: { label: 'Tableau', aliases: [] },
+  looker: { label: 'Looker', aliases: [] }
+};
+
+const CANONICAL = new Map<string, string>(
+  Object.entries(SKILLS).flatMap(([name, { aliases }]) => [[name, name], ...aliases.map(a => [a, name] as [string, string])])
+);
+
+// Ambiguous short aliases ("go", "ts", "ai", "next", "node"...) are only trusted inside a list of
+// skills, never when picked out of prose where they are usually ordinary words
+export const PROSE_UNSAFE = new Set(['go', 'js', 'ts', 'py', 'ai', 'ml', 'ui', 'ux', 'pm', 'next', 'node', 'rest', 'express', 'rails', 'containers', 'swift', 'rust']);
+
+/** Display names of every skill in the vocabulary, for suggestions. */
+export const SKILL_VOCABULARY = Object.values(SKILLS).map(skill => skill.label);
+
+/**
+ * Lowercase words, keeping the characters that matter in skill names (c++, c#, node.js, ci/cd).
+ * Other slashed pairs are split, so "React/Redux" reads as two words.
+ */
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().replace(/[^a-z0-9+#./\-\s]/g, ' ').split(/\s+/)
+    .map(token => token.replace(/^[./\-]+|[./\-]+$/g, ''))
+    .flatMap(token => token.includes('/') && !CANONICAL.has(token) ? token.split('/') : [token])
+    .filter(Boolean);
+
+/** The canonical name of a skill; skills outside the vocabulary are just lowercased. */
+export const normalizeSkill = (skill: string) => {
+  const key = tokenize(skill).join(' ');
+  return CANONICAL.get(key) ?? key;
+};
+
+/** Display name for a canonical skill name. */
+export const skillLabel = (key: string) => SKILLS[key]?.label ?? key;
+
+export const skillAliases = (key: string) => SKILLS[key]?.aliases ?? [];
+
+/** Known skills mentioned anywhere in free text, by canonical name. */
+export const skillsInText = (text: string) => {
+  const tokens = tokenize(text);
+  const found = new Set<string>();
+  for (let size = 1; size <= 3; size++) {
+    for (let i = 0; i + size <= tokens.length; i++) {
+      const phrase = tokens.slice(i, i + size).join(' ');
+      const canonical = CANONICAL.get(phrase);
+      if (canonical && !(size === 1 && PROSE_UNSAFE.has(phrase))) found.add(canonical);
+    }
+  }
+  return found;
+};
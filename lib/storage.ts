@@ -0,0 +1,25 @@
+// Small JSON wrappers around localStorage. Failures (quota, private mode, corrupt JSON) are
+// logged and swallowed so callers can treat local storage as a best-effort cache.
+
+// Missing outside the browser, e.g. when the AI services run under Node for prompt evals
+const hasLocalStorage = () => typeof localStorage !== 'undefined';
+
+export const readJson = <T>(key: string, fallback: T): T => {
+  if (!hasLocalStorage()) return fallback;
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch (e) {
+    console.warn(`Failed to read ${key} from local storage:`, e);
+    return fallback;
+  }
+};
+
+export const writeJson = (key: string, value: unknown) => {
+  if (!hasLocalStorage()) return;
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.warn(`Failed to write ${key} to local storage:`, e);
+  }
+};
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Returns a getter for an AbortSignal that fires when the component unmounts. Pass it to AI
+ * calls so navigating away cancels them instead of setting state on an unmounted component.
+ */
+export const useAbortOnUnmount = (): (() => AbortSignal) => {
+  const controllerRef = useRef(new AbortController());
+
+  useEffect(() => {
+    // StrictMode unmounts and remounts once in development; start over with a live controller
+    if (controllerRef.current.signal.aborted) controllerRef.current = new AbortController();
+    const controller = controllerRef.current;
+    return () => controller.abort();
+  }, []);
+
+  return useCallback(() => controllerRef.current.signal, []);
+};
+
+/**
+ * One cancellable request at a time: `start()` returns a signal that is aborted by `stop()`,
+ * by the next `start()`, or when the component unmounts. Used for stop buttons on streams.
+ */
+export const useStoppableRequest = () => {
+  const getUnmountSignal = useAbortOnUnmount();
+  const currentRef = useRef<AbortController | null>(null);
+
+  const start = useCallback(() => {
+    currentRef.current?.abort();
+    const controller = new AbortController();
+    const unmountSignal = getUnmountSignal();
+    if (unmountSignal.aborted) controller.abort();
+    else unmountSignal.addEventListener('abort', () => controller.abort(), { once: true });
+    currentRef.current = controller;
+    return controller.signal;
+  }, [getUnmountSignal]);
+
+  const stop = useCallback(() => {
+    currentRef.current?.abort();
+    currentRef.current = null;
+  }, []);
+
+  return { start, stop };
+};
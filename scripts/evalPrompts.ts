@@ -0,0 +1,116 @@
+// Replays the eval fixture set through two versions of the scoring prompts and reports how the
+// score distribution moves. Uses the offline mock provider unless `--live` is passed.
+//
+//   npm run eval:prompts -- --prompt jobMatch --baseline v1 --candidate v2
+//   API_KEY=... npm run eval:prompts -- --live
+import { analyzeJobMatch, analyzeResume } from '../services/gemini';
+import { setAiProvider } from '../services/aiProvider';
+import { createMockProvider } from '../services/mockProvider';
+import { activePromptVersion, promptVersions, PromptId } from '../services/prompts';
+import { evalJobs, evalResumes } from '../services/fixtures/evalCases';
+
+type ScoredPrompt = Extract<PromptId, 'analyzeResume' | 'jobMatch'>;
+
+interface EvalCase {
+  id: string;
+  score: (promptVersion: string) => Promise<number>;
+}
+
+const CASES: Record<ScoredPrompt, EvalCase[]> = {
+  analyzeResume: evalResumes.map(resume => ({
+    id: resume.id,
+    score: async promptVersion =>
+      (await analyzeResume({ text: resume.text }, { promptVersion })).score
+  })),
+  jobMatch: evalResumes.flatMap(resume => evalJobs.map(job => ({
+    id: `${resume.id} x ${job.id}`,
+    score: async promptVersion =>
+      (await analyzeJobMatch(resume, job.description, { promptVersion })).matchScore
+  })))
+};
+
+const BUCKETS = [0, 60, 70, 80, 90];
+
+const argValue = (name: string) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const stats = (scores: number[]) => {
+  const sorted = [...scores].sort((a, b) => a - b);
+  const mean = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  const variance = scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / scores.length;
+  return {
+    mean,
+    median: sorted[Math.floor(sorted.length / 2)],
+    stdDev: Math.sqrt(variance),
+    min: sorted[0],
+    max: sorted[sorted.length - 1]
+  };
+};
+
+const histogram = (scores: number[]) =>
+  BUCKETS.map((low, i) => {
+    const high = BUCKETS[i + 1] ?? 101;
+    const label = high > 100 ? `${low}+` : `${low}-${high - 1}`;
+    return `${label}: ${scores.filter(s => s >= low && s < high).length}`;
+  }).join('  ');
+
+const pickVersions = (id: ScoredPrompt) => {
+  const versions = promptVersions(id);
+  const baseline = argValue('baseline') || activePromptVersion(id);
+  // Default to the newest registered version that isn't the baseline
+  const candidate = argValue('candidate') || [...versions].reverse().find(v => v !== baseline) || baseline;
+  for (const version of [baseline, candidate]) {
+    if (!versions.includes(version)) throw new Error(`${id} has no version ${version} (known: ${versions.join(', ')})`);
+  }
+  return { baseline, candidate };
+};
+
+const evaluate = async (id: ScoredPrompt) => {
+  const { baseline, candidate } = pickVersions(id);
+  console.log(`\n== ${id}: ${baseline} -> ${candidate} (${CASES[id].length} cases)`);
+  if (baseline === candidate) console.log('Only one version to compare; register a new version to see drift.');
+
+  const rows: { id: string; before: number; after: number }[] = [];
+  for (const evalCase of CASES[id]) {
+    rows.push({
+      id: evalCase.id,
+      before: await evalCase.score(baseline),
+      after: await evalCase.score(candidate)
+    });
+  }
+
+  const before = stats(rows.map(r => r.before));
+  const after = stats(rows.map(r => r.after));
+  const format = (n: number) => n.toFixed(1).padStart(6);
+  console.log(`           ${baseline.padStart(6)} ${candidate.padStart(6)}`);
+  for (const key of ['mean', 'median', 'stdDev', 'min', 'max'] as const) {
+    console.log(`${key.padEnd(10)} ${format(before[key])} ${format(after[key])}`);
+  }
+  console.log(`${baseline} buckets  ${histogram(rows.map(r => r.before))}`);
+  console.log(`${candidate} buckets  ${histogram(rows.map(r => r.after))}`);
+
+  const deltas = rows.map(r => ({ ...r, delta: r.after - r.before }));
+  const moved = deltas.filter(r => r.delta !== 0).sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+  console.log(`mean drift ${(after.mean - before.mean).toFixed(1)}, ${moved.length}/${rows.length} cases changed`);
+  for (const row of moved.slice(0, 5)) {
+    console.log(`  ${row.id}: ${row.before} -> ${row.after} (${row.delta > 0 ? '+' : ''}${row.delta})`);
+  }
+};
+
+const main = async () => {
+  if (!process.argv.includes('--live')) setAiProvider(createMockProvider());
+
+  const only = argValue('prompt') as ScoredPrompt | undefined;
+  if (only && !(only in CASES)) throw new Error(`No eval cases for ${only}; choose ${Object.keys(CASES).join(' or ')}`);
+
+  for (const id of only ? [only] : Object.keys(CASES) as ScoredPrompt[]) {
+    await evaluate(id);
+  }
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,86 @@
+import { readJson, writeJson } from '../lib/storage';
+import { AiTask, getAiProvider } from './aiProvider';
+
+const CACHE_KEY = 'carrerx_ai_cache';
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60_000;
+// localStorage is small; evict the oldest entries beyond this
+const MAX_ENTRIES = 200;
+
+interface CacheEntry {
+  task: AiTask;
+  value: unknown;
+  createdAt: number;
+  expiresAt: number;
+}
+
+type CacheStore = Record<string, CacheEntry>;
+
+const load = () => readJson<CacheStore>(CACHE_KEY, {});
+
+const prune = (store: CacheStore): CacheStore => {
+  const now = Date.now();
+  const live = Object.entries(store)
+    .filter(([, entry]) => entry.expiresAt > now)
+    .sort(([, a], [, b]) => b.createdAt - a.createdAt)
+    .slice(0, MAX_ENTRIES);
+  return Object.fromEntries(live);
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 over the provider, task, prompt version and inputs, so any change to one is a cache
+ * miss. Mock answers in particular must never be served once a real provider is configured.
+ */
+export const aiCacheKey = async (task: AiTask, promptVersion: string, inputs: unknown): Promise<string> => {
+  const payload = JSON.stringify({ provider: getAiProvider().name, task, promptVersion, inputs });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return toHex(digest);
+};
+
+export const readAiCache = <T>(key: string): T | null => {
+  const entry = load()[key];
+  if (!entry || entry.expiresAt <= Date.now()) return null;
+  return entry.value as T;
+};
+
+export const writeAiCache = (key: string, task: AiTask, value: unknown, ttlMs: number = DEFAULT_TTL_MS) => {
+  const now = Date.now();
+  writeJson(CACHE_KEY, prune({
+    ...load(),
+    [key]: { task, value, createdAt: now, expiresAt: now + ttlMs }
+  }));
+};
+
+/** Drops cached results, either for the given tasks or everything. */
+export const invalidateAiCache = (tasks?: AiTask[]) => {
+  if (!tasks) {
+    writeJson(CACHE_KEY, {});
+    return;
+  }
+  const store = load();
+  writeJson(CACHE_KEY, Object.fromEntries(
+    Object.entries(store).filter(([, entry]) => !tasks.includes(entry.task))
+  ));
+};
+
+/**
+ * Returns the cached result for these inputs, or computes and stores it. Failures and empty
+ * answers are not cached, so the next call asks the model again.
+ */
+export const withAiCache = async <T>(
+  task: AiTask,
+  promptVersion: string,
+  inputs: unknown,
+  compute: () => Promise<T>,
+  ttlMs?: number
+): Promise<T> => {
+  const key = await aiCacheKey(task, promptVersion, inputs);
+  const cached = readAiCache<T>(key);
+  if (cached !== null) return cached;
+
+  const value = await compute();
+  if (value !== null && value !== undefined && value !== '') writeAiCache(key, task, value, ttlMs);
+  return value;
+};
@@ -0,0 +1,67 @@
+export type AiErrorKind =
+  | 'quota'
+  | 'auth'
+  | 'unavailable'
+  | 'not-found'
+  | 'invalid-output'
+  | 'timeout'
+  | 'cancelled'
+  | 'unknown';
+
+const DEFAULT_MESSAGES: Record<AiErrorKind, string> = {
+  quota: "The AI service is receiving too many requests. Please wait a moment and try again.",
+  auth: "Your API key was rejected. Please check your key and quota, then refresh the page.",
+  unavailable: "The AI model is currently unavailable. Please try again later.",
+  'not-found': "The configured AI model doesn't exist or isn't available to this API key.",
+  'invalid-output': "The AI returned a response we couldn't read. Please try again.",
+  timeout: "The AI took too long to respond. Please try again.",
+  cancelled: "The request was cancelled.",
+  unknown: "Something went wrong while talking to the AI service."
+};
+
+/** Every failure from services/gemini.ts is surfaced as an AiError with one of the kinds above. */
+export class AiError extends Error {
+  constructor(public readonly kind: AiErrorKind, message?: string, public readonly status?: number) {
+    super(message || DEFAULT_MESSAGES[kind]);
+    this.name = 'AiError';
+  }
+
+  /** Rate limits and overloaded backends usually clear up on their own. */
+  get retryable() {
+    return this.kind === 'quota' || this.kind === 'unavailable';
+  }
+}
+
+export const isAiError = (error: unknown): error is AiError => error instanceof AiError;
+
+export const isCancelled = (error: unknown) => isAiError(error) && error.kind === 'cancelled';
+
+const kindForStatus = (status: number): AiErrorKind | null => {
+  if (status === 429) return 'quota';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 404) return 'not-found';
+  if (status === 500 || status === 502 || status === 503 || status === 504) return 'unavailable';
+  return null;
+};
+
+/**
+ * Maps SDK, fetch and abort errors onto the taxonomy. The SDK exposes an HTTP status on its
+ * ApiError; for anything else we fall back to matching the message.
+ */
+export const toAiError = (error: any): AiError => {
+  if (isAiError(error)) return error;
+  if (error?.name === 'AbortError') return new AiError('cancelled');
+
+  const status = typeof error?.status === 'number' ? error.status : undefined;
+  const fromStatus = status !== undefined ? kindForStatus(status) : null;
+  if (fromStatus) return new AiError(fromStatus, undefined, status);
+
+  const message = String(error?.message || '').toLowerCase();
+  if (message.includes('429') || message.includes('resource_exhausted') || message.includes('quota')) return new AiError('quota');
+  if (message.includes('403') || message.includes('permission_denied') || message.includes('leaked') || message.includes('api key')) return new AiError('auth');
+  if (message.includes('503') || message.includes('unavailable') || message.includes('overloaded')) return new AiError('unavailable');
+  if (message.includes('404') || message.includes('not found')) return new AiError('not-found');
+  if (message.includes('failed to fetch') || message.includes('network')) return new AiError('unavailable');
+
+  return new AiError('unknown', error?.message);
+};
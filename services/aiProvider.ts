@@ -0,0 +1,73 @@
+import type { Schema } from "@google/genai";
+import { GroundingSource } from "../types";
+import { AiError } from "./aiErrors";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+
+/** Every AI feature in the app. Providers can use it to pick fixtures, models or limits. */
+export type AiTask =
+  | 'analyzeResume'
+  | 'improvementExample'
+  | 'interviewReport'
+  | 'marketInsights'
+  | 'tailoredJobs'
+  | 'jobMatch'
+  | 'coverLetter'
+  | 'suggestSkills'
+  | 'resumeRewrite'
+  | 'tailorResume'
+  | 'chat'
+  | 'interviewResponse';
+
+export type AiPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+export interface AiRequest {
+  task: AiTask;
+  contents: string | AiPart[];
+  systemInstruction?: string;
+  /** When set the provider must return JSON matching this schema. */
+  responseSchema?: Schema;
+  /** Prior turns for chat-style tasks. */
+  history?: { role: 'user' | 'model'; text: string }[];
+  /** Ground the answer in live web search results. */
+  googleSearch?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface AiResponse {
+  text: string;
+  sources?: GroundingSource[];
+}
+
+export interface AiProvider {
+  name: string;
+  generate(request: AiRequest): Promise<AiResponse>;
+  /** Yields the answer as it is produced. Each chunk's text is a delta, not the full text so far. */
+  stream(request: AiRequest): AsyncIterable<AiResponse>;
+}
+
+let activeProvider: AiProvider | null = null;
+
+/**
+ * Resolves the provider once per session. The offline mock is only used when `AI_PROVIDER=mock`
+ * is set explicitly; a missing key is a configuration error, not a reason to serve fixtures.
+ */
+export const getAiProvider = (): AiProvider => {
+  if (activeProvider) return activeProvider;
+
+  if (process.env.AI_PROVIDER === 'mock') {
+    activeProvider = createMockProvider();
+  } else if (!process.env.API_KEY) {
+    throw new AiError('auth', "No API key is configured. Set API_KEY, or AI_PROVIDER=mock to use the offline mock.");
+  } else {
+    activeProvider = createGeminiProvider();
+  }
+  return activeProvider;
+};
+
+/** Overrides the provider, e.g. with a mock in tests or the evaluation runner. */
+export const setAiProvider = (provider: AiProvider | null) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,169 @@
+import { AiError, toAiError } from "./aiErrors";
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 1_000;
+// Keeps one user from flooding the shared key; extra calls wait for a free slot
+const MAX_CONCURRENT_PER_USER = 2;
+
+export interface AiCallOptions {
+  /** Aborts the request, e.g. when the calling component unmounts. */
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+let currentUser = 'anonymous';
+const activeCounts = new Map<string, number>();
+const waiting = new Map<string, (() => void)[]>();
+
+/** Scopes the concurrency cap to the signed-in user. */
+export const setAiRequestUser = (userId: string | null) => {
+  currentUser = userId || 'anonymous';
+};
+
+const cancelledError = () => new AiError('cancelled');
+
+const acquireSlot = (user: string, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const active = activeCounts.get(user) || 0;
+  if (active < MAX_CONCURRENT_PER_USER) {
+    activeCounts.set(user, active + 1);
+    resolve();
+    return;
+  }
+
+  const queue = waiting.get(user) || [];
+  const grant = () => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  };
+  const onAbort = () => {
+    waiting.set(user, (waiting.get(user) || []).filter(w => w !== grant));
+    reject(cancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+  waiting.set(user, [...queue, grant]);
+});
+
+const releaseSlot = (user: string) => {
+  const [next, ...rest] = waiting.get(user) || [];
+  if (next) {
+    // Hand the slot straight to the next caller so the count stays the same
+    waiting.set(user, rest);
+    next();
+  } else {
+    activeCounts.set(user, Math.max(0, (activeCounts.get(user) || 1) - 1));
+  }
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const backoffDelay = (attempt: number) => {
+  const exponential = BASE_BACKOFF_MS * 2 ** attempt;
+  return exponential + Math.random() * exponential * 0.2;
+};
+
+/** Runs one attempt with its own controller so both the caller and the timeout can cancel it. */
+const attemptOnce = <T>(run: (signal: AbortSignal) => Promise<T>, signal: AbortSignal | undefined, timeoutMs: number) =>
+  new Promise<T>((resolve, reject) => {
+    const controller = new AbortController();
+    const onAbort = () => {
+      controller.abort();
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(new AiError('timeout'));
+    }, timeoutMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    // Not every provider honours the signal, so we settle on abort/timeout ourselves
+    run(controller.signal)
+      .then(resolve, error => reject(toAiError(error)))
+      .finally(() => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      });
+  });
+
+/**
+ * Shared wrapper for every AI call: waits for a concurrency slot, applies a timeout, retries
+ * rate-limit and availability errors with exponential backoff, and rejects with a typed AiError.
+ */
+export const runAiRequest = async <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  options: AiCallOptions = {}
+): Promise<T> => {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+  if (signal?.aborted) throw cancelledError();
+
+  const user = currentUser;
+  await acquireSlot(user, signal);
+  try {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await attemptOnce(run, signal, timeoutMs);
+      } catch (error) {
+        const aiError = toAiError(error);
+        if (!aiError.retryable || attempt + 1 >= MAX_ATTEMPTS) throw aiError;
+        console.warn(`AI request failed (${aiError.kind}), retrying...`);
+        await sleep(backoffDelay(attempt), signal);
+      }
+    }
+  } finally {
+    releaseSlot(user);
+  }
+};
+
+/**
+ * Streaming counterpart of runAiRequest. The timeout applies to the gap between chunks so long
+ * answers can keep going, and transient errors are only retried before the first chunk arrives.
+ */
+export async function* runAiStream<T>(
+  open: (signal: AbortSignal) => AsyncIterable<T>,
+  options: AiCallOptions = {}
+): AsyncGenerator<T> {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+  if (signal?.aborted) throw cancelledError();
+
+  const user = currentUser;
+  await acquireSlot(user, signal);
+  try {
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const onAbort = () => controller.abort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      let started = false;
+
+      try {
+        const iterator = open(controller.signal)[Symbol.asyncIterator]();
+        while (true) {
+          const next = await attemptOnce(() => iterator.next(), signal, timeoutMs);
+          if (next.done) return;
+          started = true;
+          yield next.value;
+        }
+      } catch (error) {
+        const aiError = toAiError(error);
+        if (started || !aiError.retryable || attempt + 1 >= MAX_ATTEMPTS) throw aiError;
+        console.warn(`AI stream failed (${aiError.kind}), retrying...`);
+        await sleep(backoffDelay(attempt), signal);
+      } finally {
+        // Also runs when the consumer stops iterating early, which cancels the upstream request
+        controller.abort();
+        signal?.removeEventListener('abort', onAbort);
+      }
+    }
+  } finally {
+    releaseSlot(user);
+  }
+}
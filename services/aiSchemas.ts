@@ -0,0 +1,295 @@
+import { Schema, Type } from "@google/genai";
+import type { AiTask } from "./aiProvider";
+import { AiError } from "./aiErrors";
+
+// Response shapes for the structured AI tasks. The same objects are sent to the model as
+// `responseSchema` and used to validate what comes back, so the two can't drift apart.
+
+const stringList: Schema = { type: Type.ARRAY, items: { type: Type.STRING } };
+
+// Dates are "YYYY-MM", or "YYYY" when only the year is known
+const dateString: Schema = { type: Type.STRING, description: "YYYY-MM or YYYY" };
+
+export const resumeProfileSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    contact: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING },
+        email: { type: Type.STRING },
+        phone: { type: Type.STRING },
+        location: { type: Type.STRING },
+        links: stringList,
+      },
+    },
+    headline: { type: Type.STRING },
+    experience: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          company: { type: Type.STRING },
+          title: { type: Type.STRING },
+          location: { type: Type.STRING },
+          startDate: dateString,
+          endDate: { ...dateString, description: "YYYY-MM or YYYY, omitted for a current role" },
+          highlights: stringList,
+        },
+        required: ["company", "title", "highlights"],
+      }
+    },
+    education: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          institution: { type: Type.STRING },
+          degree: { type: Type.STRING },
+          field: { type: Type.STRING },
+          startDate: dateString,
+          endDate: dateString,
+        },
+        required: ["institution"],
+      }
+    },
+    certifications: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          issuer: { type: Type.STRING },
+          date: dateString,
+        },
+        required: ["name"],
+      }
+    },
+    projects: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          description: { type: Type.STRING },
+          technologies: stringList,
+          url: { type: Type.STRING },
+        },
+        required: ["name"],
+      }
+    },
+    skills: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          proficiency: { type: Type.STRING, enum: ["Beginner", "Intermediate", "Advanced", "Expert"] },
+          years: { type: Type.NUMBER },
+        },
+        required: ["name"],
+      }
+    },
+  },
+  required: ["contact", "experience", "education", "certifications", "projects", "skills"]
+};
+
+const resumeAnalysisProperties: Record<string, Schema> = {
+  score: { type: Type.NUMBER },
+  summary: { type: Type.STRING },
+  strengths: stringList,
+  weaknesses: stringList,
+  improvements: stringList,
+  skills: stringList,
+  profile: resumeProfileSchema,
+};
+
+const resumeAnalysisRequired = ["score", "summary", "strengths", "weaknesses", "improvements", "skills"];
+
+export const resumeAnalysisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: resumeAnalysisProperties,
+  required: [...resumeAnalysisRequired, "profile"]
+};
+
+/** Saved resumes from before profile extraction have no `profile`, so it is optional here. */
+export const storedResumeAnalysisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: resumeAnalysisProperties,
+  required: resumeAnalysisRequired
+};
+
+export const interviewReportSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    overallScore: { type: Type.NUMBER },
+    technicalScore: { type: Type.NUMBER },
+    communicationScore: { type: Type.NUMBER },
+    strengths: stringList,
+    improvements: stringList,
+  },
+  required: ["overallScore", "technicalScore", "communicationScore", "strengths", "improvements"]
+};
+
+export const tailoredJobsSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      title: { type: Type.STRING },
+      company: { type: Type.STRING },
+      location: { type: Type.STRING },
+      salary: { type: Type.STRING },
+      salaryRange: {
+        type: Type.OBJECT,
+        properties: {
+          min: { type: Type.NUMBER },
+          max: { type: Type.NUMBER },
+          currency: { type: Type.STRING },
+          period: { type: Type.STRING, enum: ["year", "hour"] }
+        },
+        required: ["currency", "period"]
+      },
+      seniority: { type: Type.STRING, enum: ["Internship", "Entry", "Mid", "Senior", "Lead", "Executive"] },
+      remotePolicy: { type: Type.STRING, enum: ["Remote", "Hybrid", "Onsite"] },
+      type: { type: Type.STRING },
+      description: { type: Type.STRING },
+      requirements: stringList,
+      skills: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING },
+            required: { type: Type.BOOLEAN }
+          },
+          required: ["name", "required"]
+        }
+      },
+      deadline: { type: Type.STRING },
+      postedAt: { type: Type.STRING },
+    },
+    // The salary label is formatted from salaryRange, so it's optional
+    required: ["id", "title", "company", "location", "remotePolicy", "type", "description", "requirements", "skills", "postedAt"],
+  }
+};
+
+export const jobMatchSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    matchScore: { type: Type.NUMBER },
+    summary: { type: Type.STRING },
+    missingKeywords: stringList,
+    pros: stringList,
+    cons: stringList,
+  },
+  required: ["matchScore", "summary", "missingKeywords", "pros", "cons"]
+};
+
+export const skillSuggestionsSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      skill: { type: Type.STRING },
+      reason: { type: Type.STRING },
+      difficulty: { type: Type.STRING, enum: ["Beginner", "Intermediate", "Advanced"] },
+      category: { type: Type.STRING, enum: ["Technical", "Soft Skill", "Tool"] },
+      searchQuery: { type: Type.STRING }
+    },
+    required: ["skill", "reason", "difficulty", "category", "searchQuery"]
+  }
+};
+
+export const resumeEditSuggestionsSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      section: { type: Type.STRING, enum: ["summary", "headline", "highlight", "project", "skill"] },
+      itemIndex: { type: Type.INTEGER, description: "Role index for highlights, project index for projects" },
+      highlightIndex: { type: Type.INTEGER, description: "Highlight to replace; omit to add a new one" },
+      original: { type: Type.STRING },
+      suggested: { type: Type.STRING },
+      reason: { type: Type.STRING }
+    },
+    required: ["section", "suggested", "reason"]
+  }
+};
+
+export const resumeTailoringSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    headline: { type: Type.STRING },
+    roles: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          index: { type: Type.INTEGER },
+          highlights: { type: Type.ARRAY, items: { type: Type.STRING } }
+        },
+        required: ["index", "highlights"]
+      }
+    },
+    skills: { type: Type.ARRAY, items: { type: Type.STRING } },
+    emphasizedKeywords: { type: Type.ARRAY, items: { type: Type.STRING } },
+    unsupportedKeywords: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ["summary", "roles", "skills", "emphasizedKeywords", "unsupportedKeywords"]
+};
+
+/** Thrown when a model response still doesn't match its schema after the repair round. */
+export class AiValidationError extends AiError {
+  constructor(public readonly task: AiTask, public readonly issues: string[]) {
+    super('invalid-output', `The AI returned an invalid ${task} response: ${issues.slice(0, 3).join('; ')}`);
+    this.name = 'AiValidationError';
+  }
+}
+
+/**
+ * Checks a parsed value against a schema and returns a list of problems, empty when valid.
+ * Extra object properties are allowed, matching how the model treats `responseSchema`.
+ */
+export const validateSchema = (value: unknown, schema: Schema, path = '$'): string[] => {
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [`${path} is missing`];
+  }
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) return [`${path} should be an object`];
+      const record = value as Record<string, unknown>;
+      const issues = (schema.required || [])
+        .filter(key => record[key] === undefined)
+        .map(key => `${path}.${key} is missing`);
+      Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+        if (record[key] !== undefined) issues.push(...validateSchema(record[key], propertySchema, `${path}.${key}`));
+      });
+      return issues;
+    }
+    case Type.ARRAY:
+      if (!Array.isArray(value)) return [`${path} should be an array`];
+      return schema.items
+        ? value.flatMap((item, index) => validateSchema(item, schema.items!, `${path}[${index}]`))
+        : [];
+    case Type.STRING:
+      if (typeof value !== 'string') return [`${path} should be a string`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path} should be one of ${schema.enum.join(', ')}`];
+      return [];
+    case Type.NUMBER:
+    case Type.INTEGER:
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path} should be a number`];
+      if (schema.type === Type.INTEGER && !Number.isInteger(value)) return [`${path} should be an integer`];
+      return [];
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [`${path} should be a boolean`];
+    default:
+      return [];
+  }
+};
+
+export const matchesSchema = <T>(value: unknown, schema: Schema): value is T =>
+  validateSchema(value, schema).length === 0;
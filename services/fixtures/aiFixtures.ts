@@ -0,0 +1,283 @@
+import { ResumeAnalysis, ResumeEditSuggestion, ResumeProfile, ResumeTailoring, InterviewReport, GeneratedJob, JobMatchResult, SkillSuggestion, GroundingSource } from "../../types";
+
+// Canned, schema-valid responses for the mock AI provider. `pick` is a deterministic
+// chooser seeded from the request, so the same input always produces the same output.
+
+export type Chooser = <T>(options: T[]) => T;
+
+const RESUME_PERSONAS: { summary: string; profile: ResumeProfile }[] = [
+  {
+    summary: "Full-stack engineer with five years of experience shipping React and Node.js products in fast-moving teams.",
+    profile: {
+      contact: { name: "Jordan Rivera", email: "jordan.rivera@example.com", phone: "+1 555 0100", location: "Austin, TX", links: ["https://github.com/example"] },
+      headline: "Full-Stack Engineer",
+      experience: [
+        {
+          company: "Brightpath Software", title: "Software Engineer II", location: "Austin, TX", startDate: "2022-01",
+          highlights: ["Built the customer billing portal in React and TypeScript", "Cut API p95 latency from 900ms to 300ms with query caching"]
+        },
+        {
+          company: "Nimbus Labs", title: "Junior Developer", startDate: "2019-06", endDate: "2021-12",
+          highlights: ["Maintained Node.js microservices for order processing", "Added integration tests that caught 30+ regressions"]
+        }
+      ],
+      education: [{ institution: "University of Texas", degree: "BSc", field: "Computer Science", endDate: "2019" }],
+      certifications: [{ name: "AWS Certified Developer - Associate", issuer: "Amazon Web Services", date: "2023-04" }],
+      projects: [{ name: "Trailmap", description: "Open-source hiking route planner", technologies: ["React", "Mapbox"] }],
+      skills: [
+        { name: "TypeScript", proficiency: "Advanced", years: 4 },
+        { name: "React", proficiency: "Advanced", years: 5 },
+        { name: "Node.js", proficiency: "Intermediate", years: 5 },
+        { name: "SQL", proficiency: "Intermediate", years: 3 }
+      ]
+    }
+  },
+  {
+    summary: "Data analyst with a strong SQL and Python background, moving towards analytics engineering.",
+    profile: {
+      contact: { name: "Morgan Chen", email: "morgan.chen@example.com", location: "Chicago, IL" },
+      headline: "Data Analyst",
+      experience: [
+        {
+          company: "Lakeside Retail", title: "Data Analyst", startDate: "2021-03",
+          highlights: ["Owns weekly revenue dashboards used by 40 store managers", "Automated inventory reports with Python, saving 6 hours a week"]
+        }
+      ],
+      education: [{ institution: "Northwestern University", degree: "BA", field: "Economics", endDate: "2020" }],
+      certifications: [],
+      projects: [],
+      skills: [
+        { name: "SQL", proficiency: "Advanced", years: 4 },
+        { name: "Python", proficiency: "Intermediate", years: 3 },
+        { name: "Tableau", proficiency: "Advanced", years: 3 }
+      ]
+    }
+  },
+  {
+    summary: "Product designer with a track record of end-to-end ownership from research to shipped UI.",
+    profile: {
+      contact: { name: "Sam Okafor", email: "sam.okafor@example.com", location: "Remote", links: ["https://dribbble.com/example"] },
+      headline: "Product Designer",
+      experience: [
+        {
+          company: "Fieldnote", title: "Senior Product Designer", startDate: "2020-09",
+          highlights: ["Led research and design for the mobile onboarding flow, lifting activation by 18%"]
+        },
+        {
+          company: "Studio Arc", title: "UX Designer", startDate: "2017-05", endDate: "2020-08",
+          highlights: ["Designed e-commerce sites for 12 clients"]
+        }
+      ],
+      education: [{ institution: "Rhode Island School of Design", degree: "BFA", field: "Graphic Design", endDate: "2017" }],
+      certifications: [],
+      projects: [{ name: "Accessible Forms Kit", description: "Figma component library for WCAG-compliant forms" }],
+      skills: [
+        { name: "Figma", proficiency: "Expert", years: 6 },
+        { name: "User Research", proficiency: "Advanced", years: 7 },
+        { name: "Prototyping", proficiency: "Advanced" }
+      ]
+    }
+  }
+];
+
+export const resumeAnalysisFixture = (pick: Chooser): ResumeAnalysis => {
+  const persona = pick(RESUME_PERSONAS);
+  return {
+    score: pick([68, 74, 79, 83, 88]),
+    summary: persona.summary,
+    strengths: [
+      "Clear, reverse-chronological structure",
+      "Relevant experience for the target role",
+      "Good mix of technical and collaborative skills"
+    ],
+    weaknesses: [
+      "Few quantified achievements",
+      "Summary section is generic"
+    ],
+    improvements: [
+      "Add metrics to your last two roles (e.g. latency, revenue, users)",
+      "Tailor the summary to the roles you are applying for",
+      "Group skills by category to improve scanability"
+    ],
+    skills: persona.profile.skills.map(skill => skill.name),
+    profile: persona.profile
+  };
+};
+
+export const jobMatchFixture = (pick: Chooser): JobMatchResult => ({
+  matchScore: pick([55, 64, 72, 81, 90]),
+  summary: "Solid overlap with the core requirements; a few tools in the description are not on the resume.",
+  missingKeywords: pick([["Kubernetes", "GraphQL"], ["AWS"], ["CI/CD", "Terraform", "Go"]]),
+  pros: ["Hands-on experience with the main stack", "Has worked in similar team sizes"],
+  cons: ["No explicit mention of cloud infrastructure"]
+});
+
+const FIXTURE_JOBS: Omit<GeneratedJob, 'id' | 'postedAt'>[] = [
+  {
+    title: "Frontend Engineer",
+    company: "Northwind Labs",
+    location: "Remote",
+    salary: "$110k - $135k",
+    salaryRange: { min: 110000, max: 135000, currency: "USD", period: "year" },
+    seniority: "Mid",
+    remotePolicy: "Remote",
+    type: "Full-time",
+    description: "Build and maintain customer-facing React applications with a focus on performance and accessibility.",
+    requirements: ["3+ years React", "TypeScript", "Testing Library or Cypress"],
+    skills: [{ name: "React", required: true }, { name: "TypeScript", required: true }, { name: "Cypress", required: false }]
+  },
+  {
+    title: "Full Stack Developer",
+    company: "Bluebird Health",
+    location: "Boston, MA",
+    salary: "$120k - $145k",
+    salaryRange: { min: 120000, max: 145000, currency: "USD", period: "year" },
+    seniority: "Senior",
+    remotePolicy: "Hybrid",
+    type: "Full-time",
+    description: "Own features end to end across a Node.js API and a React dashboard used by clinicians.",
+    requirements: ["Node.js", "PostgreSQL", "React", "REST API design"],
+    skills: [{ name: "Node.js", required: true }, { name: "PostgreSQL", required: true }, { name: "React", required: true }, { name: "REST API", required: false }]
+  },
+  {
+    title: "Data Analyst",
+    company: "Orbit Retail",
+    location: "Chicago, IL",
+    salary: "$85k - $100k",
+    salaryRange: { min: 85000, max: 100000, currency: "USD", period: "year" },
+    seniority: "Entry",
+    remotePolicy: "Onsite",
+    type: "Full-time",
+    description: "Turn sales and inventory data into dashboards and recommendations for the merchandising team.",
+    requirements: ["SQL", "Python or R", "Tableau or Looker"],
+    skills: [{ name: "SQL", required: true }, { name: "Python", required: true }, { name: "Tableau", required: false }, { name: "Looker", required: false }]
+  },
+  {
+    title: "Platform Engineer",
+    company: "Cobalt Systems",
+    location: "Remote",
+    salary: "$140k - $165k",
+    salaryRange: { min: 140000, max: 165000, currency: "USD", period: "year" },
+    seniority: "Senior",
+    remotePolicy: "Remote",
+    type: "Full-time",
+    description: "Improve the reliability of our deployment pipeline and internal developer tooling.",
+    requirements: ["Kubernetes", "Terraform", "CI/CD", "Go or Python"],
+    skills: [{ name: "Kubernetes", required: true }, { name: "Terraform", required: true }, { name: "CI/CD", required: true }, { name: "Go", required: false }]
+  },
+  {
+    title: "UI Engineer (Contract)",
+    company: "Lumen Studio",
+    location: "New York, NY",
+    salary: "$70 - $90 / hr",
+    salaryRange: { min: 70, max: 90, currency: "USD", period: "hour" },
+    seniority: "Mid",
+    remotePolicy: "Onsite",
+    type: "Contract",
+    description: "Six-month engagement building a design system and component library.",
+    requirements: ["React", "CSS architecture", "Storybook"],
+    skills: [{ name: "React", required: true }, { name: "CSS", required: true }, { name: "Storybook", required: false }]
+  }
+];
+
+export const tailoredJobsFixture = (): GeneratedJob[] =>
+  FIXTURE_JOBS.map((job, index) => ({
+    ...job,
+    id: `mock-job-${index + 1}`,
+    postedAt: `${index + 1} days ago`
+  }));
+
+export const interviewReportFixture = (pick: Chooser): InterviewReport => ({
+  overallScore: pick([62, 71, 78, 85]),
+  technicalScore: pick([60, 70, 80]),
+  communicationScore: pick([65, 75, 85]),
+  strengths: ["Structured answers using concrete examples", "Calm and clear delivery"],
+  improvements: ["Quantify the impact of your projects", "Ask the interviewer a question at the end"]
+});
+
+export const skillSuggestionsFixture = (): SkillSuggestion[] => [
+  { skill: "Docker", reason: "Most job postings for your profile expect containerised workflows.", difficulty: "Beginner", category: "Tool", searchQuery: "docker getting started tutorial" },
+  { skill: "GraphQL", reason: "Common in modern frontend stacks and listed in several matched roles.", difficulty: "Intermediate", category: "Technical", searchQuery: "graphql fundamentals course" },
+  { skill: "System Design", reason: "Needed to move into senior roles.", difficulty: "Advanced", category: "Technical", searchQuery: "system design interview primer" },
+  { skill: "AWS", reason: "Cloud experience is a frequent missing keyword in your matches.", difficulty: "Intermediate", category: "Tool", searchQuery: "aws cloud practitioner" },
+  { skill: "Technical Writing", reason: "Clear design docs help you stand out in senior interviews.", difficulty: "Beginner", category: "Soft Skill", searchQuery: "technical writing course for engineers" },
+  { skill: "Stakeholder Management", reason: "Listed in most lead-level descriptions.", difficulty: "Intermediate", category: "Soft Skill", searchQuery: "stakeholder management for engineers" }
+];
+
+export const coverLetterFixture = (): string => `Dear Hiring Manager,
+
+I am excited to apply for this role. Over the past few years I have built and shipped production software, working closely with designers and product managers to deliver features users rely on every day.
+
+The responsibilities in your description line up closely with my experience, and I would welcome the chance to bring the same ownership and attention to detail to your team.
+
+Thank you for your time and consideration. I look forward to speaking with you.
+
+Sincerely,
+[Your Name]`;
+
+export const improvementExampleFixture = (pick: Chooser): string => pick([
+  "Instead of \"Improved page performance\", write \"Cut dashboard load time from 4.2s to 1.1s by introducing code splitting and caching, lifting weekly active usage by 12%.\"",
+  "Replace \"Worked on the API\" with \"Designed and shipped 14 REST endpoints serving 2M requests per day with 99.95% uptime.\""
+]);
+
+// Indices point at the first role, which every persona above has
+export const resumeRewriteFixture = (pick: Chooser): ResumeEditSuggestion[] => [
+  {
+    section: 'highlight',
+    itemIndex: 0,
+    highlightIndex: 0,
+    suggested: pick([
+      "Led delivery of the main customer-facing product, cutting release time by [X%]",
+      "Shipped features used by [N] customers per week, owning design through rollout"
+    ]),
+    reason: "Starts with a strong verb and makes the impact measurable."
+  },
+  {
+    section: 'highlight',
+    itemIndex: 0,
+    suggested: "Mentored [N] teammates through code reviews and pairing",
+    reason: "Adds evidence of leadership the analysis found missing."
+  },
+  {
+    section: 'summary',
+    suggested: pick([
+      "Results-driven professional with a track record of shipping measurable improvements in fast-moving teams.",
+      "Hands-on practitioner who turns ambiguous problems into shipped, measurable outcomes."
+    ]),
+    reason: "Leads with outcomes instead of responsibilities."
+  }
+];
+
+// No role or skill reordering: the fixture can't see the resume, and an empty list keeps the
+// original order
+export const resumeTailoringFixture = (pick: Chooser): ResumeTailoring => ({
+  summary: pick([
+    "Engineer focused on shipping reliable, user-facing products, with hands-on experience across the stack this role uses.",
+    "Practitioner who pairs delivery speed with quality, bringing directly relevant experience to this team."
+  ]),
+  roles: [],
+  skills: [],
+  emphasizedKeywords: ["TypeScript"],
+  unsupportedKeywords: ["Kubernetes"]
+});
+
+export const marketInsightsFixture = (): { text: string; sources: GroundingSource[] } => ({
+  text: `**Offline sample insight**
+
+- Demand for frontend and full-stack engineers remains steady, with remote roles making up roughly a third of postings.
+- Median salaries for mid-level engineers sit between $110k and $140k in major US markets.
+- TypeScript, cloud experience and testing are the most requested skills alongside React.`,
+  sources: [
+    { uri: "https://example.com/mock-salary-report", title: "Sample salary report (mock)" },
+    { uri: "https://example.com/mock-hiring-trends", title: "Sample hiring trends (mock)" }
+  ]
+});
+
+export const chatReplyFixture = (message: string): string =>
+  `(Offline mode) You asked: "${message}". I can help you find your way around CarrerX: try the Resume Analyzer to score your resume, or Job Matches to see roles tailored to your skills.`;
+
+export const interviewResponseFixture = (pick: Chooser): string => pick([
+  "Thanks, that's helpful. Can you walk me through a time you had to make a difficult technical trade-off?",
+  "Good. How did you measure whether that project was a success?",
+  "Interesting. What would you do differently if you started that project again today?"
+]);
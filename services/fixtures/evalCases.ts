@@ -0,0 +1,86 @@
+// Fixed inputs for `npm run eval:prompts`. Keep these stable: score drift is only meaningful
+// when both prompt versions see exactly the same resumes and jobs.
+
+export interface EvalResume {
+  id: string;
+  /** Plain-text resume, sent to analyzeResume as extracted text. */
+  text: string;
+  summary: string;
+  skills: string[];
+}
+
+export interface EvalJob {
+  id: string;
+  description: string;
+}
+
+export const evalResumes: EvalResume[] = [
+  {
+    id: 'senior-frontend',
+    text: `Jane Doe - Senior Frontend Engineer
+Experience:
+- Acme Corp (2019-2024): Led migration of a 200k LOC app to React 18 and TypeScript, cutting bundle size by 35%.
+- Beta Labs (2016-2019): Built a design system used by 12 product teams.
+Skills: React, TypeScript, GraphQL, Jest, Accessibility, Web Performance
+Education: BSc Computer Science`,
+    summary: "Senior frontend engineer with eight years building large React and TypeScript applications.",
+    skills: ['React', 'TypeScript', 'GraphQL', 'Jest', 'Accessibility', 'Web Performance']
+  },
+  {
+    id: 'junior-data',
+    text: `Sam Lee - Data Analyst
+Experience:
+- Retail Co (2023-2024): Built weekly sales dashboards in Tableau.
+Skills: SQL, Excel, Tableau, Python (basic)
+Education: BA Economics`,
+    summary: "Early-career data analyst focused on SQL reporting and dashboards.",
+    skills: ['SQL', 'Excel', 'Tableau', 'Python']
+  },
+  {
+    id: 'career-switcher',
+    text: `Alex Kim
+Former high school teacher (2014-2023) moving into instructional design.
+Completed a UX certificate in 2024. Portfolio: 3 e-learning modules built with Articulate.
+Skills: Curriculum design, Articulate Storyline, Figma, Public speaking`,
+    summary: "Teacher transitioning into instructional design with a recent UX certificate.",
+    skills: ['Curriculum Design', 'Articulate Storyline', 'Figma', 'Public Speaking']
+  },
+  {
+    id: 'sparse',
+    text: `Chris P
+Worked at various places. Good with computers.
+Skills: Microsoft Office`,
+    summary: "Candidate with limited detail on experience and general office skills.",
+    skills: ['Microsoft Office']
+  },
+  {
+    id: 'staff-backend',
+    text: `Priya N - Staff Backend Engineer
+Experience:
+- PayFlow (2018-2024): Designed the ledger service handling 4M transactions/day at 99.99% availability.
+- CloudNine (2013-2018): Owned Kafka-based event pipeline; mentored 6 engineers.
+Skills: Go, Java, PostgreSQL, Kafka, Kubernetes, System Design
+Education: MSc Distributed Systems`,
+    summary: "Staff backend engineer with eleven years in payments and high-throughput distributed systems.",
+    skills: ['Go', 'Java', 'PostgreSQL', 'Kafka', 'Kubernetes', 'System Design']
+  }
+];
+
+export const evalJobs: EvalJob[] = [
+  {
+    id: 'frontend-lead',
+    description: "Frontend Lead at a fintech startup. 6+ years with React and TypeScript, experience owning a design system, strong accessibility knowledge. Remote (EU)."
+  },
+  {
+    id: 'analytics-engineer',
+    description: "Analytics Engineer. Build dbt models on Snowflake, write production SQL and Python, partner with finance on reporting. 2+ years experience."
+  },
+  {
+    id: 'backend-payments',
+    description: "Senior Backend Engineer, Payments. Go or Java, PostgreSQL, event-driven architecture with Kafka, on-call for a high-availability ledger."
+  },
+  {
+    id: 'instructional-designer',
+    description: "Instructional Designer for corporate training. Storyboarding, Articulate 360, stakeholder interviews, teaching background a plus."
+  }
+];
@@ -1,339 +1,352 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { ResumeAnalysis, InsightResult, InterviewReport, JobMatchResult, Job, SkillSuggestion, ChatMessage } from "../types";
-
-const getAiClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key not found. If you are on Vercel, please add 'API_KEY' to your project's Environment Variables.");
-  }
-  return new GoogleGenAI({ apiKey: apiKey });
-};
+import type { Schema } from "@google/genai";
+import { ResumeAnalysis, ResumeContext, ResumeDraft, ResumeEditSuggestion, ResumeTailoring, InsightResult, InterviewReport, JobMatchResult, Job, GeneratedJob, SkillSuggestion, ChatMessage, GroundingSource } from "../types";
+import { AiPart, AiRequest, getAiProvider } from "./aiProvider";
+import { toAiError } from "./aiErrors";
+import { AiCallOptions, runAiRequest, runAiStream } from "./aiRequest";
+import { aiCacheKey, readAiCache, withAiCache } from "./aiCache";
+import {
+  AiValidationError,
+  interviewReportSchema,
+  jobMatchSchema,
+  resumeAnalysisSchema,
+  resumeEditSuggestionsSchema,
+  resumeTailoringSchema,
+  skillSuggestionsSchema,
+  tailoredJobsSchema,
+  validateSchema
+} from "./aiSchemas";
+import { activePromptVersion, renderPrompt } from "./prompts";
+import { describeProfile } from "../lib/resumeProfile";
+import { formatSalary, jobSkill } from "../lib/jobPosting";
 
 const handleGeminiError = async (error: any): Promise<never> => {
-  console.error("Gemini Operation Failed:", error);
-  
-  let errorMessage = error.message || "Unknown error occurred";
-
-  if (errorMessage.toLowerCase().includes("leaked") || errorMessage.includes("403") || errorMessage.includes("permission_denied")) {
-     if (typeof window !== 'undefined' && (window as any).aistudio?.openSelectKey) {
-        try {
-            await (window as any).aistudio.openSelectKey();
-            throw new Error("API Key issue. Opening selection dialog...");
-        } catch (e) {
-            console.error("Failed to open key selector", e);
-        }
-     }
-     throw new Error("Your API key was rejected (403). Please check your quota or refresh the page.");
-  }
-  
-  if (errorMessage.includes("404") || errorMessage.includes("not found")) {
-      throw new Error("The AI model is currently unavailable. Please try again later.");
+  const aiError = toAiError(error);
+  if (aiError.kind === 'cancelled') throw aiError;
+  console.error("AI Operation Failed:", error);
+
+  if (aiError.kind === 'auth' && typeof window !== 'undefined' && (window as any).aistudio?.openSelectKey) {
+    try {
+      await (window as any).aistudio.openSelectKey();
+    } catch (e) {
+      console.error("Failed to open key selector", e);
+    }
   }
 
-  throw new Error(errorMessage);
+  throw aiError;
 };
 
+/** `promptVersion` pins a registered prompt version instead of the active one, e.g. for evals. */
+export interface PromptCallOptions extends AiCallOptions {
+  promptVersion?: string;
+}
+
 const cleanJson = (text: string) => {
   return text.replace(/```json|```/g, '').trim();
 };
 
-export const analyzeResume = async (
-  data: string,
-  mimeType: string
-): Promise<ResumeAnalysis> => {
-  const ai = getAiClient();
-  
+const parseAndValidate = (text: string, schema: Schema): { value?: unknown; issues: string[] } => {
+  if (!text) return { issues: ["the response was empty"] };
+  try {
+    const value = JSON.parse(cleanJson(text));
+    return { value, issues: validateSchema(value, schema) };
+  } catch {
+    return { issues: ["the response was not valid JSON"] };
+  }
+};
+
+const generate = (request: AiRequest, options: AiCallOptions) =>
+  runAiRequest(async signal => getAiProvider().generate({ ...request, signal }), options);
+
+const streamText = (request: AiRequest, options: AiCallOptions) =>
+  runAiStream(signal => getAiProvider().stream({ ...request, signal }), options);
+
+const withText = (contents: AiRequest['contents'], text: string): AiPart[] =>
+  typeof contents === 'string' ? [{ text: contents }, { text }] : [...contents, { text }];
+
+/**
+ * Requests structured output and validates it against the schema. If the first answer doesn't
+ * match, the model gets one repair round with the list of problems before we give up.
+ */
+const generateJson = async <T>(
+  request: Omit<AiRequest, 'responseSchema'>,
+  schema: Schema,
+  options: AiCallOptions
+): Promise<T> => {
+  const first = await generate({ ...request, responseSchema: schema }, options);
+  let result = parseAndValidate(first.text, schema);
+  if (result.issues.length === 0) return result.value as T;
+
+  console.warn(`Invalid ${request.task} response, asking the model to repair it:`, result.issues);
+  const repairPrompt = `Your previous answer did not match the required JSON schema.
+  Problems: ${result.issues.join('; ')}
+  Previous answer: ${first.text}
+  Return the corrected JSON only.`;
+
+  const second = await generate({
+    ...request,
+    contents: withText(request.contents, repairPrompt),
+    responseSchema: schema
+  }, options);
+  result = parseAndValidate(second.text, schema);
+  if (result.issues.length === 0) return result.value as T;
+
+  throw new AiValidationError(request.task, result.issues);
+};
+
+/** A resume as sent to the analyzer: the raw file (PDF, image) or text extracted locally. */
+export type ResumeSource = { data: string; mimeType: string } | { text: string };
+
+const resumePart = (source: ResumeSource): AiPart => {
+  if ('text' in source) return { text: `Resume:\n${source.text}` };
+
   // Normalize MIME type
+  const { data, mimeType } = source;
   let normalizedMimeType = mimeType;
   if (mimeType.includes('pdf')) normalizedMimeType = 'application/pdf';
   else if (mimeType.includes('png')) normalizedMimeType = 'image/png';
   else if (mimeType.includes('jpg') || mimeType.includes('jpeg')) normalizedMimeType = 'image/jpeg';
+  return { inlineData: { data, mimeType: normalizedMimeType } };
+};
 
-  const prompt = `Analyze this resume acting as a helpful and encouraging Applicant Tracking System (ATS) consultant. 
-  Identify the candidate's target role based on experience.
-  
-  SCORING RULES:
-  - Be fair and constructive. A good, standard resume should score between 70-85.
-  - Excellent resumes with quantifiable results should score above 85.
-  - Only give low scores (<60) if the resume is very sparse, has major formatting errors, or lacks relevant skills entirely.
-  - Look for transferrable skills and potential, not just perfect keyword matching.
-  `;
+export const analyzeResume = async (
+  source: ResumeSource,
+  options: PromptCallOptions = {}
+): Promise<ResumeAnalysis> => {
+  const prompt = renderPrompt('analyzeResume', {}, options.promptVersion);
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          { inlineData: { data: data, mimeType: normalizedMimeType } },
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER },
-            summary: { type: Type.STRING },
-            strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-            weaknesses: { type: Type.ARRAY, items: { type: Type.STRING } },
-            improvements: { type: Type.ARRAY, items: { type: Type.STRING } },
-            skills: { type: Type.ARRAY, items: { type: Type.STRING } },
-          },
-          required: ["score", "summary", "strengths", "weaknesses", "improvements", "skills"]
-        }
-      }
-    });
-
-    const text = response.text;
-    if (!text) throw new Error("No response received from AI model.");
-    
-    return JSON.parse(cleanJson(text)) as ResumeAnalysis;
+    const analysis = await generateJson<ResumeAnalysis>({
+      task: 'analyzeResume',
+      contents: [
+        resumePart(source),
+        { text: prompt.text }
+      ]
+    }, resumeAnalysisSchema, options);
+    return { ...analysis, promptVersion: prompt.tag };
   } catch (error: any) {
     return handleGeminiError(error);
   }
 };
 
-export const generateImprovementExample = async (improvement: string, resumeSummary: string): Promise<string> => {
-  const ai = getAiClient();
-  const prompt = `Context: Resume Summary: "${resumeSummary}". Improvement: "${improvement}".
-  Task: Write a specific, concrete example (1-2 sentences) of how to implement this improvement.`;
+export const generateImprovementExample = async (improvement: string, resumeSummary: string, options: PromptCallOptions = {}): Promise<string> => {
+  const prompt = renderPrompt('improvementExample', { improvement, resumeSummary }, options.promptVersion);
   
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt
+    const example = await withAiCache('improvementExample', prompt.version, { improvement, resumeSummary }, async () => {
+      const response = await generate({
+        task: 'improvementExample',
+        contents: prompt.text
+      }, options);
+      return response.text;
     });
-    return response.text || "Could not generate example.";
+    return example || "Could not generate example.";
   } catch (error) {
     return handleGeminiError(error) as any;
   }
 };
 
-export const generateInterviewReport = async (transcript: string): Promise<InterviewReport> => {
-  const ai = getAiClient();
+/** Inline rewrites that apply one of the analysis' improvements to the structured resume. */
+export const suggestResumeRewrite = async (improvement: string, draft: ResumeDraft, options: PromptCallOptions = {}): Promise<ResumeEditSuggestion[]> => {
+  const prompt = renderPrompt('resumeRewrite', { improvement, draft }, options.promptVersion);
+
+  try {
+    return await withAiCache('resumeRewrite', prompt.version, { improvement, draft }, () =>
+      generateJson<ResumeEditSuggestion[]>({
+        task: 'resumeRewrite',
+        contents: prompt.text
+      }, resumeEditSuggestionsSchema, options)
+    );
+  } catch (error) {
+    return handleGeminiError(error);
+  }
+};
+
+export const tailorResume = async (job: Job, missingKeywords: string[], draft: ResumeDraft, options: PromptCallOptions = {}): Promise<ResumeTailoring> => {
+  const inputs = { jobTitle: `${job.title} at ${job.company}`, jobDescription: job.description, missingKeywords, draft };
+  const prompt = renderPrompt('tailorResume', inputs, options.promptVersion);
+
+  try {
+    return await withAiCache('tailorResume', prompt.version, inputs, () =>
+      generateJson<ResumeTailoring>({
+        task: 'tailorResume',
+        contents: prompt.text
+      }, resumeTailoringSchema, options)
+    );
+  } catch (error) {
+    return handleGeminiError(error);
+  }
+};
+
+export const generateInterviewReport = async (transcript: string, options: AiCallOptions = {}): Promise<InterviewReport> => {
   const prompt = `Analyze this interview transcript.
   Transcript: ${transcript}
   Provide JSON assessment: overallScore (0-100), technicalScore, communicationScore, strengths, improvements.`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            overallScore: { type: Type.NUMBER },
-            technicalScore: { type: Type.NUMBER },
-            communicationScore: { type: Type.NUMBER },
-            strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-            improvements: { type: Type.ARRAY, items: { type: Type.STRING } },
-          },
-          required: ["overallScore", "technicalScore", "communicationScore", "strengths", "improvements"]
-        }
-      }
-    });
-
-    const text = response.text;
-    if (!text) throw new Error("No report generated");
-    return JSON.parse(cleanJson(text)) as InterviewReport;
+    return await generateJson<InterviewReport>({
+      task: 'interviewReport',
+      contents: prompt
+    }, interviewReportSchema, options);
   } catch (error) {
     return handleGeminiError(error);
   }
 };
 
-export const getMarketInsights = async (query: string): Promise<InsightResult> => {
-  const ai = getAiClient();
+const marketInsightsRequest = (query: string): AiRequest => ({
+  task: 'marketInsights',
+  contents: query,
+  googleSearch: true
+});
 
+const uniqueSources = (sources: GroundingSource[]) =>
+  Array.from(new Map(sources.map(item => [item.uri, item])).values());
+
+export const getMarketInsights = async (query: string, options: AiCallOptions = {}): Promise<InsightResult> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: query,
-      config: {
-        tools: [{ googleSearch: {} }]
-      }
-    });
+    const response = await generate(marketInsightsRequest(query), options);
     
     const text = response.text || "No insights found.";
-    
-    // Access grounding metadata safely
-    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
-    const chunks = groundingMetadata?.groundingChunks || [];
-    
-    const sources = chunks
-      .filter((c: any) => c.web?.uri && c.web?.title)
-      .map((c: any) => ({ uri: c.web.uri, title: c.web.title }));
-    
-    const uniqueSources = Array.from(new Map(sources.map((item: any) => [item.uri, item])).values()) as any[];
-
-    return { text, sources: uniqueSources };
+    return { text, sources: uniqueSources(response.sources || []) };
   } catch (error) {
-    // Fallback if tools fail
-    return { text: "I couldn't access live market data at the moment, but here is what I know: " + (error as any).message, sources: [] };
+    return handleGeminiError(error);
   }
 };
 
-export const generateTailoredJobs = async (resumeSummary: string, skills: string[]): Promise<Job[]> => {
-  const ai = getAiClient();
-  const count = Math.floor(Math.random() * (12 - 5 + 1) + 5);
+/** Yields text deltas as they arrive; `sources` carries the full deduplicated list seen so far. */
+export async function* streamMarketInsights(query: string, options: AiCallOptions = {}): AsyncGenerator<InsightResult> {
+  const sources: GroundingSource[] = [];
+  try {
+    for await (const chunk of streamText(marketInsightsRequest(query), options)) {
+      sources.push(...(chunk.sources || []));
+      yield { text: chunk.text, sources: uniqueSources(sources) };
+    }
+  } catch (error) {
+    await handleGeminiError(error);
+  }
+}
 
-  const prompt = `Generate ${count} realistic job postings that are highly relevant to this candidate profile.
-  Candidate Summary: ${resumeSummary}
-  Candidate Skills: ${skills.join(', ')}
+export const generateTailoredJobs = async (resumeSummary: string, skills: string[], options: PromptCallOptions = {}): Promise<Job[]> => {
+  const count = Math.floor(Math.random() * (12 - 5 + 1) + 5);
 
-  Task:
-  1. Infer the candidate's industry and seniority level.
-  2. Create ${count} diverse job opportunities.
-  3. Ensure the job titles and requirements are realistic.
-  4. Include a mix of "Best Match" and "Stretch" roles.
-  
-  Return valid JSON.`;
+  const today = new Date().toISOString().slice(0, 10);
+  const prompt = renderPrompt('tailoredJobs', { resumeSummary, skills, count, today }, options.promptVersion);
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              id: { type: Type.STRING },
-              title: { type: Type.STRING },
-              company: { type: Type.STRING },
-              location: { type: Type.STRING },
-              salary: { type: Type.STRING },
-              type: { type: Type.STRING },
-              description: { type: Type.STRING },
-              requirements: { type: Type.ARRAY, items: { type: Type.STRING } },
-              postedAt: { type: Type.STRING },
-            },
-            required: ["id", "title", "company", "location", "salary", "type", "description", "requirements", "postedAt"],
-          }
-        }
-      }
-    });
-
-    const text = response.text;
-    if (!text) return [];
-    return JSON.parse(cleanJson(text)) as Job[];
+    const jobs = await generateJson<GeneratedJob[]>({
+      task: 'tailoredJobs',
+      contents: prompt.text
+    }, tailoredJobsSchema, options);
+    // Skills are linked to the vocabulary and the salary label is ours, whatever the model wrote.
+    // Ids too: the model reuses ones like "job-1" on every refresh.
+    return jobs.map(job => ({
+      ...job,
+      id: crypto.randomUUID(),
+      salary: job.salaryRange ? formatSalary(job.salaryRange) : job.salary || 'Competitive',
+      skills: job.skills.map(skill => jobSkill(skill.name, skill.required)),
+      status: 'published' as const,
+      source: 'ai' as const,
+      promptVersion: prompt.tag
+    }));
   } catch (error) {
     return handleGeminiError(error) as any;
   }
 };
 
-export const analyzeJobMatch = async (resumeSummary: string, resumeSkills: string[], jobDescription: string): Promise<JobMatchResult> => {
-  const ai = getAiClient();
-  
-  const prompt = `Role: Senior Recruiter & ATS Specialist.
-  
-  Candidate Profile:
-  Summary: ${resumeSummary}
-  Skills: ${resumeSkills.join(', ')}
-  
-  Job Description:
-  ${jobDescription}
-  
-  Evaluate fit. Provide JSON response.`;
+const jobMatchInputs = (resume: ResumeContext, jobDescription: string) => ({
+  resumeSummary: resume.summary,
+  resumeSkills: resume.skills || [],
+  profile: resume.profile,
+  jobDescription
+});
+
+export const analyzeJobMatch = async (resume: ResumeContext, jobDescription: string, options: PromptCallOptions = {}): Promise<JobMatchResult> => {
+  const inputs = jobMatchInputs(resume, jobDescription);
+  const prompt = renderPrompt('jobMatch', inputs, options.promptVersion);
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            matchScore: { type: Type.NUMBER },
-            summary: { type: Type.STRING },
-            missingKeywords: { type: Type.ARRAY, items: { type: Type.STRING } },
-            pros: { type: Type.ARRAY, items: { type: Type.STRING } },
-            cons: { type: Type.ARRAY, items: { type: Type.STRING } },
-          },
-          required: ["matchScore", "summary", "missingKeywords", "pros", "cons"]
-        }
-      }
+    return await withAiCache('jobMatch', prompt.version, inputs, async () => {
+      const match = await generateJson<JobMatchResult>({
+        task: 'jobMatch',
+        contents: prompt.text
+      }, jobMatchSchema, options);
+      return { ...match, promptVersion: prompt.tag };
     });
-
-    const text = response.text;
-    if (!text) throw new Error("No response");
-    return JSON.parse(cleanJson(text)) as JobMatchResult;
   } catch (error) {
     return handleGeminiError(error);
   }
 };
 
-export const generateCoverLetter = async (resumeSummary: string, jobDescription: string): Promise<string> => {
-  const ai = getAiClient();
-  
-  const prompt = `Write a professional, persuasive cover letter.
+/** Looks up a previously computed match without calling the model. */
+export const getCachedJobMatch = async (resume: ResumeContext, jobDescription: string): Promise<JobMatchResult | null> => {
+  try {
+    const key = await aiCacheKey('jobMatch', activePromptVersion('jobMatch'), jobMatchInputs(resume, jobDescription));
+    return readAiCache<JobMatchResult>(key);
+  } catch {
+    // No provider configured, so nothing can have been cached for it
+    return null;
+  }
+};
+
+const coverLetterRequest = (resume: ResumeContext, jobDescription: string): AiRequest => {
+  // Real work history keeps the letter from inventing employers and achievements
+  const profile = resume.profile;
+  const background = profile
+    ? `
+  Candidate Background (use only these facts, and sign the letter with the candidate's name if given):
+  ${profile.contact.name ? `Name: ${profile.contact.name}\n` : ''}${describeProfile(profile)}
+  `
+    : '';
+
+  return {
+    task: 'coverLetter',
+    contents: `Write a professional, persuasive cover letter.
   
-  Candidate Summary: ${resumeSummary}
+  Candidate Summary: ${resume.summary}${background}
   Job Description: ${jobDescription}
   
   Tone: Professional, confident.
-  Return ONLY the cover letter text, no markdown.`;
+  Return ONLY the cover letter text, no markdown.`
+  };
+};
 
+export const generateCoverLetter = async (resume: ResumeContext, jobDescription: string, options: AiCallOptions = {}): Promise<string> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt
-    });
+    const response = await generate(coverLetterRequest(resume, jobDescription), options);
     return response.text || "Failed to generate cover letter.";
   } catch (error) {
     return handleGeminiError(error) as any;
   }
 };
 
-export const suggestSkills = async (currentSkills: string[], roleContext: string): Promise<SkillSuggestion[]> => {
-  const ai = getAiClient();
-  
-  const prompt = `Based on the following candidate profile and skills, suggest 6 high-value skills they should learn.
-  
-  Role/Context: ${roleContext}
-  Current Skills: ${currentSkills.join(', ')}
-  `;
-
+export async function* streamCoverLetter(resume: ResumeContext, jobDescription: string, options: AiCallOptions = {}): AsyncGenerator<string> {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              skill: { type: Type.STRING },
-              reason: { type: Type.STRING },
-              difficulty: { type: Type.STRING, enum: ["Beginner", "Intermediate", "Advanced"] },
-              category: { type: Type.STRING, enum: ["Technical", "Soft Skill", "Tool"] },
-              searchQuery: { type: Type.STRING }
-            },
-            required: ["skill", "reason", "difficulty", "category", "searchQuery"]
-          }
-        }
-      }
-    });
+    for await (const chunk of streamText(coverLetterRequest(resume, jobDescription), options)) {
+      if (chunk.text) yield chunk.text;
+    }
+  } catch (error) {
+    await handleGeminiError(error);
+  }
+}
 
-    const text = response.text;
-    if (!text) return [];
-    return JSON.parse(cleanJson(text)) as SkillSuggestion[];
+export const suggestSkills = async (currentSkills: string[], roleContext: string, options: PromptCallOptions = {}): Promise<SkillSuggestion[]> => {
+  const prompt = renderPrompt('suggestSkills', { currentSkills, roleContext }, options.promptVersion);
+
+  try {
+    return await withAiCache('suggestSkills', prompt.version, { currentSkills, roleContext }, () =>
+      generateJson<SkillSuggestion[]>({
+        task: 'suggestSkills',
+        contents: prompt.text
+      }, skillSuggestionsSchema, options)
+    );
   } catch (error) {
     return handleGeminiError(error) as any;
   }
 };
 
-export const sendChatMessage = async (history: ChatMessage[], newMessage: string, currentContext: string): Promise<string> => {
-  const ai = getAiClient();
-  
-  const systemInstruction = `You are CarrerBot, the intelligent assistant for the CarrerX platform. 
+const chatRequest = (history: ChatMessage[], newMessage: string, currentContext: string): AiRequest => ({
+  task: 'chat',
+  contents: newMessage,
+  systemInstruction: `You are CarrerBot, the intelligent assistant for the CarrerX platform. 
   Your goal is to help users navigate the website and explain its features.
   
   WEBSITE KNOWLEDGE BASE (What you know about CarrerX):
@@ -351,53 +364,47 @@ export const sendChatMessage = async (history: ChatMessage[], newMessage: string
   GUIDELINES:
   - Be helpful, concise, and professional.
   - You are NOT a general LLM; keep the conversation focused on career, jobs, and using this website.
-  `;
+  `,
+  history: history.map(msg => ({ role: msg.role, text: msg.text }))
+});
 
+export const sendChatMessage = async (history: ChatMessage[], newMessage: string, currentContext: string, options: AiCallOptions = {}): Promise<string> => {
   try {
-    const chat = ai.chats.create({ 
-      model: 'gemini-2.5-flash',
-      config: {
-        systemInstruction: systemInstruction
-      },
-      history: history.map(msg => ({
-        role: msg.role,
-        parts: [{ text: msg.text }]
-      }))
-    });
-
-    const result = await chat.sendMessage({ message: newMessage });
+    const result = await generate(chatRequest(history, newMessage, currentContext), options);
     return result.text || "I'm sorry, I didn't catch that.";
   } catch (error) {
-    console.error("Chat error", error);
-    return "I'm having trouble connecting right now. Please try again.";
+    return handleGeminiError(error);
   }
 };
 
-export const generateInterviewResponse = async (audioBase64: string, resumeContext: string, history: {role: string, text: string}[]): Promise<string> => {
-  const ai = getAiClient();
-  
+export async function* streamChatMessage(history: ChatMessage[], newMessage: string, currentContext: string, options: AiCallOptions = {}): AsyncGenerator<string> {
+  try {
+    for await (const chunk of streamText(chatRequest(history, newMessage, currentContext), options)) {
+      if (chunk.text) yield chunk.text;
+    }
+  } catch (error) {
+    await handleGeminiError(error);
+  }
+}
+
+export const generateInterviewResponse = async (audioBase64: string, resumeContext: string, history: {role: string, text: string}[], options: AiCallOptions = {}): Promise<string> => {
   try {
-     const response = await ai.models.generateContent({
-       model: 'gemini-2.5-flash',
-       config: {
-         systemInstruction: `You are an experienced hiring manager conducting a job interview.
-         Context from resume: ${resumeContext}
-         
-         Goal: Assess their fit for a Senior role.
-         Keep your responses concise and conversational (spoken word style). Do not be too verbose.
-         If the candidate struggles, offer a small hint. Be professional but encouraging.
-         `
-       },
-       contents: {
-         parts: [
-           { inlineData: { data: audioBase64, mimeType: "audio/webm" } },
-           { text: "Please respond to the candidate's answer naturally." }
-         ]
-       }
-     });
+     const response = await generate({
+       task: 'interviewResponse',
+       systemInstruction: `You are an experienced hiring manager conducting a job interview.
+       Context from resume: ${resumeContext}
+       
+       Goal: Assess their fit for a Senior role.
+       Keep your responses concise and conversational (spoken word style). Do not be too verbose.
+       If the candidate struggles, offer a small hint. Be professional but encouraging.
+       `,
+       contents: [
+         { inlineData: { data: audioBase64, mimeType: "audio/webm" } },
+         { text: "Please respond to the candidate's answer naturally." }
+       ]
+     }, options);
      return response.text || "";
   } catch (e) {
-     console.error("Interview Error", e);
-     throw e;
+     return handleGeminiError(e);
   }
 }
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import type { AiProvider, AiRequest, AiResponse } from "./aiProvider";
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+const getAiClient = () => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    throw new Error("API Key not found. If you are on Vercel, please add 'API_KEY' to your project's Environment Variables.");
+  }
+  return new GoogleGenAI({ apiKey: apiKey });
+};
+
+const toContents = (contents: AiRequest['contents']) =>
+  typeof contents === 'string' ? contents : { parts: contents };
+
+const configFor = (request: AiRequest) => ({
+  systemInstruction: request.systemInstruction,
+  abortSignal: request.signal,
+  ...(request.responseSchema && {
+    responseMimeType: "application/json",
+    responseSchema: request.responseSchema
+  }),
+  ...(request.googleSearch && { tools: [{ googleSearch: {} }] })
+});
+
+const createChat = (ai: GoogleGenAI, model: string, request: AiRequest) =>
+  ai.chats.create({
+    model,
+    config: { systemInstruction: request.systemInstruction },
+    history: (request.history || []).map(msg => ({
+      role: msg.role,
+      parts: [{ text: msg.text }]
+    }))
+  });
+
+const sourcesOf = (response: GenerateContentResponse) => {
+  // Access grounding metadata safely
+  const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+  return chunks
+    .filter((c: any) => c.web?.uri && c.web?.title)
+    .map((c: any) => ({ uri: c.web.uri as string, title: c.web.title as string }));
+};
+
+export const createGeminiProvider = (model: string = DEFAULT_MODEL): AiProvider => ({
+  name: 'gemini',
+
+  async generate(request: AiRequest): Promise<AiResponse> {
+    const ai = getAiClient();
+
+    if (request.history) {
+      const result = await createChat(ai, model, request).sendMessage({
+        message: request.contents,
+        config: { abortSignal: request.signal }
+      });
+      return { text: result.text || "" };
+    }
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: toContents(request.contents),
+      config: configFor(request)
+    });
+
+    return { text: response.text || "", sources: sourcesOf(response) };
+  },
+
+  async *stream(request: AiRequest): AsyncGenerator<AiResponse> {
+    const ai = getAiClient();
+
+    const chunks = request.history
+      ? await createChat(ai, model, request).sendMessageStream({
+          message: request.contents,
+          config: { abortSignal: request.signal }
+        })
+      : await ai.models.generateContentStream({
+          model,
+          contents: toContents(request.contents),
+          config: configFor(request)
+        });
+
+    for await (const chunk of chunks) {
+      yield { text: chunk.text || "", sources: sourcesOf(chunk) };
+    }
+  }
+});
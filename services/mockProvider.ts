@@ -0,0 +1,97 @@
+import type { AiProvider, AiRequest, AiResponse, AiTask } from "./aiProvider";
+import {
+  Chooser,
+  resumeAnalysisFixture,
+  jobMatchFixture,
+  tailoredJobsFixture,
+  interviewReportFixture,
+  skillSuggestionsFixture,
+  coverLetterFixture,
+  improvementExampleFixture,
+  resumeRewriteFixture,
+  resumeTailoringFixture,
+  marketInsightsFixture,
+  chatReplyFixture,
+  interviewResponseFixture
+} from "./fixtures/aiFixtures";
+
+export type MockFixture = (request: AiRequest, pick: Chooser) => AiResponse;
+
+const json = (value: unknown): AiResponse => ({ text: JSON.stringify(value) });
+
+const requestText = (request: AiRequest) =>
+  typeof request.contents === 'string'
+    ? request.contents
+    : request.contents.map(part => 'text' in part ? part.text : part.inlineData.data).join('\n');
+
+const DEFAULT_FIXTURES: Record<AiTask, MockFixture> = {
+  analyzeResume: (_, pick) => json(resumeAnalysisFixture(pick)),
+  improvementExample: (_, pick) => ({ text: improvementExampleFixture(pick) }),
+  interviewReport: (_, pick) => json(interviewReportFixture(pick)),
+  marketInsights: () => marketInsightsFixture(),
+  tailoredJobs: () => json(tailoredJobsFixture()),
+  jobMatch: (_, pick) => json(jobMatchFixture(pick)),
+  coverLetter: () => ({ text: coverLetterFixture() }),
+  suggestSkills: () => json(skillSuggestionsFixture()),
+  resumeRewrite: (_, pick) => json(resumeRewriteFixture(pick)),
+  tailorResume: (_, pick) => json(resumeTailoringFixture(pick)),
+  chat: request => ({ text: chatReplyFixture(requestText(request)) }),
+  interviewResponse: (_, pick) => ({ text: interviewResponseFixture(pick) })
+};
+
+const STREAM_CHUNK_DELAY_MS = 15;
+
+const abortError = () => Object.assign(new Error('The operation was aborted.'), { name: 'AbortError' });
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// FNV-1a: tiny, stable across runs, good enough to spread fixtures over inputs
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Offline provider that answers every task from fixtures. The variant returned is chosen by a
+ * hash of the request, so repeated calls with the same input are fully deterministic.
+ */
+export const createMockProvider = (overrides: Partial<Record<AiTask, MockFixture>> = {}): AiProvider => {
+  const fixtures = { ...DEFAULT_FIXTURES, ...overrides };
+
+  const generate = async (request: AiRequest): Promise<AiResponse> => {
+    const seed = hashString(`${request.task}:${requestText(request)}`);
+    const pick: Chooser = options => options[seed % options.length];
+    return fixtures[request.task](request, pick);
+  };
+
+  return {
+    name: 'mock',
+
+    generate,
+
+    // Replays the fixture word by word so streaming UIs can be exercised offline
+    async *stream(request: AiRequest): AsyncGenerator<AiResponse> {
+      const { text, sources } = await generate(request);
+      const words = text.match(/\S+\s*|\s+/g) || [];
+      for (let i = 0; i < words.length; i++) {
+        await delay(STREAM_CHUNK_DELAY_MS, request.signal);
+        yield { text: words[i], sources: i === words.length - 1 ? sources : undefined };
+      }
+    }
+  };
+};
@@ -0,0 +1,242 @@
+// Versioned prompt templates. Scores come straight from these prompts, so editing one in place
+// would silently shift every user's results: add a new version instead, evaluate it against the
+// active one with `npm run eval:prompts`, then switch `active` over.
+import { ResumeDraft, ResumeProfile } from '../types';
+import { describeProfile } from '../lib/resumeProfile';
+import { numberedResume } from '../lib/resumeDraft';
+
+export interface PromptInputs {
+  analyzeResume: Record<string, never>;
+  tailoredJobs: { resumeSummary: string; skills: string[]; count: number; today: string };
+  jobMatch: { resumeSummary: string; resumeSkills: string[]; profile?: ResumeProfile; jobDescription: string };
+  improvementExample: { improvement: string; resumeSummary: string };
+  suggestSkills: { currentSkills: string[]; roleContext: string };
+  resumeRewrite: { improvement: string; draft: ResumeDraft };
+  tailorResume: { jobTitle: string; jobDescription: string; missingKeywords: string[]; draft: ResumeDraft };
+  liveInterview: { resumeSummary?: string; skills?: string[] };
+}
+
+export type PromptId = keyof PromptInputs;
+
+type PromptTemplate<K extends PromptId> = (input: PromptInputs[K]) => string;
+
+interface PromptEntry<K extends PromptId> {
+  active: string;
+  versions: Record<string, PromptTemplate<K>>;
+}
+
+export interface RenderedPrompt {
+  id: PromptId;
+  version: string;
+  /** `<id>@<version>`, stored on outputs so we can tell which prompt produced them. */
+  tag: string;
+  text: string;
+}
+
+const ANALYZE_RESUME_V1 = `Analyze this resume acting as a helpful and encouraging Applicant Tracking System (ATS) consultant.
+  Identify the candidate's target role based on experience.
+
+  SCORING RULES:
+  - Be fair and constructive. A good, standard resume should score between 70-85.
+  - Excellent resumes with quantifiable results should score above 85.
+  - Only give low scores (<60) if the resume is very sparse, has major formatting errors, or lacks relevant skills entirely.
+  - Look for transferrable skills and potential, not just perfect keyword matching.
+  `;
+
+const REGISTRY: { [K in PromptId]: PromptEntry<K> } = {
+  analyzeResume: {
+    active: 'v2',
+    versions: {
+      v1: () => ANALYZE_RESUME_V1,
+      // Same scoring rules, plus the structured profile
+      v2: () => `${ANALYZE_RESUME_V1}
+  PROFILE EXTRACTION:
+  Also fill "profile" with exactly what the resume states. Do not invent details; omit fields that are not present.
+  - contact: name, email, phone, location and any profile/portfolio links.
+  - headline: the candidate's current or target job title.
+  - experience: one entry per role, newest first, with dates as YYYY-MM (or YYYY if only the year is given). Omit endDate for a current role. Put achievements in highlights.
+  - education, certifications and projects as listed.
+  - skills: every skill with proficiency (Beginner, Intermediate, Advanced, Expert) and years of use when they can be inferred from the experience.
+  `
+    }
+  },
+
+  tailoredJobs: {
+    active: 'v2',
+    versions: {
+      v1: ({ resumeSummary, skills, count }) => `Generate ${count} realistic job postings that are highly relevant to this candidate profile.
+  Candidate Summary: ${resumeSummary}
+  Candidate Skills: ${skills.join(', ')}
+
+  Task:
+  1. Infer the candidate's industry and seniority level.
+  2. Create ${count} diverse job opportunities.
+  3. Ensure the job titles and requirements are realistic.
+  4. Include a mix of "Best Match" and "Stretch" roles.
+
+  Return valid JSON.`,
+      // Asks for the structured posting fields instead of free-text salary and requirements only
+      v2: ({ resumeSummary, skills, count, today }) => `Generate ${count} realistic job postings that are highly relevant to this candidate profile.
+  Candidate Summary: ${resumeSummary}
+  Candidate Skills: ${skills.join(', ')}
+
+  Task:
+  1. Infer the candidate's industry and seniority level.
+  2. Create ${count} diverse job opportunities.
+  3. Ensure the job titles and requirements are realistic.
+  4. Include a mix of "Best Match" and "Stretch" roles.
+
+  For each posting:
+  - salaryRange: numeric min and max (whole currency units, not thousands), an ISO currency code, and period "year" or "hour".
+  - seniority: one of Internship, Entry, Mid, Senior, Lead, Executive.
+  - remotePolicy: Remote, Hybrid or Onsite, consistent with the location.
+  - skills: 4-8 concrete skills or tools by their common name (e.g. "React", "PostgreSQL"), marking each as required or nice-to-have.
+  - deadline: optional application deadline as YYYY-MM-DD, between 2 and 8 weeks after ${today}.
+
+  Return valid JSON.`
+    }
+  },
+
+  jobMatch: {
+    active: 'v2',
+    versions: {
+      v1: ({ resumeSummary, resumeSkills, jobDescription }) => `Role: Senior Recruiter & ATS Specialist.
+
+  Candidate Profile:
+  Summary: ${resumeSummary}
+  Skills: ${resumeSkills.join(', ')}
+
+  Job Description:
+  ${jobDescription}
+
+  Evaluate fit. Provide JSON response.`,
+      // Adds the structured work history so seniority and recency can be judged
+      v2: ({ resumeSummary, resumeSkills, profile, jobDescription }) => `Role: Senior Recruiter & ATS Specialist.
+
+  Candidate Profile:
+  Summary: ${resumeSummary}
+  Skills: ${resumeSkills.join(', ')}
+  ${profile ? `\n${describeProfile(profile)}\n` : ''}
+  Job Description:
+  ${jobDescription}
+
+  Evaluate fit. Weigh how recent and how long the relevant experience is, not just keyword overlap.
+  Provide JSON response.`
+    }
+  },
+
+  improvementExample: {
+    active: 'v1',
+    versions: {
+      v1: ({ improvement, resumeSummary }) => `Context: Resume Summary: "${resumeSummary}". Improvement: "${improvement}".
+  Task: Write a specific, concrete example (1-2 sentences) of how to implement this improvement.`
+    }
+  },
+
+  suggestSkills: {
+    active: 'v1',
+    versions: {
+      v1: ({ currentSkills, roleContext }) => `Based on the following candidate profile and skills, suggest 6 high-value skills they should learn.
+
+  Role/Context: ${roleContext}
+  Current Skills: ${currentSkills.join(', ')}
+  `
+    }
+  },
+
+  resumeRewrite: {
+    active: 'v1',
+    versions: {
+      v1: ({ improvement, draft }) => `You are editing a candidate's resume to apply one improvement.
+
+  Improvement to apply: "${improvement}"
+
+  Resume (labels show which field each line is):
+  ${numberedResume(draft)}
+
+  Suggest 1-4 concrete rewrites that apply this improvement. For each, give:
+  - section: "summary", "headline", "highlight" (an experience bullet), "project" (a project description) or "skill" (a skill to add).
+  - itemIndex: the ROLE number for highlights or the PROJECT number for projects.
+  - highlightIndex: the bullet to replace (the number after the dot in HIGHLIGHT); omit it to add a new bullet.
+  - original: the current text you are replacing, copied exactly.
+  - suggested: the full replacement text.
+  - reason: one short sentence on why this helps.
+
+  RULES:
+  - Only use facts already in the resume. Where a metric would help but isn't given, use a placeholder like [X%] instead of inventing a number.
+  - Keep bullets to one line, starting with a strong verb. No first person.
+  - Plain text only; no markdown, tables or special symbols, so the result stays ATS-friendly.`
+    }
+  },
+
+  tailorResume: {
+    active: 'v1',
+    versions: {
+      v1: ({ jobTitle, jobDescription, missingKeywords, draft }) => `You are tailoring a candidate's resume for one job.
+
+  Job: ${jobTitle}
+  Job Description: ${jobDescription}
+  Keywords the resume is missing for this job: ${missingKeywords.length > 0 ? missingKeywords.join(', ') : 'none'}
+
+  Resume (labels show which field each line is):
+  ${numberedResume(draft)}
+
+  Return:
+  - summary: the summary rewritten to lead with what this job cares about.
+  - headline: a headline aimed at this job, based on titles the candidate has actually held.
+  - roles: for each ROLE, its index and all of its highlights, reordered so the most relevant come first. Reword a highlight to use the job's terms only where it already describes that work.
+  - skills: the candidate's skills, most relevant to this job first.
+  - emphasizedKeywords: missing keywords the resume now surfaces.
+  - unsupportedKeywords: missing keywords nothing in the resume supports.
+
+  RULES:
+  - Be truthful. Never add employers, titles, dates, tools, metrics or achievements that aren't in the resume. A keyword with no evidence goes in unsupportedKeywords, not into the text.
+  - Keep every highlight; do not merge or drop bullets.
+  - Plain text only; no markdown, tables or special symbols, so the result stays ATS-friendly.`
+    }
+  },
+
+  liveInterview: {
+    active: 'v1',
+    versions: {
+      v1: ({ resumeSummary, skills }) => {
+        const contextPrompt = resumeSummary
+          ? `
+          The candidate's background summary is: "${resumeSummary}".
+          Their key skills are: ${skills?.join(', ')}.
+          Tailor your questions specifically to this background and their inferred target role.
+          `
+          : "The candidate has not uploaded a resume yet. Ask general behavioral questions suitable for any professional role.";
+
+        return `
+        You are an expert technical hiring manager conducting a professional job interview.
+
+        CONTEXT:
+        ${contextPrompt}
+
+        RULES:
+        1. LANGUAGE: You MUST speak ONLY in English. Even if the user sounds like they are speaking another language (which might be audio noise), continue in English. politely ask them to repeat in English if unclear.
+        2. INTERACTION: Ask ONE question at a time. Wait for the user to answer.
+        3. FEEDBACK: After the user answers, provide brief, constructive feedback (1-2 sentences) on their answer, then move to the next question.
+        4. TONE: Professional, encouraging, but rigorous.
+        5. INITIALIZATION: Start by briefly introducing yourself as "CareerCraft AI Interviewer" and ask the candidate to introduce themselves.
+      `;
+      }
+    }
+  }
+};
+
+export const activePromptVersion = (id: PromptId) => REGISTRY[id].active;
+
+export const promptVersions = (id: PromptId) => Object.keys(REGISTRY[id].versions);
+
+/** Renders a prompt with the active version, or a specific one when comparing versions. */
+export const renderPrompt = <K extends PromptId>(
+  id: K,
+  input: PromptInputs[K],
+  version: string = activePromptVersion(id)
+): RenderedPrompt => {
+  const template = (REGISTRY[id] as PromptEntry<K>).versions[version];
+  if (!template) throw new Error(`Unknown prompt version ${id}@${version}`);
+  return { id, version, tag: `${id}@${version}`, text: template(input) };
+};
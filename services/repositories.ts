@@ -0,0 +1,880 @@
+import { supabase } from '../lib/supabaseClient';
+import { readJson, writeJson } from '../lib/storage';
+import { needsUpgrade, upgradeJob } from '../lib/jobPosting';
+import { createSyncQueue, isPermanentError, mergeConcurrentEdits, sameValue, SyncHandlers, SyncQueue } from './syncQueue';
+import { matchesSchema, storedResumeAnalysisSchema } from './aiSchemas';
+import { deleteResumeFile } from './resumeFiles';
+import { AppNotification, Application, Job, PracticeTarget, RevealEvent, SavedResume, SavedSearch, UserRole } from '../types';
+
+// Storage keys shared with earlier builds of the app. Changing these orphans existing local data.
+const GLOBAL_APPLICATIONS_KEY = 'carrerx_global_applications';
+const GLOBAL_JOBS_KEY = 'carrerx_global_jobs';
+const userJobsKey = (userId: string) => `carrerx_jobs_${userId}`;
+const userResumesKey = (userId: string) => `carrerx_resumes_${userId}`;
+const primaryResumeKey = (userId: string) => `carrerx_primary_resume_${userId}`;
+const legacyUserAppsKey = (userId: string) => `carrerx_apps_${userId}`;
+const blindReviewKey = (employerId: string) => `carrerx_blind_review_${employerId}`;
+const revealsKey = (employerId: string) => `carrerx_reveals_${employerId}`;
+const savedSearchesKey = (userId: string) => `carrerx_saved_searches_${userId}`;
+const notificationsKey = (userId: string) => `carrerx_notifications_${userId}`;
+const practiceTargetsKey = (userId: string) => `carrerx_practice_targets_${userId}`;
+
+export interface RepositoryUser {
+  id: string;
+  email: string;
+  role: UserRole;
+}
+
+export interface ResumesRepository {
+  list(userId: string): Promise<SavedResume[]>;
+  save(userId: string, resume: SavedResume): Promise<void>;
+  /** Removes the row and, remotely, its uploaded file. */
+  delete(userId: string, resume: SavedResume): Promise<void>;
+  /** The resume other features use by default. Null means "the newest one". */
+  getPrimaryId(userId: string): Promise<string | null>;
+  setPrimaryId(userId: string, resumeId: string | null): Promise<void>;
+}
+
+export interface ApplicationsRepository {
+  list(user: RepositoryUser): Promise<Application[]>;
+  get(id: string): Promise<Application | null>;
+  /** Ownership comes from `application.candidateId`; employers never own application rows. */
+  save(application: Application): Promise<void>;
+  /**
+   * Saves a new application, sending it to the backend right away so a refusal (e.g. the job
+   * closed meanwhile) reaches the candidate as a rejected promise. Offline it queues like `save`.
+   */
+  submit(application: Application): Promise<void>;
+}
+
+export interface JobsRepository {
+  /** Jobs posted by employers, visible to every candidate. */
+  listPosted(): Promise<Job[]>;
+  /** Jobs cached for a single user (e.g. AI-generated matches). */
+  listForUser(userId: string): Promise<Job[]>;
+  savePosted(job: Job): Promise<void>;
+  /** The posted job as the backend has it now, e.g. to check it still takes applications. */
+  getPosted(jobId: string): Promise<Job | null>;
+  /** Updates a posted job in place. Jobs that were never posted are left alone. */
+  updatePosted(job: Job): Promise<void>;
+  saveForUser(userId: string, jobs: Job[]): Promise<void>;
+}
+
+export interface ScreeningRepository {
+  /** Whether the employer reviews candidates blind. */
+  getBlindReview(employerId: string): Promise<boolean>;
+  setBlindReview(employerId: string, enabled: boolean): Promise<void>;
+  /** Identity reveals, newest first. */
+  listReveals(employerId: string): Promise<RevealEvent[]>;
+  logReveal(event: RevealEvent): Promise<void>;
+}
+
+export interface SearchesRepository {
+  /** Saved job searches, newest first. */
+  list(userId: string): Promise<SavedSearch[]>;
+  save(userId: string, search: SavedSearch): Promise<void>;
+  delete(userId: string, search: SavedSearch): Promise<void>;
+}
+
+export interface NotificationsRepository {
+  /** In-app notifications, newest first. */
+  list(userId: string): Promise<AppNotification[]>;
+  /** Inserts new notifications or updates existing ones (e.g. marking them read). */
+  save(userId: string, notifications: AppNotification[]): Promise<void>;
+}
+
+export interface PracticeTargetsRepository {
+  /** AI-suggested jobs the candidate kept to practice against, newest first. */
+  list(userId: string): Promise<PracticeTarget[]>;
+  save(userId: string, target: PracticeTarget): Promise<void>;
+  delete(userId: string, target: PracticeTarget): Promise<void>;
+}
+
+export interface Repositories {
+  resumes: ResumesRepository;
+  applications: ApplicationsRepository;
+  jobs: JobsRepository;
+  screening: ScreeningRepository;
+  searches: SearchesRepository;
+  notifications: NotificationsRepository;
+  practiceTargets: PracticeTargetsRepository;
+}
+
+// --- MERGE RULES ---
+
+/** Saved resumes whose analysis no longer matches the AI schema are dropped on load. */
+export const isValidSavedResume = (resume: any): resume is SavedResume =>
+  !!resume && matchesSchema(resume.data, storedResumeAnalysisSchema);
+
+/** Adds remote applications that are missing locally. Local copies win on id collisions. */
+export const mergeApplications = (local: Application[], remote: Application[]): Application[] => {
+  const merged = [...local];
+  const ids = new Set(local.map(a => a.id));
+  remote.forEach(app => {
+    if (app && !ids.has(app.id)) {
+      merged.push(app);
+      ids.add(app.id);
+    }
+  });
+  return merged;
+};
+
+/** Employers see every application, candidates only their own. Newest first. */
+export const visibleApplications = (applications: Application[], user: RepositoryUser): Application[] => {
+  const visible = user.role === 'employer'
+    ? [...applications]
+    : applications.filter(app => app.candidateEmail === user.email);
+  return visible.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+};
+
+type StringKey<T> = { [K in keyof T]: T[K] extends string ? K : never }[keyof T];
+
+/**
+ * Rows from both backends, deduplicated by id and sorted newest first by `sortKey` (an ISO
+ * timestamp). Local copies win on id collisions, since they may hold edits that haven't synced.
+ */
+export const mergeById = <T extends { id: string }>(local: T[], remote: T[], sortKey: StringKey<T>): T[] => {
+  const byId = new Map([...remote, ...local].map(item => [item.id, item]));
+  return [...byId.values()].sort((a, b) => (b[sortKey] as string).localeCompare(a[sortKey] as string));
+};
+
+/** Posted jobs come first; user-cached jobs are appended unless already posted. */
+export const mergeJobs = (posted: Job[], userJobs: Job[]): Job[] => {
+  const merged = [...posted];
+  const postedIds = new Set(posted.map(j => j.id));
+  userJobs.forEach(j => {
+    if (!postedIds.has(j.id)) {
+      merged.push(j);
+    }
+  });
+  return merged;
+};
+
+const upsertById = <T extends { id: string }>(items: T[], item: T): T[] =>
+  items.some(i => i.id === item.id)
+    ? items.map(i => i.id === item.id ? item : i)
+    : [item, ...items];
+
+// --- LOCAL BACKEND ---
+
+// Self-heal: jobs stored before postings were structured get their fields filled in and saved back
+const readJobs = (key: string) => {
+  const jobs = readJson<Job[]>(key, []);
+  if (!jobs.some(needsUpgrade)) return jobs;
+  const upgraded = jobs.map(upgradeJob);
+  writeJson(key, upgraded);
+  return upgraded;
+};
+
+export const createLocalRepositories = (): Repositories => ({
+  resumes: {
+    async list(userId) {
+      const parsed = readJson<unknown>(userResumesKey(userId), []);
+      return Array.isArray(parsed) ? parsed.filter(isValidSavedResume) : [];
+    },
+    async save(userId, resume) {
+      const existing = readJson<SavedResume[]>(userResumesKey(userId), []);
+      writeJson(userResumesKey(userId), upsertById(existing, resume));
+    },
+    async delete(userId, resume) {
+      const existing = readJson<SavedResume[]>(userResumesKey(userId), []);
+      writeJson(userResumesKey(userId), existing.filter(r => r.id !== resume.id));
+    },
+    async getPrimaryId(userId) {
+      return readJson<string | null>(primaryResumeKey(userId), null);
+    },
+    async setPrimaryId(userId, resumeId) {
+      writeJson(primaryResumeKey(userId), resumeId);
+    }
+  },
+
+  applications: {
+    // The global key is the source of truth for the demo environment, so candidates and
+    // employers on the same browser share data without DB permissions.
+    async list(user) {
+      let globalApps = readJson<Application[]>(GLOBAL_APPLICATIONS_KEY, []);
+
+      // Self-heal: migrate a candidate's legacy per-user applications into the global key
+      if (globalApps.length === 0 && user.role === 'candidate') {
+        const legacyApps = readJson<Application[]>(legacyUserAppsKey(user.id), []);
+        if (legacyApps.length > 0) {
+          globalApps = legacyApps;
+          writeJson(GLOBAL_APPLICATIONS_KEY, globalApps);
+        }
+      }
+      return globalApps;
+    },
+    async get(id) {
+      return readJson<Application[]>(GLOBAL_APPLICATIONS_KEY, []).find(a => a.id === id) || null;
+    },
+    async save(application) {
+      const existing = readJson<Application[]>(GLOBAL_APPLICATIONS_KEY, []);
+      writeJson(GLOBAL_APPLICATIONS_KEY, upsertById(existing, application));
+    },
+    async submit(application) {
+      return this.save(application);
+    }
+  },
+
+  jobs: {
+    async listPosted() {
+      return readJobs(GLOBAL_JOBS_KEY);
+    },
+    async listForUser(userId) {
+      return readJobs(userJobsKey(userId));
+    },
+    async savePosted(job) {
+      const existing = readJson<Job[]>(GLOBAL_JOBS_KEY, []);
+      writeJson(GLOBAL_JOBS_KEY, upsertById(existing, job));
+    },
+    async getPosted(jobId) {
+      return readJobs(GLOBAL_JOBS_KEY).find(j => j.id === jobId) || null;
+    },
+    async updatePosted(job) {
+      const existing = readJson<Job[]>(GLOBAL_JOBS_KEY, []);
+      if (existing.some(j => j.id === job.id)) {
+        writeJson(GLOBAL_JOBS_KEY, existing.map(j => j.id === job.id ? job : j));
+      }
+    },
+    async saveForUser(userId, jobs) {
+      writeJson(userJobsKey(userId), jobs);
+    }
+  },
+
+  screening: {
+    async getBlindReview(employerId) {
+      return readJson<boolean>(blindReviewKey(employerId), false);
+    },
+    async setBlindReview(employerId, enabled) {
+      writeJson(blindReviewKey(employerId), enabled);
+    },
+    async listReveals(employerId) {
+      return readJson<RevealEvent[]>(revealsKey(employerId), []);
+    },
+    async logReveal(event) {
+      const existing = readJson<RevealEvent[]>(revealsKey(event.employerId), []);
+      writeJson(revealsKey(event.employerId), upsertById(existing, event));
+    }
+  },
+
+  searches: {
+    async list(userId) {
+      return readJson<SavedSearch[]>(savedSearchesKey(userId), []);
+    },
+    async save(userId, search) {
+      const existing = readJson<SavedSearch[]>(savedSearchesKey(userId), []);
+      writeJson(savedSearchesKey(userId), upsertById(existing, search));
+    },
+    async delete(userId, search) {
+      const existing = readJson<SavedSearch[]>(savedSearchesKey(userId), []);
+      writeJson(savedSearchesKey(userId), existing.filter(s => s.id !== search.id));
+    }
+  },
+
+  notifications: {
+    async list(userId) {
+      return readJson<AppNotification[]>(notificationsKey(userId), []);
+    },
+    async save(userId, notifications) {
+      const existing = readJson<AppNotification[]>(notificationsKey(userId), []);
+      // The incoming copies win, so marking a notification read sticks
+      writeJson(notificationsKey(userId), mergeById(notifications, existing, 'createdAt'));
+    }
+  },
+
+  practiceTargets: {
+    async list(userId) {
+      return readJson<PracticeTarget[]>(practiceTargetsKey(userId), []);
+    },
+    async save(userId, target) {
+      const existing = readJson<PracticeTarget[]>(practiceTargetsKey(userId), []);
+      writeJson(practiceTargetsKey(userId), upsertById(existing, target));
+    },
+    async delete(userId, target) {
+      const existing = readJson<PracticeTarget[]>(practiceTargetsKey(userId), []);
+      writeJson(practiceTargetsKey(userId), existing.filter(t => t.id !== target.id));
+    }
+  }
+});
+
+// --- SUPABASE BACKEND ---
+
+export interface RemoteRow<T> {
+  data: T;
+  updatedAt: string;
+}
+
+// Submitting is a hybrid concern: it decides between writing now and queueing
+export interface RemoteApplicationsRepository extends Omit<ApplicationsRepository, 'submit'> {
+  getRow(id: string): Promise<RemoteRow<Application> | null>;
+  /** Inserts or replaces the row as its candidate. RLS rejects this for employers. */
+  save(application: Application, updatedAt?: string): Promise<void>;
+  /** Updates the data of an existing row without touching ownership. */
+  update(application: Application, updatedAt?: string): Promise<void>;
+}
+
+export interface RemoteJobsRepository {
+  listPosted(): Promise<Job[]>;
+  getPosted(jobId: string): Promise<Job | null>;
+  savePosted(job: Job): Promise<void>;
+}
+
+export interface RemoteRepositories {
+  resumes: ResumesRepository;
+  applications: RemoteApplicationsRepository;
+  jobs: RemoteJobsRepository;
+  screening: ScreeningRepository;
+  searches: SearchesRepository;
+  notifications: NotificationsRepository;
+  practiceTargets: PracticeTargetsRepository;
+}
+
+// Job data saved before ownership was recorded has no employerId; the row's owner column does
+const withEmployer = (row: { data: Job; employer_id: string }): Job =>
+  row.data.employerId ? row.data : { ...row.data, employerId: row.employer_id };
+
+export const createSupabaseRepositories = (): RemoteRepositories => ({
+  resumes: {
+    async list(userId) {
+      const { data, error } = await supabase
+        .from('resumes')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || [])
+        .map((row: any) => ({ id: row.id, created_at: row.created_at, data: row.data, label: row.label || undefined, jobId: row.job_id || undefined }))
+        .filter(isValidSavedResume);
+    },
+    async save(userId, resume) {
+      // Upsert rather than insert so retried writes from the outbox are idempotent
+      const { error } = await supabase.from('resumes').upsert({
+        id: resume.id,
+        user_id: userId,
+        data: resume.data,
+        label: resume.label || null,
+        job_id: resume.jobId || null,
+        created_at: resume.created_at
+      });
+      if (error) throw error;
+    },
+    async delete(_userId, resume) {
+      // File first: if the row delete then fails, the retry finds the object already gone
+      const storagePath = resume.data.file?.storagePath;
+      if (storagePath) await deleteResumeFile(storagePath);
+      const { error } = await supabase.from('resumes').delete().eq('id', resume.id);
+      if (error) throw error;
+    },
+    // A per-user preference rather than a row flag, so there is never more than one primary
+    async getPrimaryId() {
+      const { data, error } = await supabase.auth.getUser();
+      if (error) throw error;
+      return data.user?.user_metadata.primary_resume_id || null;
+    },
+    async setPrimaryId(_userId, resumeId) {
+      const { error } = await supabase.auth.updateUser({ data: { primary_resume_id: resumeId } });
+      if (error) throw error;
+    }
+  },
+
+  applications: {
+    async list(user) {
+      let query = supabase.from('applications').select('user_id, data');
+      if (user.role === 'candidate') {
+        query = query.eq('user_id', user.id);
+      }
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []).map((row: any) => row.data).filter((a: any) => a);
+    },
+    async get(id) {
+      const row = await this.getRow(id);
+      return row ? row.data : null;
+    },
+    async getRow(id) {
+      const { data, error } = await supabase
+        .from('applications')
+        .select('data, updated_at')
+        .eq('id', id)
+        .maybeSingle();
+      if (error) throw error;
+      return data ? { data: data.data, updatedAt: data.updated_at } : null;
+    },
+    async save(application, updatedAt = new Date().toISOString()) {
+      if (!application.candidateId) {
+        throw new Error(`Application ${application.id} has no candidateId`);
+      }
+      const { error } = await supabase.from('applications').upsert({
+        id: application.id,
+        user_id: application.candidateId,
+        job_id: application.jobId,
+        data: application,
+        updated_at: updatedAt
+      });
+      if (error) throw error;
+    },
+    async update(application, updatedAt = new Date().toISOString()) {
+      const { error } = await supabase
+        .from('applications')
+        .update({ data: application, updated_at: updatedAt })
+        .eq('id', application.id);
+      if (error) throw error;
+    }
+  },
+
+  jobs: {
+    async listPosted() {
+      const { data, error } = await supabase
+        .from('jobs')
+        .select('data, employer_id')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      const rows = (data || []).filter((row: any) => row.data);
+      const stored: Job[] = rows.map(withEmployer);
+
+      // Rows stored before the structured fields or the owner were recorded are rewritten, like the local cache.
+      // RLS only lets employers update their own jobs, so each employer's rows are upgraded
+      // when they next sign in; until then readers upgrade them in memory.
+      const { data: { session } } = await supabase.auth.getSession();
+      const own = rows
+        .filter((row: any) => row.employer_id === session?.user.id && (needsUpgrade(row.data) || !row.data.employerId))
+        .map((row: any) => upgradeJob(withEmployer(row)));
+      if (own.length > 0) {
+        Promise.all(own.map(job => supabase.from('jobs').update({ status: job.status, data: job }).eq('id', job.id)))
+          .catch(e => console.warn('DB Error (Job upgrade):', e?.message || e));
+      }
+      return stored.map(upgradeJob);
+    },
+    async getPosted(jobId) {
+      const { data, error } = await supabase
+        .from('jobs')
+        .select('data, employer_id')
+        .eq('id', jobId)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.data ? upgradeJob(withEmployer(data)) : null;
+    },
+    async savePosted(job) {
+      if (!job.employerId) {
+        throw new Error(`Job ${job.id} has no employerId`);
+      }
+      const { error } = await supabase.from('jobs').upsert({
+        id: job.id,
+        employer_id: job.employerId,
+        status: job.status,
+        data: job,
+        updated_at: new Date().toISOString()
+      });
+      if (error) throw error;
+    }
+  },
+
+  screening: {
+    async getBlindReview() {
+      const { data, error } = await supabase.auth.getUser();
+      if (error) throw error;
+      return !!data.user?.user_metadata.blind_review;
+    },
+    async setBlindReview(_employerId, enabled) {
+      const { error } = await supabase.auth.updateUser({ data: { blind_review: enabled } });
+      if (error) throw error;
+    },
+    async listReveals(employerId) {
+      const { data, error } = await supabase
+        .from('application_reveals')
+        .select('*')
+        .eq('employer_id', employerId)
+        .order('revealed_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map((row: any) => ({
+        id: row.id,
+        applicationId: row.application_id,
+        jobId: row.job_id,
+        employerId: row.employer_id,
+        status: row.status,
+        revealedAt: row.revealed_at
+      }));
+    },
+    async logReveal(event) {
+      // The log is append-only: a retried write of the same event is a no-op
+      const { error } = await supabase.from('application_reveals').upsert({
+        id: event.id,
+        employer_id: event.employerId,
+        application_id: event.applicationId,
+        job_id: event.jobId,
+        status: event.status,
+        revealed_at: event.revealedAt
+      }, { onConflict: 'id', ignoreDuplicates: true });
+      if (error) throw error;
+    }
+  },
+
+  searches: {
+    async list(userId) {
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map((row: any) => ({
+        id: row.id,
+        name: row.name,
+        query: row.query,
+        createdAt: row.created_at,
+        ...(row.alert && { alert: row.alert })
+      }));
+    },
+    async save(userId, search) {
+      const { error } = await supabase.from('saved_searches').upsert({
+        id: search.id,
+        user_id: userId,
+        name: search.name,
+        query: search.query,
+        alert: search.alert ?? null,
+        created_at: search.createdAt,
+        updated_at: new Date().toISOString()
+      });
+      if (error) throw error;
+    },
+    async delete(userId, search) {
+      const { error } = await supabase.from('saved_searches').delete().eq('id', search.id).eq('user_id', userId);
+      if (error) throw error;
+    }
+  },
+
+  notifications: {
+    async list(userId) {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map((row: any) => ({
+        id: row.id,
+        kind: row.kind,
+        title: row.title,
+        body: row.body,
+        jobId: row.job_id || undefined,
+        searchId: row.search_id || undefined,
+        createdAt: row.created_at,
+        read: row.read
+      }));
+    },
+    async save(userId, notifications) {
+      const { error } = await supabase.from('notifications').upsert(notifications.map(notification => ({
+        id: notification.id,
+        user_id: userId,
+        kind: notification.kind,
+        title: notification.title,
+        body: notification.body,
+        job_id: notification.jobId ?? null,
+        search_id: notification.searchId ?? null,
+        read: notification.read,
+        created_at: notification.createdAt
+      })));
+      if (error) throw error;
+    }
+  },
+
+  practiceTargets: {
+    async list(userId) {
+      const { data, error } = await supabase
+        .from('practice_targets')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map((row: any) => ({ id: row.id, job: upgradeJob(row.job), savedAt: row.created_at }));
+    },
+    async save(userId, target) {
+      const { error } = await supabase.from('practice_targets').upsert({
+        id: target.id,
+        user_id: userId,
+        job: target.job,
+        created_at: target.savedAt
+      });
+      if (error) throw error;
+    },
+    async delete(userId, target) {
+      const { error } = await supabase.from('practice_targets').delete().eq('id', target.id).eq('user_id', userId);
+      if (error) throw error;
+    }
+  }
+});
+
+// --- SYNC ---
+
+/**
+ * Outbox handlers. Application rows can be edited by both the candidate and the employer, so
+ * before writing we check whether the row changed remotely since our base snapshot and, if so,
+ * merge field by field and write the result back locally too.
+ */
+export const createSyncHandlers = (local: Repositories, remote: RemoteRepositories): SyncHandlers => ({
+  resumes: async (mutation) => {
+    if (mutation.deleted) {
+      await remote.resumes.delete(mutation.ownerId, mutation.data);
+      return;
+    }
+    await remote.resumes.save(mutation.ownerId, mutation.data);
+  },
+
+  jobs: async (mutation) => {
+    await remote.jobs.savePosted(mutation.data);
+  },
+
+  reveals: async (mutation) => {
+    await remote.screening.logReveal(mutation.data);
+  },
+
+  searches: async (mutation) => {
+    if (mutation.deleted) {
+      await remote.searches.delete(mutation.ownerId, mutation.data);
+      return;
+    }
+    await remote.searches.save(mutation.ownerId, mutation.data);
+  },
+
+  notifications: async (mutation) => {
+    await remote.notifications.save(mutation.ownerId, [mutation.data]);
+  },
+
+  practiceTargets: async (mutation) => {
+    if (mutation.deleted) {
+      await remote.practiceTargets.delete(mutation.ownerId, mutation.data);
+      return;
+    }
+    await remote.practiceTargets.save(mutation.ownerId, mutation.data);
+  },
+
+  applications: async (mutation) => {
+    const current = await remote.applications.getRow(mutation.rowId);
+
+    // New rows are inserted by the candidate; existing rows are only ever updated so that an
+    // employer changing a status can't trip the candidate-only insert policy.
+    if (!current) {
+      await remote.applications.save(mutation.data, mutation.updatedAt);
+      return;
+    }
+
+    if (sameValue(current.data, mutation.base)) {
+      await remote.applications.update(mutation.data, mutation.updatedAt);
+      return;
+    }
+
+    const merged = mergeConcurrentEdits(mutation.base, mutation.data, current.data, mutation.updatedAt, current.updatedAt);
+    const updatedAt = new Date(Math.max(
+      new Date(mutation.updatedAt).getTime(),
+      new Date(current.updatedAt).getTime()
+    )).toISOString();
+
+    await remote.applications.update(merged, updatedAt);
+    await local.applications.save(merged);
+    return merged;
+  }
+});
+
+// --- COMBINED ---
+
+/**
+ * Reads from both backends and applies the merge rules above. Writes go to local storage
+ * first so the UI never waits on the network, then through the sync outbox to Supabase.
+ */
+export const createRepositories = (
+  local: Repositories,
+  remote: RemoteRepositories,
+  outbox: SyncQueue
+): Repositories => {
+  const tryRemote = async <T>(label: string, fn: () => Promise<T>, fallback: T): Promise<T> => {
+    try {
+      return await fn();
+    } catch (e: any) {
+      console.warn(`DB Error (${label}):`, e?.message || e);
+      return fallback;
+    }
+  };
+
+  return {
+    resumes: {
+      async list(userId) {
+        const localResumes = await local.resumes.list(userId);
+        const remoteResumes = await tryRemote('Resumes', () => remote.resumes.list(userId), []);
+        if (remoteResumes.length === 0) {
+          return localResumes;
+        }
+        // The DB is authoritative, except for deletes and saves made here that haven't synced yet
+        const deleted = outbox.pendingDeletes('resumes');
+        const queued = outbox.pendingWrites('resumes');
+        const synced = remoteResumes.filter(resume => !deleted.has(resume.id) && !queued.has(resume.id));
+        // Mirror DB rows locally (oldest first, since saves prepend) so the fallback stays warm
+        for (const resume of [...synced].reverse()) {
+          await local.resumes.save(userId, resume);
+        }
+        return mergeById(localResumes.filter(resume => queued.has(resume.id)), synced, 'created_at');
+      },
+      async save(userId, resume) {
+        await local.resumes.save(userId, resume);
+        outbox.enqueue({ table: 'resumes', rowId: resume.id, ownerId: userId, data: resume });
+      },
+      async delete(userId, resume) {
+        await local.resumes.delete(userId, resume);
+        outbox.enqueue({ table: 'resumes', rowId: resume.id, ownerId: userId, data: resume, deleted: true });
+      },
+      async getPrimaryId(userId) {
+        const remoteId = await tryRemote('Primary resume', () => remote.resumes.getPrimaryId(userId), null);
+        if (remoteId) {
+          await local.resumes.setPrimaryId(userId, remoteId);
+          return remoteId;
+        }
+        return local.resumes.getPrimaryId(userId);
+      },
+      async setPrimaryId(userId, resumeId) {
+        await local.resumes.setPrimaryId(userId, resumeId);
+        // Auth metadata isn't a table the outbox can replay, so this is best effort; the local
+        // copy keeps the choice on this device until the next successful write
+        await tryRemote('Primary resume', () => remote.resumes.setPrimaryId(userId, resumeId), undefined);
+      }
+    },
+
+    applications: {
+      async list(user) {
+        const localApps = await local.applications.list(user);
+        const remoteApps = await tryRemote('Applications', () => remote.applications.list(user), []);
+        return visibleApplications(mergeApplications(localApps, remoteApps), user);
+      },
+      get: (id) => local.applications.get(id),
+      async save(application) {
+        const base = await local.applications.get(application.id);
+        await local.applications.save(application);
+        outbox.enqueue({
+          table: 'applications',
+          rowId: application.id,
+          ownerId: application.candidateId || '',
+          // Round-trip through JSON so Dates compare equal to what comes back from the DB
+          data: JSON.parse(JSON.stringify(application)),
+          base: base ?? undefined
+        });
+      },
+      async submit(application) {
+        try {
+          await remote.applications.save(application);
+        } catch (e) {
+          // Refused for good: keep nothing, so the candidate doesn't see it as sent
+          if (isPermanentError(e)) throw e;
+          return this.save(application);
+        }
+        await local.applications.save(application);
+      }
+    },
+
+    jobs: {
+      async listPosted() {
+        const localJobs = await local.jobs.listPosted();
+        const remoteJobs = await tryRemote('Jobs', () => remote.jobs.listPosted(), []);
+        // Local copies win so unsynced edits aren't overwritten by stale rows
+        return mergeJobs(localJobs, remoteJobs);
+      },
+      listForUser: (userId) => local.jobs.listForUser(userId),
+      async getPosted(jobId) {
+        // The server's copy decides; the local one only covers being offline
+        const remoteJob = await tryRemote('Job', () => remote.jobs.getPosted(jobId), null);
+        return remoteJob || local.jobs.getPosted(jobId);
+      },
+      async savePosted(job) {
+        await local.jobs.savePosted(job);
+        outbox.enqueue({ table: 'jobs', rowId: job.id, ownerId: job.employerId || '', data: job });
+      },
+      async updatePosted(job) {
+        await local.jobs.updatePosted(job);
+        if (job.employerId) {
+          outbox.enqueue({ table: 'jobs', rowId: job.id, ownerId: job.employerId, data: job });
+        }
+      },
+      saveForUser: (userId, jobs) => local.jobs.saveForUser(userId, jobs)
+    },
+
+    screening: {
+      async getBlindReview(employerId) {
+        // The account setting is authoritative whenever we can read it, including when it's off;
+        // the local copy only covers being offline
+        const remoteEnabled = await tryRemote<boolean | null>('Blind review', () => remote.screening.getBlindReview(employerId), null);
+        if (remoteEnabled !== null) {
+          await local.screening.setBlindReview(employerId, remoteEnabled);
+          return remoteEnabled;
+        }
+        return local.screening.getBlindReview(employerId);
+      },
+      async setBlindReview(employerId, enabled) {
+        await local.screening.setBlindReview(employerId, enabled);
+        // Stored in auth metadata like the primary resume, so also best effort
+        await tryRemote('Blind review', () => remote.screening.setBlindReview(employerId, enabled), undefined);
+      },
+      async listReveals(employerId) {
+        const localReveals = await local.screening.listReveals(employerId);
+        const remoteReveals = await tryRemote('Reveals', () => remote.screening.listReveals(employerId), []);
+        return mergeById(localReveals, remoteReveals, 'revealedAt');
+      },
+      async logReveal(event) {
+        await local.screening.logReveal(event);
+        outbox.enqueue({ table: 'reveals', rowId: event.id, ownerId: event.employerId, data: event });
+      }
+    },
+
+    searches: {
+      async list(userId) {
+        const localSearches = await local.searches.list(userId);
+        const remoteSearches = await tryRemote('Saved searches', () => remote.searches.list(userId), []);
+        // Searches deleted here but not yet remotely would otherwise come back
+        const deleted = outbox.pendingDeletes('searches');
+        return mergeById(localSearches, remoteSearches.filter(search => !deleted.has(search.id)), 'createdAt');
+      },
+      async save(userId, search) {
+        await local.searches.save(userId, search);
+        outbox.enqueue({ table: 'searches', rowId: search.id, ownerId: userId, data: search });
+      },
+      async delete(userId, search) {
+        await local.searches.delete(userId, search);
+        outbox.enqueue({ table: 'searches', rowId: search.id, ownerId: userId, data: search, deleted: true });
+      }
+    },
+
+    notifications: {
+      async list(userId) {
+        const localNotifications = await local.notifications.list(userId);
+        const remoteNotifications = await tryRemote('Notifications', () => remote.notifications.list(userId), []);
+        return mergeById(localNotifications, remoteNotifications, 'createdAt');
+      },
+      async save(userId, notifications) {
+        await local.notifications.save(userId, notifications);
+        notifications.forEach(notification => {
+          outbox.enqueue({ table: 'notifications', rowId: notification.id, ownerId: userId, data: notification });
+        });
+      }
+    },
+
+    practiceTargets: {
+      async list(userId) {
+        const localTargets = await local.practiceTargets.list(userId);
+        const remoteTargets = await tryRemote('Practice targets', () => remote.practiceTargets.list(userId), []);
+        const deleted = outbox.pendingDeletes('practiceTargets');
+        return mergeById(localTargets, remoteTargets.filter(target => !deleted.has(target.id)), 'savedAt');
+      },
+      async save(userId, target) {
+        await local.practiceTargets.save(userId, target);
+        outbox.enqueue({ table: 'practiceTargets', rowId: target.id, ownerId: userId, data: target });
+      },
+      async delete(userId, target) {
+        await local.practiceTargets.delete(userId, target);
+        outbox.enqueue({ table: 'practiceTargets', rowId: target.id, ownerId: userId, data: target, deleted: true });
+      }
+    }
+  };
+};
+
+const localRepositories = createLocalRepositories();
+const remoteRepositories = createSupabaseRepositories();
+
+export const syncQueue = createSyncQueue(createSyncHandlers(localRepositories, remoteRepositories));
+export const repositories = createRepositories(localRepositories, remoteRepositories, syncQueue);
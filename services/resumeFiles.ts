@@ -0,0 +1,61 @@
+// Original resume files live in a private Storage bucket. Rows only carry the object path;
+// links are signed when someone actually opens the file, so they never go stale in the data.
+import { supabase } from '../lib/supabaseClient';
+import { ResumeFile } from '../types';
+
+export const RESUME_BUCKET = 'resumes';
+
+// Long enough to start a download, short enough that a copied link is useless later
+const SIGNED_URL_TTL_SECONDS = 60;
+
+/** Objects are keyed by owner so the bucket policies can check the first path segment. */
+const objectPath = (userId: string, file: File) => {
+  const extension = file.name.includes('.') ? `.${file.name.split('.').pop()!.toLowerCase()}` : '';
+  return `${userId}/${crypto.randomUUID()}${extension}`;
+};
+
+/** Uploads a resume for its owner and returns the storage path to keep on the ResumeFile. */
+export const uploadResumeFile = async (userId: string, file: File): Promise<string> => {
+  const path = objectPath(userId, file);
+  const { error } = await supabase.storage.from(RESUME_BUCKET).upload(path, file, {
+    contentType: file.type || undefined,
+    upsert: false
+  });
+  if (error) throw error;
+  return path;
+};
+
+/** Signed link for the owner or for an employer reviewing an application that includes the file. */
+export const getResumeFileUrl = async (file: Pick<ResumeFile, 'name' | 'storagePath'>): Promise<string> => {
+  if (!file.storagePath) throw new Error(`${file.name} was not uploaded to storage`);
+  const { data, error } = await supabase.storage
+    .from(RESUME_BUCKET)
+    .createSignedUrl(file.storagePath, SIGNED_URL_TTL_SECONDS, { download: file.name });
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+/** Removing an object that is already gone is not an error. */
+export const deleteResumeFile = async (storagePath: string) => {
+  const { error } = await supabase.storage.from(RESUME_BUCKET).remove([storagePath]);
+  if (error) throw error;
+};
+
+/** Whether there is an original file to download, either in storage or inline from older builds. */
+export const hasResumeFileContent = (file?: ResumeFile) => !!(file && (file.storagePath || file.data));
+
+/**
+ * Downloads the original file. Signed URLs are served as attachments, so following one starts
+ * a download without leaving the app or opening a tab a popup blocker could catch.
+ */
+export const downloadResumeFile = async (file: ResumeFile) => {
+  const link = document.createElement('a');
+  link.href = file.storagePath
+    ? await getResumeFileUrl(file)
+    // Resumes saved before uploads moved to storage still carry the file inline
+    : `data:${file.type};base64,${file.data}`;
+  link.download = file.name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
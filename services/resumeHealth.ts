@@ -0,0 +1,786 @@
+// Structural checks on uploaded resumes. analyzeResume judges what a resume says; these look at how
+// the file is built, for the things that make ATS parsers drop or scramble content: tables,
+// multi-column layouts, contact details in headers/footers, image-only pages and unreadable fonts.
+// Everything runs locally on the raw file and is best effort: an unusual file yields fewer
+// findings, never an error the user has to deal with.
+import { ResumeHealthFinding, ResumeHealthIssue } from '../types';
+import { readZipEntry, resumeTextFormat, WORD_NS } from './resumeText';
+
+const CONTACT_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+|linkedin\.com|github\.com/i;
+
+// Phone numbers; shorter digit runs are years and date ranges
+const looksLikeContact = (text: string) =>
+  CONTACT_PATTERN.test(text) || (text.match(/\+?\d[\d\s().-]{7,}\d/g) || []).some(m => m.replace(/\D/g, '').length >= 9);
+
+// Script, handwriting and symbol faces whose glyphs often don't map back to letters
+const DECORATIVE_FONT_PATTERN = /script|brush|hand|comic|papyrus|symbol|wingdings|webdings|dingbat|zapf|fontawesome|icon|emoji|chiller|jokerman|curlz|vivaldi|edwardian|lobster|pacifico/i;
+
+// --- PDF OBJECTS ---
+
+interface PdfRef { ref: number }
+interface PdfString { str: string }
+interface PdfDict { dict: Record<string, PdfValue> }
+type PdfValue = number | boolean | null | string | PdfRef | PdfString | PdfDict | PdfValue[];
+
+const isRef = (value: PdfValue | undefined): value is PdfRef => typeof value === 'object' && value !== null && 'ref' in value;
+const isDict = (value: PdfValue | undefined): value is PdfDict => typeof value === 'object' && value !== null && 'dict' in value;
+const isString = (value: PdfValue | undefined): value is PdfString => typeof value === 'object' && value !== null && 'str' in value;
+
+const WHITESPACE = /[\0\t\n\f\r ]/;
+const DELIMITER = /[\0\t\n\f\r ()<>[\]{}/%]/;
+
+/**
+ * Reads PDF syntax one token at a time. Used for both object bodies and content streams: values
+ * come back as parsed objects, operators as `{ op }`.
+ */
+const createLexer = (text: string, start = 0) => {
+  let pos = start;
+
+  const skipSpace = () => {
+    while (pos < text.length) {
+      if (WHITESPACE.test(text[pos])) pos++;
+      else if (text[pos] === '%') while (pos < text.length && text[pos] !== '\n' && text[pos] !== '\r') pos++;
+      else break;
+    }
+  };
+
+  const readWord = () => {
+    const begin = pos;
+    while (pos < text.length && !DELIMITER.test(text[pos])) pos++;
+    return text.slice(begin, pos);
+  };
+
+  const readLiteralString = () => {
+    let depth = 1;
+    let out = '';
+    pos++;
+    while (pos < text.length && depth > 0) {
+      const char = text[pos++];
+      if (char === '\\') {
+        const next = text[pos++];
+        if (/[0-7]/.test(next)) {
+          let octal = next;
+          while (octal.length < 3 && /[0-7]/.test(text[pos])) octal += text[pos++];
+          out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else if (next === 'n') out += '\n';
+        else if (next === 'r') out += '\r';
+        else if (next === 't') out += '\t';
+        else if (next === 'b') out += '\b';
+        else if (next === 'f') out += '\f';
+        else if (next === '\r') { if (text[pos] === '\n') pos++; }
+        else if (next !== '\n') out += next;
+      } else {
+        if (char === '(') depth++;
+        else if (char === ')') depth--;
+        if (depth > 0) out += char;
+      }
+    }
+    return out;
+  };
+
+  const readHexString = () => {
+    const end = text.indexOf('>', pos);
+    const hex = text.slice(pos + 1, end === -1 ? text.length : end).replace(/[^0-9a-f]/gi, '');
+    pos = end === -1 ? text.length : end + 1;
+    let out = '';
+    for (let i = 0; i < hex.length; i += 2) out += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16));
+    return out;
+  };
+
+  // Objects are parsed eagerly; `N G R` references are folded in when read as values
+  const next = (): PdfValue | { op: string } | undefined => {
+    skipSpace();
+    if (pos >= text.length) return undefined;
+    const char = text[pos];
+
+    if (char === '/') {
+      pos++;
+      return '/' + readWord().replace(/#([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    }
+    if (char === '(') return { str: readLiteralString() };
+    if (char === '<' && text[pos + 1] === '<') {
+      pos += 2;
+      const dict: Record<string, PdfValue> = {};
+      for (;;) {
+        skipSpace();
+        if (pos >= text.length) break;
+        if (text[pos] === '>' && text[pos + 1] === '>') {
+          pos += 2;
+          break;
+        }
+        const key = next();
+        const value = nextValue();
+        if (typeof key === 'string' && key.startsWith('/') && value !== undefined) dict[key.slice(1)] = value;
+      }
+      return { dict };
+    }
+    if (char === '<') return { str: readHexString() };
+    if (char === '[') {
+      pos++;
+      const items: PdfValue[] = [];
+      for (;;) {
+        skipSpace();
+        if (pos >= text.length) break;
+        if (text[pos] === ']') {
+          pos++;
+          break;
+        }
+        const value = nextValue();
+        if (value !== undefined) items.push(value);
+      }
+      return items;
+    }
+    if (char === ']' || char === '>' || char === ')' || char === '{' || char === '}') {
+      pos++;
+      return { op: char };
+    }
+
+    const word = readWord();
+    if (!word) {
+      pos++;
+      return { op: char };
+    }
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      // `N G R` is a reference; look ahead without consuming anything else
+      const save = pos;
+      const generation = /^\s+(\d+)\s+R(?=[\0\t\n\f\r ()<>[\]{}/%]|$)/.exec(text.slice(pos, pos + 24));
+      if (/^\d+$/.test(word) && generation) {
+        pos = save + generation[0].length;
+        return { ref: Number(word) };
+      }
+      return Number(word);
+    }
+    if (word === 'true') return true;
+    if (word === 'false') return false;
+    if (word === 'null') return null;
+    return { op: word };
+  };
+
+  // Operators have no place inside dicts and arrays; skip over them
+  const nextValue = (): PdfValue | undefined => {
+    const token = next();
+    return token !== undefined && typeof token === 'object' && token !== null && 'op' in token ? undefined : token as PdfValue;
+  };
+
+  return {
+    next,
+    get position() { return pos; },
+    set position(value: number) { pos = value; }
+  };
+};
+
+interface PdfObject {
+  value: PdfValue;
+  /** Raw (still encoded) stream bytes. */
+  stream?: Uint8Array;
+}
+
+const bytesToLatin1 = (bytes: Uint8Array) => {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) out += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return out;
+};
+
+const inflate = async (data: Uint8Array) => {
+  const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const OBJECT_PATTERN = /(\d+)\s+(\d+)\s+obj\b/g;
+
+/** Every indirect object in the file, including those packed in object streams. */
+const readPdfObjects = async (bytes: Uint8Array) => {
+  const raw = bytesToLatin1(bytes);
+  const objects = new Map<number, PdfObject>();
+
+  for (const match of raw.matchAll(OBJECT_PATTERN)) {
+    const lexer = createLexer(raw, match.index! + match[0].length);
+    const value = lexer.next();
+    if (value === undefined || (typeof value === 'object' && value !== null && 'op' in value)) continue;
+
+    const object: PdfObject = { value };
+    const afterValue = /^\s*stream\r?\n/.exec(raw.slice(lexer.position, lexer.position + 16));
+    if (afterValue && isDict(value)) {
+      const dataStart = lexer.position + afterValue[0].length;
+      // Trust a direct /Length when `endstream` follows it; otherwise search for the keyword
+      const length = typeof value.dict.Length === 'number' ? value.dict.Length : -1;
+      const end = length >= 0 && /^\s*endstream/.test(raw.slice(dataStart + length, dataStart + length + 16))
+        ? dataStart + length
+        : raw.indexOf('endstream', dataStart);
+      object.stream = bytes.subarray(dataStart, end === -1 ? bytes.length : end);
+    }
+    // Later definitions come from incremental updates and replace earlier ones
+    objects.set(Number(match[1]), object);
+  }
+
+  for (const object of [...objects.values()]) {
+    if (!isDict(object.value) || object.value.dict.Type !== '/ObjStm') continue;
+    const data = await decodeStream(object);
+    if (!data) continue;
+    const first = Number(object.value.dict.First) || 0;
+    const header = createLexer(data);
+    const entries: [number, number][] = [];
+    for (let i = 0; i < (Number(object.value.dict.N) || 0); i++) {
+      const number = header.next();
+      const offset = header.next();
+      if (typeof number !== 'number' || typeof offset !== 'number') break;
+      entries.push([number, offset]);
+    }
+    entries.forEach(([number, offset]) => {
+      if (objects.has(number)) return;
+      const value = createLexer(data, first + offset).next();
+      if (value !== undefined && !(typeof value === 'object' && value !== null && 'op' in value)) objects.set(number, { value });
+    });
+  }
+
+  return { objects, raw };
+};
+
+/** The stream's contents as a latin1 string, or null for filters other than Flate. */
+const decodeStream = async (object: PdfObject): Promise<string | null> => {
+  if (!object.stream || !isDict(object.value)) return null;
+  const filter = object.value.dict.Filter;
+  const filters = Array.isArray(filter) ? filter : filter ? [filter] : [];
+  if (filters.length === 0) return bytesToLatin1(object.stream);
+  if (filters.length > 1 || filters[0] !== '/FlateDecode') return null;
+  try {
+    return bytesToLatin1(await inflate(object.stream));
+  } catch {
+    return null;
+  }
+};
+
+// --- PDF PAGES ---
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[1] * n[2],
+  m[0] * n[1] + m[1] * n[3],
+  m[2] * n[0] + m[3] * n[2],
+  m[2] * n[1] + m[3] * n[3],
+  m[4] * n[0] + m[5] * n[2] + n[4],
+  m[4] * n[1] + m[5] * n[3] + n[5]
+];
+
+const transform = (m: Matrix, x: number, y: number) => ({ x: x * m[0] + y * m[2] + m[4], y: x * m[1] + y * m[3] + m[5] });
+
+interface FontInfo {
+  name: string;
+  subtype: string;
+  /** Character code -> text, from the font's ToUnicode map. */
+  toUnicode?: Map<string, string>;
+  /** Bytes per character code. */
+  codeLength: number;
+}
+
+interface TextRun {
+  x: number;
+  y: number;
+  width: number;
+  text: string;
+  /** Drawn as a page header/footer artifact in a tagged PDF. */
+  pagination?: 'header' | 'footer';
+  invisible: boolean;
+}
+
+interface PageScan {
+  width: number;
+  height: number;
+  runs: TextRun[];
+  images: number;
+  horizontalRules: Set<number>;
+  verticalRules: Set<number>;
+  fonts: Set<FontInfo>;
+}
+
+const parseToUnicode = (cmap: string) => {
+  const map = new Map<string, string>();
+  const utf16 = (hex: string) => {
+    let out = '';
+    for (let i = 0; i + 4 <= hex.length; i += 4) out += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+    return out;
+  };
+  const codeKey = (hex: string) => hex.toLowerCase();
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, src, dst] of block[1].matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]*)>/gi)) map.set(codeKey(src), utf16(dst));
+  }
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, lo, hi, rest] of block[1].matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]+)>\s*(<[0-9a-f]*>|\[[^\]]*\])/gi)) {
+      const start = parseInt(lo, 16);
+      const end = Math.min(parseInt(hi, 16), start + 0xffff);
+      const targets = rest.startsWith('[') ? [...rest.matchAll(/<([0-9a-f]*)>/gi)].map(m => m[1]) : null;
+      for (let code = start; code <= end; code++) {
+        const key = code.toString(16).padStart(lo.length, '0');
+        if (targets) {
+          if (targets[code - start] !== undefined) map.set(key, utf16(targets[code - start]));
+        } else {
+          // The last byte of the destination increments across the range
+          const base = rest.slice(1, -1);
+          const last = parseInt(base.slice(-4) || '0', 16) + (code - start);
+          map.set(key, utf16(base.slice(0, -4)) + String.fromCharCode(last));
+        }
+      }
+    }
+  }
+  return map;
+};
+
+const decodeText = (bytes: string, font: FontInfo | undefined) => {
+  if (!font) return bytes;
+  let out = '';
+  for (let i = 0; i < bytes.length; i += font.codeLength) {
+    const code = bytes.slice(i, i + font.codeLength);
+    const key = [...code].map(c => c.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+    const mapped = font.toUnicode?.get(key);
+    if (mapped !== undefined) out += mapped;
+    // Composite fonts have no built-in encoding; without ToUnicode the text can't be recovered
+    else out += font.subtype === '/Type0' ? '�' : code;
+  }
+  return out;
+};
+
+const createPdfReader = async (bytes: Uint8Array) => {
+  const { objects, raw } = await readPdfObjects(bytes);
+  const resolve = (value: PdfValue | undefined, depth = 0): PdfValue | undefined =>
+    isRef(value) && depth < 16 ? resolve(objects.get(value.ref)?.value, depth + 1) : value;
+  const dictOf = (value: PdfValue | undefined) => {
+    const resolved = resolve(value);
+    return isDict(resolved) ? resolved.dict : undefined;
+  };
+
+  const fontCache = new Map<PdfValue, FontInfo>();
+  const loadFont = async (value: PdfValue): Promise<FontInfo | undefined> => {
+    const key = isRef(value) ? value.ref : value;
+    if (fontCache.has(key)) return fontCache.get(key);
+    const dict = dictOf(value);
+    if (!dict) return undefined;
+
+    const descendant = dictOf(Array.isArray(resolve(dict.DescendantFonts)) ? (resolve(dict.DescendantFonts) as PdfValue[])[0] : undefined);
+    const baseFont = String(dict.BaseFont || descendant?.BaseFont || '/Unknown').slice(1);
+    const info: FontInfo = {
+      // Embedded subsets are prefixed with six capitals and a plus sign, e.g. ABCDEF+Garamond
+      name: baseFont.replace(/^[A-Z]{6}\+/, ''),
+      subtype: String(dict.Subtype || ''),
+      codeLength: dict.Subtype === '/Type0' ? 2 : 1
+    };
+    const toUnicode = isRef(dict.ToUnicode) ? objects.get(dict.ToUnicode.ref) : undefined;
+    const cmap = toUnicode ? await decodeStream(toUnicode) : null;
+    if (cmap) info.toUnicode = parseToUnicode(cmap);
+    fontCache.set(key, info);
+    return info;
+  };
+
+  /** Walks the page tree in reading order, carrying inherited attributes down. */
+  const listPages = () => {
+    const pages: { dict: Record<string, PdfValue>; mediaBox?: PdfValue; resources?: PdfValue }[] = [];
+    const walk = (value: PdfValue | undefined, inherited: { mediaBox?: PdfValue; resources?: PdfValue }, seen: Set<PdfValue>) => {
+      const dict = dictOf(value);
+      if (!dict || seen.has(isRef(value) ? value.ref : value!)) return;
+      seen.add(isRef(value) ? value.ref : value!);
+      const own = { mediaBox: dict.MediaBox ?? inherited.mediaBox, resources: dict.Resources ?? inherited.resources };
+      if (dict.Type === '/Pages' || Array.isArray(resolve(dict.Kids))) {
+        ((resolve(dict.Kids) as PdfValue[]) || []).forEach(kid => walk(kid, own, seen));
+      } else {
+        pages.push({ dict, ...own });
+      }
+    };
+
+    const rootRefs = [...raw.matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g)];
+    const root = rootRefs.length > 0 ? dictOf({ ref: Number(rootRefs[rootRefs.length - 1][1]) }) : undefined;
+    if (root) walk(root.Pages, {}, new Set());
+    if (pages.length > 0) return pages;
+
+    // No usable catalog: fall back to object order
+    return [...objects.values()]
+      .filter(o => isDict(o.value) && o.value.dict.Type === '/Page')
+      .map(o => ({ dict: (o.value as PdfDict).dict, mediaBox: (o.value as PdfDict).dict.MediaBox, resources: (o.value as PdfDict).dict.Resources }));
+  };
+
+  const contentsOf = async (value: PdfValue | undefined) => {
+    const resolved = resolve(value);
+    const refs = Array.isArray(resolved) ? resolved : [value];
+    const parts = await Promise.all(refs.map(ref => isRef(ref) && objects.has(ref.ref) ? decodeStream(objects.get(ref.ref)!) : Promise.resolve(null)));
+    return parts.filter((p): p is string => p !== null).join('\n');
+  };
+
+  const scanPage = async (page: ReturnType<typeof listPages>[number]): Promise<PageScan> => {
+    const box = resolve(page.mediaBox);
+    const [x0, y0, x1, y1] = Array.isArray(box) && box.length === 4 ? box.map(v => Number(resolve(v)) || 0) : [0, 0, 612, 792];
+    const scan: PageScan = {
+      width: Math.abs(x1 - x0) || 612,
+      height: Math.abs(y1 - y0) || 792,
+      runs: [],
+      images: 0,
+      horizontalRules: new Set(),
+      verticalRules: new Set(),
+      fonts: new Set()
+    };
+    await scanContent(await contentsOf(page.dict.Contents), page.resources, IDENTITY, scan, { x: x0, y: y0 }, 0);
+    return scan;
+  };
+
+  const scanContent = async (content: string, resourcesValue: PdfValue | undefined, baseCtm: Matrix, scan: PageScan, origin: { x: number; y: number }, depth: number) => {
+    const resources = dictOf(resourcesValue) || {};
+    const fonts = dictOf(resources.Font) || {};
+    const xObjects = dictOf(resources.XObject) || {};
+    const lexer = createLexer(content);
+
+    let ctm = baseCtm;
+    const stack: Matrix[] = [];
+    let textMatrix: Matrix = IDENTITY;
+    let lineMatrix: Matrix = IDENTITY;
+    let font: FontInfo | undefined;
+    let fontSize = 0;
+    let leading = 0;
+    let renderMode = 0;
+    const marked: (('header' | 'footer') | null)[] = [];
+    let path: { x: number; y: number; w: number; h: number; line?: boolean }[] = [];
+    let current = { x: 0, y: 0 };
+    let operands: PdfValue[] = [];
+
+    const num = (i: number) => Number(operands[i]) || 0;
+
+    const show = (bytes: string, adjustments = 0) => {
+      const text = decodeText(bytes, font);
+      const m = multiply(textMatrix, ctm);
+      const start = transform(m, 0, 0);
+      const scale = Math.hypot(m[0], m[1]);
+      // No width tables here: half an em per character is close enough for layout checks
+      const advance = (text.length * fontSize * 0.5) - (adjustments / 1000) * fontSize;
+      scan.runs.push({
+        x: start.x - origin.x,
+        y: start.y - origin.y,
+        width: Math.max(0, advance * scale),
+        text,
+        pagination: marked.find(area => area !== null) || undefined,
+        invisible: renderMode === 3 || renderMode === 7
+      });
+      if (font) scan.fonts.add(font);
+      textMatrix = multiply([1, 0, 0, 1, advance, 0], textMatrix);
+    };
+
+    const nextLine = () => {
+      lineMatrix = multiply([1, 0, 0, 1, 0, -leading], lineMatrix);
+      textMatrix = lineMatrix;
+    };
+
+    // Rules are recorded by position, so a table's grid counts each line once
+    const commitPath = (stroked: boolean) => {
+      path.forEach(segment => {
+        const a = transform(ctm, segment.x, segment.y);
+        const b = transform(ctm, segment.x + segment.w, segment.y + segment.h);
+        const w = Math.abs(b.x - a.x);
+        const h = Math.abs(b.y - a.y);
+        const edges = segment.line || w < 2 || h < 2
+          ? [{ w, h, x: Math.min(a.x, b.x), y: Math.min(a.y, b.y) }]
+          : stroked
+            ? [{ w, h: 0, x: Math.min(a.x, b.x), y: a.y }, { w, h: 0, x: Math.min(a.x, b.x), y: b.y }, { w: 0, h, x: a.x, y: Math.min(a.y, b.y) }, { w: 0, h, x: b.x, y: Math.min(a.y, b.y) }]
+            : [];
+        edges.forEach(edge => {
+          if (edge.h < 2 && edge.w > 20) scan.horizontalRules.add(Math.round((edge.y - origin.y) / 2));
+          else if (edge.w < 2 && edge.h > 10) scan.verticalRules.add(Math.round((edge.x - origin.x) / 2));
+        });
+      });
+      path = [];
+    };
+
+    for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+      if (!(typeof token === 'object' && token !== null && 'op' in token)) {
+        operands.push(token);
+        continue;
+      }
+      const op = token.op;
+      switch (op) {
+        case 'q': stack.push(ctm); break;
+        case 'Q': ctm = stack.pop() || baseCtm; break;
+        case 'cm': ctm = multiply([num(0), num(1), num(2), num(3), num(4), num(5)], ctm); break;
+        case 'BT': textMatrix = lineMatrix = IDENTITY; break;
+        case 'Tf': {
+          const fontRef = fonts[String(operands[0]).slice(1)];
+          font = fontRef !== undefined ? await loadFont(fontRef) : undefined;
+          fontSize = num(1);
+          break;
+        }
+        case 'TL': leading = num(0); break;
+        case 'Tr': renderMode = num(0); break;
+        case 'Tm': textMatrix = lineMatrix = [num(0), num(1), num(2), num(3), num(4), num(5)]; break;
+        case 'Td': textMatrix = lineMatrix = multiply([1, 0, 0, 1, num(0), num(1)], lineMatrix); break;
+        case 'TD': leading = -num(1); textMatrix = lineMatrix = multiply([1, 0, 0, 1, num(0), num(1)], lineMatrix); break;
+        case 'T*': nextLine(); break;
+        case 'Tj': if (isString(operands[0])) show(operands[0].str); break;
+        case "'": nextLine(); if (isString(operands[0])) show(operands[0].str); break;
+        case '"': nextLine(); if (isString(operands[2])) show(operands[2].str); break;
+        case 'TJ': {
+          const items = Array.isArray(operands[0]) ? operands[0] : [];
+          const text = items.filter(isString).map(s => s.str).join('');
+          const adjustments = items.filter((i): i is number => typeof i === 'number').reduce((sum, n) => sum + n, 0);
+          show(text, adjustments);
+          break;
+        }
+        case 'BMC': marked.push(null); break;
+        case 'BDC': {
+          const props = isDict(operands[1]) ? operands[1].dict : dictOf((dictOf(resources.Properties) || {})[String(operands[1]).slice(1)]);
+          const isPagination = operands[0] === '/Artifact' && props?.Type === '/Pagination';
+          marked.push(isPagination && (props?.Subtype === '/Header' || props?.Subtype === '/Footer')
+            ? (props.Subtype === '/Header' ? 'header' : 'footer')
+            : null);
+          break;
+        }
+        case 'EMC': marked.pop(); break;
+        case 're': path.push({ x: num(0), y: num(1), w: num(2), h: num(3) }); break;
+        case 'm': current = { x: num(0), y: num(1) }; break;
+        case 'l': path.push({ x: current.x, y: current.y, w: num(0) - current.x, h: num(1) - current.y, line: true }); current = { x: num(0), y: num(1) }; break;
+        case 'S': case 's': case 'B': case 'B*': case 'b': case 'b*': commitPath(true); break;
+        case 'f': case 'F': case 'f*': commitPath(false); break;
+        // Clipping paths are ended with `n` and never painted
+        case 'n': path = []; break;
+        case 'Do': {
+          const xObjectRef = xObjects[String(operands[0]).slice(1)];
+          const xObject = isRef(xObjectRef) ? objects.get(xObjectRef.ref) : undefined;
+          const dict = xObject && isDict(xObject.value) ? xObject.value.dict : undefined;
+          if (dict?.Subtype === '/Image') scan.images++;
+          else if (dict?.Subtype === '/Form' && depth < 4) {
+            const matrix = Array.isArray(dict.Matrix) && dict.Matrix.length === 6 ? dict.Matrix.map(Number) as Matrix : IDENTITY;
+            const form = await decodeStream(xObject!);
+            if (form) await scanContent(form, dict.Resources ?? resourcesValue, multiply(matrix, ctm), scan, origin, depth + 1);
+          }
+          break;
+        }
+        case 'ID': {
+          // Inline image data is binary; skip to its end marker
+          const end = content.slice(lexer.position).search(/\sEI(?=[\s]|$)/);
+          lexer.position = end === -1 ? content.length : lexer.position + end + 3;
+          scan.images++;
+          break;
+        }
+      }
+      operands = [];
+    }
+  };
+
+  return { listPages, scanPage };
+};
+
+// --- PDF CHECKS ---
+
+const visibleText = (runs: TextRun[]) => runs.filter(r => !r.invisible).map(r => r.text).join('').replace(/\s|�/g, '');
+
+/**
+ * Looks for a vertical gutter in the middle half of the page that no text crosses, with enough
+ * text on both sides to be columns rather than, say, right-aligned dates.
+ */
+const hasColumns = (scan: PageScan) => {
+  const runs = scan.runs.filter(r => !r.invisible && r.text.trim().length > 0 && !r.pagination);
+  const lines = (side: TextRun[]) => new Set(side.map(r => Math.round(r.y / 3)));
+  const chars = (side: TextRun[]) => side.reduce((sum, r) => sum + r.text.trim().length, 0);
+  if (lines(runs).size < 10) return false;
+
+  for (let x = scan.width * 0.25; x <= scan.width * 0.75; x += 4) {
+    const gutterEnd = x + 12;
+    const crossing = runs.filter(r => r.x < gutterEnd && r.x + r.width > x);
+    if (crossing.length > Math.max(1, runs.length * 0.1)) continue;
+    const left = runs.filter(r => r.x + r.width <= x);
+    const right = runs.filter(r => r.x >= gutterEnd);
+    if (lines(left).size >= 6 && lines(right).size >= 6 && chars(left) >= 150 && chars(right) >= 150) return true;
+  }
+  return false;
+};
+
+const inMargin = (run: TextRun, scan: PageScan) => run.y > scan.height * 0.88 || run.y < scan.height * 0.12;
+
+const checkPdf = async (bytes: Uint8Array): Promise<ResumeHealthFinding[]> => {
+  const reader = await createPdfReader(bytes);
+  const pages = reader.listPages();
+  const scans: PageScan[] = [];
+  for (const page of pages) scans.push(await reader.scanPage(page));
+
+  const findings: ResumeHealthFinding[] = [];
+  const pagesWhere = (test: (scan: PageScan) => boolean) => scans.flatMap((scan, i) => test(scan) ? [i + 1] : []);
+
+  const imageOnly = pagesWhere(scan => scan.images > 0 && visibleText(scan.runs).length < 20 && !scan.runs.some(r => r.invisible));
+  if (imageOnly.length > 0) findings.push({ issue: 'image-only', severity: 'high', pages: imageOnly });
+
+  // A scan with an OCR text layer is readable, but only as well as the OCR was
+  const ocrOnly = pagesWhere(scan => scan.images > 0 && visibleText(scan.runs).length < 20 && scan.runs.some(r => r.invisible && r.text.trim()));
+  if (ocrOnly.length > 0) findings.push({ issue: 'image-only', severity: 'medium', pages: ocrOnly, detail: 'scanned with a hidden text layer' });
+
+  const tables = pagesWhere(scan => scan.verticalRules.size >= 3 && scan.horizontalRules.size >= 3);
+  if (tables.length > 0) findings.push({ issue: 'table', severity: 'medium', pages: tables });
+
+  const columns = pagesWhere(hasColumns);
+  if (columns.length > 0) findings.push({ issue: 'columns', severity: 'medium', pages: columns });
+
+  // Tagged PDFs mark headers and footers; otherwise contact details repeated in the same margin
+  // on every page came from one
+  const contactRuns = scans.map(scan => scan.runs.filter(r => looksLikeContact(r.text)));
+  const tagged = pagesWhere(scan => scan.runs.some(r => r.pagination && looksLikeContact(r.text)));
+  const repeated = scans.length > 1 && contactRuns.every((runs, i) => runs.some(r => inMargin(r, scans[i]) &&
+    contactRuns.every(other => other.some(o => o.text.trim() === r.text.trim() && Math.abs(o.y - r.y) < 2))))
+    ? scans.map((_, i) => i + 1)
+    : [];
+  const headerPages = tagged.length > 0 ? tagged : repeated;
+  if (headerPages.length > 0) {
+    const areas = new Set(scans.flatMap((scan, i) => contactRuns[i]
+      .filter(r => tagged.length > 0 ? r.pagination : inMargin(r, scan))
+      .map(r => r.pagination || (r.y > scan.height / 2 ? 'header' : 'footer'))));
+    findings.push({ issue: 'header-footer', severity: 'high', pages: headerPages, detail: [...areas].join(' and ') });
+  }
+
+  const fontPages = new Map<FontInfo, number[]>();
+  scans.forEach((scan, i) => scan.fonts.forEach(font => fontPages.set(font, [...(fontPages.get(font) || []), i + 1])));
+  const unreadable = [...fontPages.keys()].filter(f => f.subtype === '/Type3' || (f.subtype === '/Type0' && !f.toUnicode));
+  const decorative = [...fontPages.keys()].filter(f => !unreadable.includes(f) && DECORATIVE_FONT_PATTERN.test(f.name));
+  const pagesOf = (fonts: FontInfo[]) => [...new Set(fonts.flatMap(f => fontPages.get(f) || []))].sort((a, b) => a - b);
+  const names = (fonts: FontInfo[]) => [...new Set(fonts.map(f => f.name))].join(', ');
+  if (unreadable.length > 0) findings.push({ issue: 'font', severity: 'high', pages: pagesOf(unreadable), detail: names(unreadable) });
+  if (decorative.length > 0) findings.push({ issue: 'font', severity: 'medium', pages: pagesOf(decorative), detail: names(decorative) });
+
+  return findings;
+};
+
+// --- DOCX CHECKS ---
+
+const MC_NS = 'http://schemas.openxmlformats.org/markup-compatibility/2006';
+
+const parseXml = (bytes: Uint8Array | null) => {
+  if (!bytes) return null;
+  const doc = new DOMParser().parseFromString(new TextDecoder().decode(bytes), 'application/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+};
+
+const hasAncestor = (element: Element, namespace: string, localName: string) => {
+  for (let node = element.parentElement; node; node = node.parentElement) {
+    if (node.namespaceURI === namespace && node.localName === localName) return true;
+  }
+  return false;
+};
+
+const checkDocx = async (buffer: ArrayBuffer): Promise<ResumeHealthFinding[]> => {
+  const doc = parseXml(await readZipEntry(buffer, 'word/document.xml'));
+  if (!doc) return [];
+  const findings: ResumeHealthFinding[] = [];
+
+  // Word records where it last broke pages, so document order gives approximate page numbers
+  const tablePages = new Set<number>();
+  const columnPages = new Set<number>();
+  const textBoxPages = new Set<number>();
+  const fontPages = new Map<string, Set<number>>();
+  let page = 1;
+  let sectionStart = 1;
+  let bodyText = 0;
+  let drawings = 0;
+
+  Array.from(doc.getElementsByTagNameNS(WORD_NS, '*')).forEach(element => {
+    // Word writes text boxes twice, once as a fallback for old readers
+    if (hasAncestor(element, MC_NS, 'Fallback')) return;
+    switch (element.localName) {
+      case 'lastRenderedPageBreak':
+        page++;
+        break;
+      case 'br':
+        if (element.getAttributeNS(WORD_NS, 'type') === 'page') page++;
+        break;
+      case 'tbl':
+        if (!hasAncestor(element, WORD_NS, 'tbl')) tablePages.add(page);
+        break;
+      case 'txbxContent':
+        textBoxPages.add(page);
+        break;
+      case 'drawing':
+      case 'pict':
+        drawings++;
+        break;
+      case 't':
+        if (!hasAncestor(element, WORD_NS, 'txbxContent')) bodyText += (element.textContent || '').trim().length;
+        break;
+      case 'rFonts': {
+        const name = element.getAttributeNS(WORD_NS, 'ascii') || element.getAttributeNS(WORD_NS, 'hAnsi');
+        if (name) fontPages.set(name, new Set([...(fontPages.get(name) || []), page]));
+        break;
+      }
+      case 'sectPr': {
+        // Section properties close the section they describe
+        const cols = element.getElementsByTagNameNS(WORD_NS, 'cols')[0];
+        if (cols && Number(cols.getAttributeNS(WORD_NS, 'num')) > 1) {
+          for (let p = sectionStart; p <= page; p++) columnPages.add(p);
+        }
+        sectionStart = page;
+        break;
+      }
+    }
+  });
+
+  const sorted = (pages: Set<number>) => [...pages].sort((a, b) => a - b);
+
+  if (bodyText < 50 && drawings > 0) findings.push({ issue: 'image-only', severity: 'high', pages: [] });
+  if (textBoxPages.size > 0) findings.push({ issue: 'text-box', severity: 'high', pages: sorted(textBoxPages) });
+  if (tablePages.size > 0) findings.push({ issue: 'table', severity: 'medium', pages: sorted(tablePages) });
+  if (columnPages.size > 0) findings.push({ issue: 'columns', severity: 'medium', pages: sorted(columnPages) });
+
+  const areas: string[] = [];
+  for (const area of ['header', 'footer'] as const) {
+    for (let i = 1; i <= 6; i++) {
+      const part = parseXml(await readZipEntry(buffer, `word/${area}${i}.xml`));
+      if (part && looksLikeContact(Array.from(part.getElementsByTagNameNS(WORD_NS, 't')).map(t => t.textContent).join(' '))) {
+        areas.push(area);
+        break;
+      }
+    }
+  }
+  if (areas.length > 0) findings.push({ issue: 'header-footer', severity: 'high', pages: [], detail: areas.join(' and ') });
+
+  // Fonts set in styles apply everywhere; fonts set on runs only where they're used
+  const styles = parseXml(await readZipEntry(buffer, 'word/styles.xml'));
+  const styleFonts = styles
+    ? Array.from(styles.getElementsByTagNameNS(WORD_NS, 'rFonts')).map(f => f.getAttributeNS(WORD_NS, 'ascii') || f.getAttributeNS(WORD_NS, 'hAnsi') || '')
+    : [];
+  const decorative = [...new Set([...styleFonts, ...fontPages.keys()])].filter(name => name && DECORATIVE_FONT_PATTERN.test(name));
+  if (decorative.length > 0) {
+    const pages = decorative.some(name => styleFonts.includes(name)) ? [] : sorted(new Set(decorative.flatMap(name => [...(fontPages.get(name) || [])])));
+    findings.push({ issue: 'font', severity: 'medium', pages, detail: decorative.join(', ') });
+  }
+
+  return findings;
+};
+
+// --- ENTRY POINTS ---
+
+/** Structural problems in an uploaded resume. Text-only formats have no layout to check. */
+export const checkResumeHealth = async (file: File): Promise<ResumeHealthFinding[]> => {
+  if (file.type.startsWith('image/')) return [{ issue: 'image-only', severity: 'high', pages: [] }];
+
+  const format = resumeTextFormat(file);
+  if (format === 'docx') return checkDocx(await file.arrayBuffer());
+  if (format || !/pdf$/i.test(file.type || file.name)) return [];
+  return checkPdf(new Uint8Array(await file.arrayBuffer()));
+};
+
+const formatPages = (pages: number[]) => {
+  if (pages.length === 0) return '';
+  if (pages.length === 1) return `page ${pages[0]}`;
+  const consecutive = pages.every((p, i) => i === 0 || p === pages[i - 1] + 1);
+  return consecutive ? `pages ${pages[0]}-${pages[pages.length - 1]}` : `pages ${pages.join(', ')}`;
+};
+
+const FINDING_TEXT: Record<ResumeHealthIssue, (finding: ResumeHealthFinding) => string> = {
+  'image-only': f => f.detail
+    ? `The resume is ${f.detail}, so ATS parsers read whatever the OCR guessed. Export it from the original document instead`
+    : 'The resume is an image with no selectable text, so ATS parsers can\'t read it. Export it as a text PDF or Word file',
+  'text-box': () => 'Text boxes hold part of the content; many ATS parsers skip them. Move that text into the body',
+  table: () => 'Content is laid out in a table; ATS parsers often read tables cell by cell or drop them',
+  columns: () => 'Multi-column layout; ATS parsers read straight across and mix the columns together. Use a single column',
+  'header-footer': f => `Contact details are in the page ${f.detail || 'header'}, which many ATS parsers ignore. Put them at the top of the body`,
+  font: f => f.severity === 'high'
+    ? `Text set in ${f.detail} can't be turned back into characters, so ATS parsers see garbled or missing text`
+    : `Decorative or symbol fonts (${f.detail}) may not map back to letters in ATS parsers`
+};
+
+/** A finding as one line of text, with where it was found. */
+export const describeHealthFinding = (finding: ResumeHealthFinding) => {
+  const where = formatPages(finding.pages);
+  return `${FINDING_TEXT[finding.issue](finding)}${where ? ` (${where})` : ''}.`;
+};
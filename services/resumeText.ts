@@ -0,0 +1,238 @@
+// Local text extraction for resume formats the model can't read directly. PDFs and images are
+// still sent as-is; Word, RTF, Markdown and plain text are turned into clean text first so the
+// analyzer sees the same thing we show the user.
+
+export type ResumeTextFormat = 'docx' | 'rtf' | 'md' | 'txt';
+
+export class ResumeExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResumeExtractionError';
+  }
+}
+
+const FORMATS_BY_EXTENSION: Record<string, ResumeTextFormat> = {
+  docx: 'docx',
+  rtf: 'rtf',
+  md: 'md',
+  markdown: 'md',
+  txt: 'txt'
+};
+
+const FORMATS_BY_MIME: Record<string, ResumeTextFormat> = {
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/rtf': 'rtf',
+  'text/rtf': 'rtf',
+  'text/markdown': 'md',
+  'text/plain': 'txt'
+};
+
+/** For the file input's `accept` attribute. */
+export const RESUME_FILE_ACCEPT = '.pdf,.png,.jpg,.jpeg,.docx,.rtf,.md,.txt';
+
+/** Returns the text format for files we extract locally, or null for PDFs and images. */
+export const resumeTextFormat = (file: Pick<File, 'name' | 'type'>): ResumeTextFormat | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return FORMATS_BY_EXTENSION[extension] || FORMATS_BY_MIME[file.type] || null;
+};
+
+// --- ZIP (just enough to read one entry of a .docx) ---
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+const inflateRaw = async (data: Uint8Array) => {
+  const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** Reads one entry of a zip archive, or null when there is no entry with that name. */
+export const readZipEntry = async (buffer: ArrayBuffer, name: string): Promise<Uint8Array | null> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new ResumeExtractionError("This file isn't a valid Word document.");
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const entryName = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (entryName === name) {
+      if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) break;
+      // Local headers have their own name/extra lengths, which can differ from the central ones
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflateRaw(data);
+      throw new ResumeExtractionError("This Word document uses an unsupported compression method.");
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+};
+
+// --- Formats ---
+
+export const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const extractDocx = async (buffer: ArrayBuffer) => {
+  const documentXml = await readZipEntry(buffer, 'word/document.xml');
+  if (!documentXml) throw new ResumeExtractionError("This file isn't a valid Word document.");
+
+  const doc = new DOMParser().parseFromString(new TextDecoder().decode(documentXml), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new ResumeExtractionError("This Word document appears to be damaged.");
+  }
+
+  const paragraphs = Array.from(doc.getElementsByTagNameNS(WORD_NS, 'p'));
+  return paragraphs.map(paragraph => {
+    let text = '';
+    paragraph.querySelectorAll('*').forEach(node => {
+      if (node.namespaceURI !== WORD_NS) return;
+      if (node.localName === 't') text += node.textContent || '';
+      else if (node.localName === 'tab') text += '\t';
+      else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+    });
+    // Numbered and bulleted paragraphs carry numbering properties
+    const isListItem = paragraph.getElementsByTagNameNS(WORD_NS, 'numPr').length > 0;
+    return isListItem && text.trim() ? `- ${text}` : text;
+  }).join('\n');
+};
+
+// Groups whose content is metadata rather than document text
+const RTF_SKIPPED_DESTINATIONS = new Set(['fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'header', 'footer', 'listtable', 'listoverridetable', 'themedata', 'datastore', 'xmlnstbl']);
+
+// \'hh escapes are bytes in the document's code page, which is almost always Windows-1252. It only
+// differs from Latin-1 in 0x80-0x9F (smart quotes, dashes, bullets...).
+const CP1252_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+const decodeCp1252 = (byte: number) =>
+  byte >= 0x80 && byte <= 0x9f ? CP1252_HIGH[byte - 0x80] : String.fromCharCode(byte);
+
+const extractRtf = (rtf: string) => {
+  let out = '';
+  // One entry per open group: whether its text is skipped, and how many fallback chars follow \u
+  const stack: { skip: boolean; unicodeSkip: number }[] = [];
+  let skip = false;
+  let unicodeSkip = 1;
+  let pendingSkip = 0;
+
+  const emit = (text: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (!skip) out += text;
+  };
+
+  for (let i = 0; i < rtf.length; i++) {
+    const char = rtf[i];
+    if (char === '{') {
+      stack.push({ skip, unicodeSkip });
+    } else if (char === '}') {
+      ({ skip, unicodeSkip } = stack.pop() || { skip: false, unicodeSkip: 1 });
+    } else if (char === '\\') {
+      const next = rtf[i + 1];
+      if (next === '\\' || next === '{' || next === '}') {
+        emit(next);
+        i++;
+      } else if (next === "'") {
+        emit(decodeCp1252(parseInt(rtf.slice(i + 2, i + 4), 16)));
+        i += 3;
+      } else if (next === '*') {
+        skip = true;
+        i++;
+      } else {
+        const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1));
+        if (!match) {
+          i++;
+          continue;
+        }
+        const [token, word, param] = match;
+        i += token.length;
+        pendingSkip = 0;
+        if (RTF_SKIPPED_DESTINATIONS.has(word)) skip = true;
+        else if (word === 'par' || word === 'line') emit('\n');
+        else if (word === 'tab') emit('\t');
+        else if (word === 'uc') unicodeSkip = Number(param || 1);
+        else if (word === 'u') {
+          const code = Number(param);
+          emit(String.fromCharCode(code < 0 ? code + 0x10000 : code));
+          pendingSkip = unicodeSkip;
+        }
+      }
+    } else if (char !== '\r' && char !== '\n') {
+      emit(char);
+    }
+  }
+  return out;
+};
+
+const extractMarkdown = (markdown: string) =>
+  markdown
+    .replace(/^```.*$/gm, '')
+    .replace(/^\s*([-*_])(\s*\1){2,}\s*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/^\s*[*+]\s+/gm, '- ')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/\*(.+?)\*/g, '$1')
+    // Underscores only count as emphasis at word edges, so snake_case and emails survive
+    .replace(/(^|\W)__?(\S.*?)__?(?=\W|$)/gm, '$1$2')
+    .replace(/`([^`]+)`/g, '$1');
+
+const normalizeText = (text: string) =>
+  text
+    .replace(/\u00a0/g, ' ')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/** Extracts readable text from a .docx, .rtf, .md or .txt resume. */
+export const extractResumeText = async (file: File): Promise<string> => {
+  const format = resumeTextFormat(file);
+  if (!format) throw new ResumeExtractionError(`${file.name} is not a text document.`);
+
+  let text: string;
+  switch (format) {
+    case 'docx':
+      text = await extractDocx(await file.arrayBuffer());
+      break;
+    case 'rtf':
+      text = extractRtf(await file.text());
+      break;
+    case 'md':
+      text = extractMarkdown(await file.text());
+      break;
+    default:
+      text = await file.text();
+  }
+
+  const clean = normalizeText(text);
+  if (!clean) throw new ResumeExtractionError(`We couldn't find any text in ${file.name}.`);
+  return clean;
+};
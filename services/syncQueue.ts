@@ -0,0 +1,306 @@
+import { readJson, writeJson } from '../lib/storage';
+
+// Each user has their own outbox so queued writes never replay under someone else's session.
+// The unscoped key holds writes made while nobody is signed in, and older builds' outbox.
+const OUTBOX_KEY = 'carrerx_sync_outbox';
+const userOutboxKey = (userId: string) => `${OUTBOX_KEY}_${userId}`;
+
+const BASE_RETRY_MS = 2_000;
+const MAX_RETRY_MS = 5 * 60_000;
+// After this many failed attempts the UI reports the outbox as failing (transient failures keep
+// retrying; rejections are dropped, see isPermanentError)
+const FAILING_AFTER_ATTEMPTS = 3;
+
+export type SyncTable = 'resumes' | 'applications' | 'jobs' | 'reveals' | 'searches' | 'notifications' | 'practiceTargets';
+
+export interface SyncMutation {
+  id: string;
+  table: SyncTable;
+  rowId: string;
+  ownerId: string;
+  /** Full row payload as the client last saw it. */
+  data: any;
+  /** The row was deleted locally; `data` is its last known contents. */
+  deleted?: boolean;
+  /** Snapshot of the row before the first unsynced local change, used for three-way merges. */
+  base?: any;
+  /** When the local change was made. Compared against the remote `updated_at` on conflict. */
+  updatedAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface SyncQueueState {
+  pending: number;
+  failing: boolean;
+  lastError?: string;
+}
+
+/**
+ * Writes one queued mutation to the backend. Returning a value signals that the row was
+ * reconciled with a concurrent remote change and the returned data is what was written.
+ */
+export type SyncHandler = (mutation: SyncMutation) => Promise<any | void>;
+
+export type SyncHandlers = Record<SyncTable, SyncHandler>;
+
+export interface SyncQueue {
+  enqueue(mutation: Pick<SyncMutation, 'table' | 'rowId' | 'ownerId' | 'data' | 'base' | 'deleted'>): void;
+  flush(): Promise<void>;
+  /** Starts draining the signed-in user's outbox. */
+  start(userId: string): void;
+  /** Stops syncing, e.g. on sign out. Queued writes stay in that user's outbox. */
+  stop(): void;
+  getState(): SyncQueueState;
+  /** Ids of rows deleted locally whose delete hasn't reached the backend yet. */
+  pendingDeletes(table: SyncTable): Set<string>;
+  /** Ids of rows saved locally whose write hasn't reached the backend yet. */
+  pendingWrites(table: SyncTable): Set<string>;
+  subscribe(listener: (state: SyncQueueState) => void): () => void;
+  onReconciled(listener: (table: SyncTable, data: any) => void): () => void;
+  /** The backend refused a write for good; it was dropped from the outbox. */
+  onRejected(listener: (mutation: SyncMutation, message: string) => void): () => void;
+}
+
+/**
+ * Deep equality for JSON data. Object key order is ignored, since jsonb doesn't preserve it, and
+ * so are undefined values, which don't survive a round trip.
+ */
+export const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((item, i) => sameValue(item, other[i]));
+  }
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = (value: Record<string, unknown>) => Object.keys(value).filter(key => value[key] !== undefined);
+  const leftKeys = keys(left);
+  return leftKeys.length === keys(right).length && leftKeys.every(key => sameValue(left[key], right[key]));
+};
+
+/**
+ * Whether retrying can't help: a 4xx other than timeouts and rate limits, or a Postgres error
+ * such as an RLS violation (42501), a constraint violation (23xxx) or bad data (22xxx).
+ */
+export const isPermanentError = (e: any) => {
+  const status = Number(e?.status ?? e?.statusCode);
+  if (status >= 400 && status < 500 && status !== 408 && status !== 429) return true;
+  return typeof e?.code === 'string' && /^(22|23|42)\d{3}$/.test(e.code);
+};
+
+/**
+ * Three-way merge of a local edit against a row that changed remotely in the meantime.
+ * Fields only one side touched keep that side's value; fields both sides touched go to
+ * whichever change has the later timestamp.
+ */
+export const mergeConcurrentEdits = <T extends Record<string, any>>(
+  base: T | undefined,
+  local: T,
+  remote: T,
+  localUpdatedAt: string,
+  remoteUpdatedAt: string
+): T => {
+  const merged: Record<string, any> = { ...remote };
+  const localWinsTies = new Date(localUpdatedAt).getTime() >= new Date(remoteUpdatedAt).getTime();
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+
+  keys.forEach(key => {
+    const localChanged = !base || !sameValue(local[key], base[key]);
+    const remoteChanged = !!base && !sameValue(remote[key], base[key]);
+
+    if (localChanged && (!remoteChanged || localWinsTies)) {
+      merged[key] = local[key];
+    }
+  });
+
+  return merged as T;
+};
+
+export const retryDelay = (attempts: number) => {
+  const exponential = Math.min(BASE_RETRY_MS * 2 ** attempts, MAX_RETRY_MS);
+  // Up to 20% jitter so several tabs don't retry in lockstep
+  return exponential + Math.random() * exponential * 0.2;
+};
+
+export const createSyncQueue = (handlers: SyncHandlers): SyncQueue => {
+  const listeners = new Set<(state: SyncQueueState) => void>();
+  const reconcileListeners = new Set<(table: SyncTable, data: any) => void>();
+  const rejectListeners = new Set<(mutation: SyncMutation, message: string) => void>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let flushing: Promise<void> | null = null;
+  let started = false;
+  let userId: string | null = null;
+
+  const outboxKey = () => userId ? userOutboxKey(userId) : OUTBOX_KEY;
+  const load = () => readJson<SyncMutation[]>(outboxKey(), []);
+
+  const getState = (): SyncQueueState => {
+    const outbox = load();
+    const failing = outbox.filter(m => m.attempts >= FAILING_AFTER_ATTEMPTS);
+    return {
+      pending: outbox.length,
+      failing: failing.length > 0,
+      lastError: failing[0]?.lastError
+    };
+  };
+
+  const persist = (outbox: SyncMutation[]) => {
+    writeJson(outboxKey(), outbox);
+    const state = getState();
+    listeners.forEach(l => l(state));
+  };
+
+  const schedule = () => {
+    if (!started) return;
+    if (timer) clearTimeout(timer);
+    const outbox = load();
+    if (outbox.length === 0) return;
+    const nextDue = Math.min(...outbox.map(m => m.nextAttemptAt));
+    timer = setTimeout(() => { flush(); }, Math.max(0, nextDue - Date.now()));
+  };
+
+  const runDue = async () => {
+    const now = Date.now();
+    const runFor = userId;
+    for (const mutation of load().filter(m => m.nextAttemptAt <= now)) {
+      // Signed out (or in as someone else) mid-run: the rest waits for its owner's session
+      if (userId !== runFor) return;
+      try {
+        const reconciled = await handlers[mutation.table](mutation);
+        const written = reconciled !== undefined ? reconciled : mutation.data;
+        // Drop the entry, unless a newer local change for the same row was coalesced into it
+        // meanwhile; that one now builds on what we just wrote.
+        persist(load()
+          .filter(m => !(m.id === mutation.id && m.updatedAt === mutation.updatedAt))
+          .map(m => m.id === mutation.id ? { ...m, base: written } : m));
+        if (reconciled !== undefined) {
+          reconcileListeners.forEach(l => l(mutation.table, reconciled));
+        }
+      } catch (e: any) {
+        const message = e?.message || String(e);
+        console.warn(`Sync failed (${mutation.table}/${mutation.rowId}):`, message);
+        if (isPermanentError(e)) {
+          persist(load().filter(m => m.id !== mutation.id));
+          rejectListeners.forEach(l => l(mutation, message));
+          continue;
+        }
+        persist(load().map(m => m.id === mutation.id ? {
+          ...m,
+          attempts: m.attempts + 1,
+          nextAttemptAt: Date.now() + retryDelay(m.attempts),
+          lastError: message
+        } : m));
+      }
+    }
+  };
+
+  const flush = async () => {
+    if (!started) return;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+    if (!flushing) {
+      flushing = runDue().finally(() => {
+        flushing = null;
+        schedule();
+      });
+    }
+    return flushing;
+  };
+
+  const stop = () => {
+    started = false;
+    userId = null;
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', handleOnline);
+    }
+  };
+
+  const handleOnline = () => {
+    // Connectivity came back: retry everything now instead of waiting out the backoff
+    persist(load().map(m => ({ ...m, nextAttemptAt: Date.now() })));
+    flush();
+  };
+
+  return {
+    enqueue({ table, rowId, ownerId, data, base, deleted }) {
+      const outbox = load();
+      const updatedAt = new Date().toISOString();
+      const existing = outbox.find(m => m.table === table && m.rowId === rowId);
+
+      if (existing) {
+        // Coalesce: keep the original base so the merge still sees every unsynced change. A
+        // delete replaces any pending write, so an unsynced row is never re-created remotely.
+        persist(outbox.map(m => m === existing
+          ? { ...m, ownerId, data, deleted, updatedAt, nextAttemptAt: Date.now() }
+          : m));
+      } else {
+        persist([...outbox, {
+          id: `${table}:${rowId}:${Date.now()}`,
+          table,
+          rowId,
+          ownerId,
+          data,
+          base,
+          deleted,
+          updatedAt,
+          attempts: 0,
+          nextAttemptAt: Date.now()
+        }]);
+      }
+      flush();
+    },
+
+    flush,
+
+    start(sessionUserId) {
+      if (started && userId === sessionUserId) return;
+      if (started) stop();
+      userId = sessionUserId;
+      // Adopt this user's writes from the unscoped outbox; other users' stay there for them
+      const unscoped = readJson<SyncMutation[]>(OUTBOX_KEY, []);
+      const adopted = unscoped.filter(m => m.ownerId === sessionUserId);
+      if (adopted.length > 0) {
+        writeJson(OUTBOX_KEY, unscoped.filter(m => m.ownerId !== sessionUserId));
+        persist([...load(), ...adopted]);
+      }
+      started = true;
+      if (typeof window !== 'undefined') {
+        window.addEventListener('online', handleOnline);
+      }
+      flush();
+    },
+
+    stop,
+
+    getState,
+
+    pendingDeletes(table) {
+      return new Set(load().filter(m => m.table === table && m.deleted).map(m => m.rowId));
+    },
+
+    pendingWrites(table) {
+      return new Set(load().filter(m => m.table === table && !m.deleted).map(m => m.rowId));
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      listener(getState());
+      return () => { listeners.delete(listener); };
+    },
+
+    onReconciled(listener) {
+      reconcileListeners.add(listener);
+      return () => { reconcileListeners.delete(listener); };
+    },
+
+    onRejected(listener) {
+      rejectListeners.add(listener);
+      return () => { rejectListeners.delete(listener); };
+    }
+  };
+};
@@ -0,0 +1,95 @@
+// Matches a just-published job against every candidate's job alerts, records the in-app
+// notifications and emails each candidate one digest. Called by the jobs table trigger (see the
+// job_alert_delivery migration), never by the app, so it runs with the service role.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { Job, SavedSearch } from '../../../types.ts';
+import { alertDigest, alertNotifications, matchJobAlerts } from '../../../lib/jobAlerts.ts';
+import { upgradeJob } from '../../../lib/jobPosting.ts';
+import { getMailTransport } from './mailTransport.ts';
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+const appUrl = Deno.env.get('APP_URL') || '';
+
+// The same choice as the app: the primary resume, else the newest one not tailored for a job
+const resumeSkills = async (userId: string, primaryId?: string): Promise<string[] | undefined> => {
+  const { data, error } = await supabase
+    .from('resumes')
+    .select('id, data, job_id')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  const resumes = data || [];
+  const primary = resumes.find(r => r.id === primaryId) || resumes.find(r => !r.job_id) || resumes[0];
+  return primary?.data?.skills;
+};
+
+const notifyCandidate = async (job: Job, userId: string, searches: SavedSearch[]) => {
+  const { data: { user }, error } = await supabase.auth.admin.getUserById(userId);
+  if (error) throw error;
+  if (!user) return;
+
+  const matches = matchJobAlerts(job, searches, await resumeSkills(userId, user.user_metadata.primary_resume_id));
+  if (matches.length === 0) return;
+
+  // Conflicts are notifications already sent for this job, e.g. before it was paused and
+  // republished; only the rows actually inserted are emailed
+  const { data: inserted, error: insertError } = await supabase
+    .from('notifications')
+    .upsert(alertNotifications(matches).map(notification => ({
+      id: notification.id,
+      user_id: userId,
+      kind: notification.kind,
+      title: notification.title,
+      body: notification.body,
+      job_id: notification.jobId,
+      search_id: notification.searchId,
+      read: notification.read,
+      created_at: notification.createdAt
+    })), { onConflict: 'user_id,search_id,job_id', ignoreDuplicates: true })
+    .select('search_id');
+  if (insertError) throw insertError;
+
+  const fresh = matches.filter(match => (inserted || []).some(row => row.search_id === match.search.id));
+  // Settings shows email notifications as on until the user turns them off
+  if (fresh.length === 0 || !user.email || user.user_metadata.email_notifications === false) return;
+
+  await getMailTransport(supabase).send({ to: user.email, ...alertDigest(fresh, appUrl) });
+};
+
+Deno.serve(async (req) => {
+  if (req.headers.get('x-job-alerts-secret') !== Deno.env.get('JOB_ALERTS_SECRET')) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  const { jobId } = await req.json();
+  const { data: jobRow, error: jobError } = await supabase.from('jobs').select('data').eq('id', jobId).maybeSingle();
+  if (jobError) return new Response(jobError.message, { status: 500 });
+  if (!jobRow?.data) return new Response('Job not found', { status: 404 });
+  const job = upgradeJob(jobRow.data);
+
+  const { data: rows, error: searchError } = await supabase
+    .from('saved_searches')
+    .select('id, user_id, name, query, alert, created_at')
+    .not('alert', 'is', null);
+  if (searchError) return new Response(searchError.message, { status: 500 });
+
+  const byUser = new Map<string, SavedSearch[]>();
+  // Paused alerts keep their settings but don't notify
+  (rows || []).filter(row => !row.alert.paused).forEach(row => {
+    byUser.set(row.user_id, [...(byUser.get(row.user_id) || []), {
+      id: row.id,
+      name: row.name,
+      query: row.query,
+      createdAt: row.created_at,
+      alert: row.alert
+    }]);
+  });
+
+  // One candidate's failure (a missing mail provider, say) doesn't stop the others' alerts
+  const results = await Promise.allSettled([...byUser].map(([userId, searches]) => notifyCandidate(job, userId, searches)));
+  results.forEach(result => {
+    if (result.status === 'rejected') console.warn('Job alert failed:', result.reason?.message || result.reason);
+  });
+
+  return new Response(JSON.stringify({ candidates: byUser.size }), { headers: { 'Content-Type': 'application/json' } });
+});
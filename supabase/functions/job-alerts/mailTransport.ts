@@ -0,0 +1,49 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/** Delivers outgoing email. The function only composes messages; where they go is up to the transport. */
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+/** Logs messages to the function's logs instead of sending them, for local development and demos. */
+export const createConsoleTransport = (): MailTransport => ({
+  name: 'console',
+  async send(message) {
+    console.info(`[mail] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  }
+});
+
+/**
+ * Hands messages to another Edge Function, which holds the mail provider's credentials.
+ * That function receives the message as its JSON body.
+ */
+export const createSupabaseFunctionTransport = (client: SupabaseClient, functionName = 'send-email'): MailTransport => ({
+  name: 'supabase',
+  async send(message) {
+    const { error } = await client.functions.invoke(functionName, { body: message });
+    if (error) throw error;
+  }
+});
+
+let activeTransport: MailTransport | null = null;
+
+/** Resolves the transport once per instance. `MAIL_TRANSPORT=supabase` sends real email; anything else logs. */
+export const getMailTransport = (client: SupabaseClient): MailTransport => {
+  if (activeTransport) return activeTransport;
+  activeTransport = Deno.env.get('MAIL_TRANSPORT') === 'supabase'
+    ? createSupabaseFunctionTransport(client)
+    : createConsoleTransport();
+  return activeTransport;
+};
+
+/** Overrides the transport, e.g. with another provider or a capturing one in tests. */
+export const setMailTransport = (transport: MailTransport | null) => {
+  activeTransport = transport;
+};
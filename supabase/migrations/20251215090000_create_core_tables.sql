@@ -0,0 +1,66 @@
+-- Core tables for CarrerX. The client has been writing to `resumes` and `applications` since
+-- before migrations existed, so everything here is idempotent against a hand-made schema.
+
+create table if not exists public.resumes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  data jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists resumes_user_id_created_at_idx
+  on public.resumes (user_id, created_at desc);
+
+-- Employer-posted jobs. Ids are generated client-side (timestamps), hence text.
+create table if not exists public.jobs (
+  id text primary key,
+  employer_id uuid not null references auth.users (id) on delete cascade,
+  data jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists jobs_employer_id_idx on public.jobs (employer_id);
+
+create table if not exists public.applications (
+  id text primary key,
+  -- The candidate who applied. Employers never own application rows.
+  user_id uuid not null references auth.users (id) on delete cascade,
+  data jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+-- No foreign key: candidates can also apply to AI-suggested jobs that only exist client-side.
+-- Those applications are simply invisible to every employer.
+alter table public.applications add column if not exists job_id text;
+alter table public.applications add column if not exists created_at timestamptz not null default now();
+
+update public.applications
+  set job_id = data ->> 'jobId'
+  where job_id is null;
+
+create index if not exists applications_user_id_idx on public.applications (user_id);
+create index if not exists applications_job_id_idx on public.applications (job_id);
+
+-- Keep updated_at honest for writers that don't send it.
+create or replace function public.touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.updated_at is null or new.updated_at = old.updated_at then
+    new.updated_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists jobs_touch_updated_at on public.jobs;
+create trigger jobs_touch_updated_at
+  before update on public.jobs
+  for each row execute function public.touch_updated_at();
+
+drop trigger if exists applications_touch_updated_at on public.applications;
+create trigger applications_touch_updated_at
+  before update on public.applications
+  for each row execute function public.touch_updated_at();
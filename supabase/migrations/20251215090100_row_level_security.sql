@@ -0,0 +1,106 @@
+-- Row level security. Candidates see only their own resumes and applications; employers see
+-- only applications to jobs they own. This replaces the client-side `applicationOwners` map.
+
+alter table public.resumes enable row level security;
+alter table public.jobs enable row level security;
+alter table public.applications enable row level security;
+
+-- RESUMES: private to their owner.
+
+drop policy if exists "resumes_owner_all" on public.resumes;
+create policy "resumes_owner_all" on public.resumes
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- JOBS: readable by every signed-in user, writable only by the posting employer.
+
+drop policy if exists "jobs_read_all" on public.jobs;
+create policy "jobs_read_all" on public.jobs
+  for select to authenticated
+  using (true);
+
+drop policy if exists "jobs_employer_insert" on public.jobs;
+create policy "jobs_employer_insert" on public.jobs
+  for insert to authenticated
+  with check (employer_id = auth.uid());
+
+drop policy if exists "jobs_employer_update" on public.jobs;
+create policy "jobs_employer_update" on public.jobs
+  for update to authenticated
+  using (employer_id = auth.uid())
+  with check (employer_id = auth.uid());
+
+drop policy if exists "jobs_employer_delete" on public.jobs;
+create policy "jobs_employer_delete" on public.jobs
+  for delete to authenticated
+  using (employer_id = auth.uid());
+
+-- APPLICATIONS
+
+-- security definer so the policy can read jobs regardless of the caller's own jobs policies
+create or replace function public.owns_job(target_job_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.jobs
+    where id = target_job_id and employer_id = auth.uid()
+  );
+$$;
+
+drop policy if exists "applications_candidate_select" on public.applications;
+create policy "applications_candidate_select" on public.applications
+  for select to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "applications_employer_select" on public.applications;
+create policy "applications_employer_select" on public.applications
+  for select to authenticated
+  using (public.owns_job(job_id));
+
+drop policy if exists "applications_candidate_insert" on public.applications;
+create policy "applications_candidate_insert" on public.applications
+  for insert to authenticated
+  with check (user_id = auth.uid());
+
+drop policy if exists "applications_candidate_update" on public.applications;
+create policy "applications_candidate_update" on public.applications
+  for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "applications_employer_update" on public.applications;
+create policy "applications_employer_update" on public.applications
+  for update to authenticated
+  using (public.owns_job(job_id))
+  with check (public.owns_job(job_id));
+
+drop policy if exists "applications_candidate_delete" on public.applications;
+create policy "applications_candidate_delete" on public.applications
+  for delete to authenticated
+  using (user_id = auth.uid());
+
+-- Employers may update status fields but must never take over or re-target a candidate's row.
+create or replace function public.applications_lock_ownership()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.user_id is distinct from old.user_id then
+    raise exception 'applications.user_id cannot be changed';
+  end if;
+  if new.job_id is distinct from old.job_id then
+    raise exception 'applications.job_id cannot be changed';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists applications_lock_ownership on public.applications;
+create trigger applications_lock_ownership
+  before update on public.applications
+  for each row execute function public.applications_lock_ownership();
@@ -0,0 +1,56 @@
+-- Private bucket for original resume files. Rows only store the object path
+-- (`data.file.storagePath` on resumes, `data.resumeFile.storagePath` on applications) and the
+-- client asks for a short-lived signed URL when someone opens the file.
+
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('resumes', 'resumes', false, 5242880)
+on conflict (id) do update
+  set public = false,
+      file_size_limit = excluded.file_size_limit;
+
+-- Lets the read policy below find applications by file without scanning the jsonb.
+alter table public.applications
+  add column if not exists resume_path text
+  generated always as (data -> 'resumeFile' ->> 'storagePath') stored;
+
+create index if not exists applications_resume_path_idx
+  on public.applications (resume_path)
+  where resume_path is not null;
+
+-- security definer so the policy can read applications and jobs regardless of the caller's
+-- own table policies
+create or replace function public.can_review_resume_file(object_name text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.applications
+    where resume_path = object_name and public.owns_job(job_id)
+  );
+$$;
+
+-- Objects live under `<owner id>/`, so ownership is the first path segment.
+
+drop policy if exists "resume_files_owner_insert" on storage.objects;
+create policy "resume_files_owner_insert" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'resumes' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "resume_files_owner_select" on storage.objects;
+create policy "resume_files_owner_select" on storage.objects
+  for select to authenticated
+  using (bucket_id = 'resumes' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "resume_files_owner_delete" on storage.objects;
+create policy "resume_files_owner_delete" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'resumes' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Employers can read (and so sign URLs for) files attached to applications to their jobs.
+drop policy if exists "resume_files_employer_select" on storage.objects;
+create policy "resume_files_employer_select" on storage.objects
+  for select to authenticated
+  using (bucket_id = 'resumes' and public.can_review_resume_file(name));
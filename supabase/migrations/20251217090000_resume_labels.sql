@@ -0,0 +1,3 @@
+-- Candidate-chosen names for saved resumes ("Backend-focused", "Startup version", ...). Kept
+-- outside `data` because the label belongs to the saved version, not to the AI analysis.
+alter table public.resumes add column if not exists label text;
@@ -0,0 +1,7 @@
+-- Resume versions tailored for one job. No foreign key, for the same reason as
+-- applications.job_id: AI-suggested jobs only exist client-side.
+alter table public.resumes add column if not exists job_id text;
+
+create index if not exists resumes_user_id_job_id_idx
+  on public.resumes (user_id, job_id)
+  where job_id is not null;
@@ -0,0 +1,26 @@
+-- Audit log for blind review: one row each time a candidate's identity is revealed to an
+-- employer. Append-only, so there are no update or delete policies.
+create table if not exists public.application_reveals (
+  id text primary key,
+  employer_id uuid not null references auth.users (id) on delete cascade,
+  application_id text not null,
+  job_id text not null,
+  -- The status the application was moved to when it was revealed
+  status text not null,
+  revealed_at timestamptz not null default now()
+);
+
+create index if not exists application_reveals_employer_id_idx
+  on public.application_reveals (employer_id, revealed_at desc);
+
+alter table public.application_reveals enable row level security;
+
+drop policy if exists "application_reveals_employer_select" on public.application_reveals;
+create policy "application_reveals_employer_select" on public.application_reveals
+  for select to authenticated
+  using (employer_id = auth.uid());
+
+drop policy if exists "application_reveals_employer_insert" on public.application_reveals;
+create policy "application_reveals_employer_insert" on public.application_reveals
+  for insert to authenticated
+  with check (employer_id = auth.uid() and public.owns_job(job_id));
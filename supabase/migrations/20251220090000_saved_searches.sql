@@ -0,0 +1,21 @@
+-- Saved job searches: a name plus the search text and facet selections, private to their owner.
+-- Ids are generated client-side so queued offline writes can be replayed, hence text.
+create table if not exists public.saved_searches (
+  id text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  query jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists saved_searches_user_id_created_at_idx
+  on public.saved_searches (user_id, created_at desc);
+
+alter table public.saved_searches enable row level security;
+
+drop policy if exists "saved_searches_owner_all" on public.saved_searches;
+create policy "saved_searches_owner_all" on public.saved_searches
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
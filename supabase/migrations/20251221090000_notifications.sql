@@ -0,0 +1,24 @@
+-- In-app notifications, currently job alerts for saved searches. The job-alerts Edge Function
+-- creates them with the service role; owners read them and flip `read`, and nobody else sees them.
+create table if not exists public.notifications (
+  id text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null,
+  title text not null,
+  body text not null,
+  job_id text,
+  search_id text,
+  read boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_id_created_at_idx
+  on public.notifications (user_id, created_at desc);
+
+alter table public.notifications enable row level security;
+
+drop policy if exists "notifications_owner_all" on public.notifications;
+create policy "notifications_owner_all" on public.notifications
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,2 @@
+-- Job alert settings and the jobs the alert has already seen; null when alerts are off
+alter table public.saved_searches add column if not exists alert jsonb;
@@ -0,0 +1,33 @@
+-- Job lifecycle. The status is copied out of `data` so policies can use it: drafts and archived
+-- jobs are private to their employer, and only published jobs accept new applications.
+alter table public.jobs add column if not exists status text not null default 'published';
+
+update public.jobs set status = coalesce(data->>'status', 'published');
+
+alter table public.jobs drop constraint if exists jobs_status_check;
+alter table public.jobs add constraint jobs_status_check
+  check (status in ('draft', 'published', 'paused', 'closed', 'archived'));
+
+-- Closed jobs stay readable so candidates who applied still see what they applied to
+drop policy if exists "jobs_read_all" on public.jobs;
+create policy "jobs_read_all" on public.jobs
+  for select to authenticated
+  using (status in ('published', 'paused', 'closed') or employer_id = auth.uid());
+
+-- AI-suggested jobs only exist client-side, so a job that isn't in the table accepts applications.
+-- Upserts of an application that already exists are updates and stay allowed.
+create or replace function public.can_apply(target_application_id text, target_job_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.applications where id = target_application_id)
+    or coalesce((select status = 'published' from public.jobs where id = target_job_id), true);
+$$;
+
+drop policy if exists "applications_candidate_insert" on public.applications;
+create policy "applications_candidate_insert" on public.applications
+  for insert to authenticated
+  with check (user_id = auth.uid() and public.can_apply(id, job_id));
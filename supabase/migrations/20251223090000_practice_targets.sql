@@ -0,0 +1,19 @@
+-- Practice targets: AI-suggested jobs a candidate kept to practice against instead of applying.
+-- The job is stored whole because AI jobs only ever exist client-side. Private to their owner.
+create table if not exists public.practice_targets (
+  id text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  job jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists practice_targets_user_id_created_at_idx
+  on public.practice_targets (user_id, created_at desc);
+
+alter table public.practice_targets enable row level security;
+
+drop policy if exists "practice_targets_owner_all" on public.practice_targets;
+create policy "practice_targets_owner_all" on public.practice_targets
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,59 @@
+-- Job alerts are matched on the server: publishing a job calls the `job-alerts` Edge Function,
+-- which records the notifications and emails the digests. Set it up with two Vault secrets:
+--   select vault.create_secret('https://<project>.supabase.co/functions/v1/job-alerts', 'job_alerts_url');
+--   select vault.create_secret('<random string>', 'job_alerts_secret');
+-- and give the function the same secret as JOB_ALERTS_SECRET.
+create extension if not exists pg_net with schema extensions;
+
+-- Alerts no longer track the jobs they've seen
+update public.saved_searches set alert = alert - 'seenJobIds' where alert ? 'seenJobIds';
+
+-- One notification per job and saved search, however often the job is republished or the
+-- function retried. Older duplicates from the client-side checks go first.
+delete from public.notifications newer
+  using public.notifications older
+  where newer.user_id = older.user_id
+    and newer.search_id = older.search_id
+    and newer.job_id = older.job_id
+    and (newer.created_at, newer.id) > (older.created_at, older.id);
+
+create unique index if not exists notifications_user_id_search_id_job_id_idx
+  on public.notifications (user_id, search_id, job_id);
+
+create or replace function public.notify_job_alerts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  function_url text;
+  function_secret text;
+begin
+  if tg_op = 'UPDATE' and old.status = 'published' then
+    return new;
+  end if;
+
+  select decrypted_secret into function_url from vault.decrypted_secrets where name = 'job_alerts_url';
+  select decrypted_secret into function_secret from vault.decrypted_secrets where name = 'job_alerts_secret';
+  -- Not configured (e.g. a fresh local database): publishing still works, just without alerts
+  if function_url is null or function_secret is null then
+    return new;
+  end if;
+
+  -- pg_net sends the request after the transaction commits, so the function sees the job
+  perform net.http_post(
+    url := function_url,
+    body := jsonb_build_object('jobId', new.id),
+    headers := jsonb_build_object('Content-Type', 'application/json', 'x-job-alerts-secret', function_secret)
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists jobs_notify_job_alerts on public.jobs;
+create trigger jobs_notify_job_alerts
+  after insert or update of status on public.jobs
+  for each row
+  when (new.status = 'published')
+  execute function public.notify_job_alerts();
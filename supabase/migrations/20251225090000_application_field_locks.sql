@@ -0,0 +1,34 @@
+-- Both sides can update an application row, but each only owns part of it: the candidate's
+-- submission (profile, resume, match score) and the employer's review (status and interview).
+-- Policies can't compare old and new values, so a trigger enforces the split.
+create or replace function public.applications_lock_fields()
+returns trigger
+language plpgsql
+as $$
+declare
+  review_fields text[] := array['status', 'interviewDate', 'meetingLink'];
+  score_fields text[] := array['matchScore', 'matchSource'];
+  field text;
+begin
+  -- Server-side writers (the service role) have no auth.uid() and aren't restricted
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if old.user_id = auth.uid() then
+    foreach field in array review_fields || score_fields loop
+      if new.data -> field is distinct from old.data -> field then
+        raise exception 'Candidates cannot change applications.data.%', field using errcode = '42501';
+      end if;
+    end loop;
+  elsif (new.data - review_fields) is distinct from (old.data - review_fields) then
+    raise exception 'Employers can only change the status and interview of an application' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists applications_lock_fields on public.applications;
+create trigger applications_lock_fields
+  before update on public.applications
+  for each row execute function public.applications_lock_fields();
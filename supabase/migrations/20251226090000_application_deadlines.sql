@@ -0,0 +1,19 @@
+-- Jobs stop accepting applications after their deadline (`data.deadline`, the last day to apply).
+-- Deadlines are calendar dates in the candidate's time zone, so one only counts as passed once
+-- that day is over everywhere (UTC-12, spelled Etc/GMT+12).
+create or replace function public.can_apply(target_application_id text, target_job_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.applications where id = target_application_id)
+    or coalesce((
+      select status = 'published'
+        and (data ->> 'deadline' is null
+          or (data ->> 'deadline')::date >= (now() at time zone 'Etc/GMT+12')::date)
+      from public.jobs
+      where id = target_job_id
+    ), true);
+$$;
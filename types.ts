@@ -28,9 +28,82 @@ export interface ResumeFile {
   name: string;
   type: string;
   size: number;
-  data?: string; // Base64 string (optional now, as we might offload to storage)
-  url?: string;  // Public URL from Supabase Storage
-  storagePath?: string; // Path in bucket
+  data?: string; // Base64 contents, only on resumes saved before uploads moved to Storage
+  url?: string;  // Legacy public URL; the bucket is private now, use a signed URL from storagePath
+  storagePath?: string; // Path in the private `resumes` bucket
+  extractedText?: string; // Text the analyzer read, for formats converted locally (DOCX, RTF, MD, TXT)
+}
+
+// Structured resume data extracted by analyzeResume. Dates are "YYYY-MM" (or "YYYY" when the
+// month is unknown); a missing endDate means the role or course is ongoing.
+
+export interface ResumeContact {
+  name?: string;
+  email?: string;
+  phone?: string;
+  location?: string;
+  links?: string[];
+}
+
+export interface WorkExperience {
+  company: string;
+  title: string;
+  location?: string;
+  startDate?: string;
+  endDate?: string;
+  highlights: string[];
+}
+
+export interface Education {
+  institution: string;
+  degree?: string;
+  field?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface Certification {
+  name: string;
+  issuer?: string;
+  date?: string;
+}
+
+export interface ResumeProject {
+  name: string;
+  description?: string;
+  technologies?: string[];
+  url?: string;
+}
+
+export type SkillProficiency = 'Beginner' | 'Intermediate' | 'Advanced' | 'Expert';
+
+export interface ProfileSkill {
+  name: string;
+  proficiency?: SkillProficiency;
+  years?: number;
+}
+
+export interface ResumeProfile {
+  contact: ResumeContact;
+  headline?: string; // Current or target job title
+  experience: WorkExperience[];
+  education: Education[];
+  certifications: Certification[];
+  projects: ResumeProject[];
+  skills: ProfileSkill[];
+}
+
+export type ResumeHealthIssue = 'table' | 'columns' | 'header-footer' | 'image-only' | 'text-box' | 'font';
+
+/** A layout problem found in the uploaded file itself, see services/resumeHealth.ts. */
+export interface ResumeHealthFinding {
+  issue: ResumeHealthIssue;
+  /** High: parsers are likely to lose content. Medium: parsers may scramble it. */
+  severity: 'high' | 'medium';
+  /** 1-based pages the issue was found on; empty when it applies to the whole document. */
+  pages: number[];
+  /** Specifics, e.g. the font names or where the contact details are. */
+  detail?: string;
 }
 
 export interface ResumeAnalysis {
@@ -40,13 +113,51 @@ export interface ResumeAnalysis {
   weaknesses: string[];
   improvements: string[];
   skills: string[]; // Added for skills gap analysis
+  formattingIssues?: ResumeHealthFinding[]; // Missing when the file wasn't checked
   file?: ResumeFile;
+  promptVersion?: string; // e.g. "analyzeResume@v1", see services/prompts.ts
+  profile?: ResumeProfile; // Missing on resumes analyzed before profiles were extracted
+}
+
+/** The resume as edited in the Resume Editor: the analysis summary plus the structured profile. */
+export interface ResumeDraft {
+  summary: string;
+  profile: ResumeProfile;
+}
+
+// A rewrite suggested for one field of a ResumeDraft. Indices refer to profile.experience
+// (highlights) or profile.projects; a highlight without highlightIndex is a new bullet.
+export interface ResumeEditSuggestion {
+  section: 'summary' | 'headline' | 'highlight' | 'project' | 'skill';
+  itemIndex?: number;
+  highlightIndex?: number;
+  original?: string;
+  suggested: string;
+  reason: string;
+}
+
+// How to tailor a ResumeDraft for one job. Role indices refer to profile.experience; highlights
+// are the role's bullets reordered and reworded, never new claims.
+export interface ResumeTailoring {
+  summary: string;
+  headline?: string;
+  roles: { index: number; highlights: string[] }[];
+  skills: string[]; // Most relevant first
+  emphasizedKeywords: string[];
+  unsupportedKeywords: string[]; // Missing keywords the resume gives no evidence for
 }
 
+/** The parts of an analysis the AI features read when matching or writing for a job. */
+export type ResumeContext = Pick<ResumeAnalysis, 'summary' | 'skills' | 'profile'>;
+
 export interface SavedResume {
   id: string;
   created_at: string;
   data: ResumeAnalysis;
+  /** Candidate-chosen name, e.g. "Backend-focused". The file name is shown when unset. */
+  label?: string;
+  /** Set on versions tailored for one job; that version is attached when applying there. */
+  jobId?: string;
 }
 
 export interface InterviewReport {
@@ -68,22 +179,104 @@ export interface InsightResult {
   sources: GroundingSource[];
 }
 
+export type SeniorityLevel = 'Internship' | 'Entry' | 'Mid' | 'Senior' | 'Lead' | 'Executive';
+
+export type RemotePolicy = 'Remote' | 'Hybrid' | 'Onsite';
+
+export interface SalaryRange {
+  min?: number;
+  max?: number;
+  currency: string; // ISO 4217, e.g. "USD"
+  period: 'year' | 'hour';
+}
+
+export interface JobSkill {
+  name: string; // As shown on the posting
+  key: string; // Canonical name from the skills vocabulary (lib/skills)
+  required: boolean; // False for nice-to-have skills
+}
+
+export type JobStatus = 'draft' | 'published' | 'paused' | 'closed' | 'archived';
+
+// Where a job came from: posted by an employer here, generated by AI as a sample, or copied from elsewhere
+export type JobSource = 'employer' | 'ai' | 'imported';
+
 export interface Job {
   id: string;
   employerId?: string; // ID of the employer who posted this job
+  status: JobStatus; // AI-generated jobs are always published
+  source?: JobSource; // Unset on postings saved before provenance was recorded, which are all employer postings
+  sourceUrl?: string; // The original posting of an imported job
   title: string;
   company: string;
   location: string;
-  salary: string;
+  salary: string; // Display label; derived from salaryRange when there is one
+  salaryRange?: SalaryRange;
   type: string;
+  seniority?: SeniorityLevel;
+  remotePolicy: RemotePolicy;
   description: string;
   requirements: string[];
+  skills: JobSkill[];
+  deadline?: string; // YYYY-MM-DD, last day to apply
   postedAt: string;
+  promptVersion?: string; // Set on AI-generated jobs
+}
+
+// A job as the model writes it, before its skills are linked to the vocabulary
+export type GeneratedJob = Omit<Job, 'skills' | 'status' | 'source'> & { skills: Pick<JobSkill, 'name' | 'required'>[] };
+
+export type SalaryBand = 'under50k' | '50to100k' | '100to150k' | 'over150k';
+
+export type JobSort = 'relevance' | 'bestFit' | 'salary';
+
+export interface JobSearchQuery {
+  text: string; // Full text over title, company, description, requirements and skills
+  locations: string[];
+  salaryBands: SalaryBand[];
+  salaryCurrency?: string; // ISO 4217; salary bands and the salary sort only compare postings in it
+  seniority: SeniorityLevel[];
+  remotePolicies: RemotePolicy[];
+  types: string[];
+  sort: JobSort;
+}
+
+export interface JobAlert {
+  minFit: number; // 0-100; matches below this resume fit don't notify
+  paused?: boolean; // Turned off by the candidate; kept so turning it back on restores minFit
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: JobSearchQuery;
+  createdAt: string;
+  alert?: JobAlert; // Set when new matching postings should notify the candidate
+}
+
+// An AI-suggested job kept to practice against (tailoring, cover letters, interviews). AI jobs
+// have no employer, so they can't be applied to.
+export interface PracticeTarget {
+  id: string;
+  job: Job; // Snapshot, since AI jobs are replaced whenever the feed refreshes
+  savedAt: string;
+}
+
+export interface AppNotification {
+  id: string;
+  kind: 'job_alert';
+  title: string;
+  body: string;
+  jobId?: string;
+  searchId?: string;
+  createdAt: string;
+  read: boolean;
 }
 
 export interface Application {
   id: string;
   jobId: string;
+  candidateId?: string; // Auth user id of the applicant (owner of the DB row)
   jobTitle: string;
   companyName?: string; // Snapshot of company name
   location?: string;    // Snapshot of location
@@ -92,12 +285,25 @@ export interface Application {
   candidateEmail: string;
   candidatePhone?: string;
   candidateAddress?: string;
-  matchScore: number; // Simulated score
+  matchScore: number;
+  matchSource?: 'ai' | 'keywords'; // AI fit analysis or lib/atsScore; unset on older applications
   status: 'New' | 'Reviewed' | 'Interview' | 'Rejected' | 'Shortlisted';
   timestamp: Date;
   interviewDate?: Date;
   meetingLink?: string;
   resumeFile?: ResumeFile;
+  resumeSummary?: string;       // Snapshot of the resume at the time of applying
+  resumeProfile?: ResumeProfile;
+}
+
+/** Logged when blind review stops hiding a candidate's identity from an employer. */
+export interface RevealEvent {
+  id: string;
+  applicationId: string;
+  jobId: string;
+  employerId: string;
+  status: Application['status']; // The status that revealed it
+  revealedAt: string;
 }
 
 export interface JobMatchResult {
@@ -106,6 +312,7 @@ export interface JobMatchResult {
   missingKeywords: string[];
   pros: string[];
   cons: string[];
+  promptVersion?: string;
 }
 
 export interface ActivityLog {